@@ -27,4 +27,258 @@ const wisphubConfig = {
   apiKey: process.env.WISPHUB_API_KEY || '',
 };
 
-export { environment, dbConfig, appConfig, wisphubConfig };
\ No newline at end of file
+// Webhooks salientes: las suscripciones se administran en /webhooks; las URL de n8n de estas
+// variables se registran como suscripciones al arrancar si aún no existen
+const notificationConfig = {
+  technicianConfirmationWebhookUrl: process.env.N8N_CONFIRMATION_WEBHOOK_URL || '',
+  // Flujo de n8n que entrega el statusToken al cliente (por defecto el de producción)
+  installationCreatedWebhookUrl:
+    process.env.N8N_CREATED_WEBHOOK_URL || 'https://n8n.geonet.cl/webhook/bb124651-cec5-423d-a05f-a3a1d04f38d3',
+  timeoutMs: parseInt(process.env.NOTIFICATION_WEBHOOK_TIMEOUT_MS || '5000', 10),
+  pollIntervalMs: parseInt(process.env.WEBHOOK_POLL_MS || '15000', 10),
+  batchSize: parseInt(process.env.WEBHOOK_BATCH_SIZE || '20', 10),
+  maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10),
+  baseDelayMs: parseInt(process.env.WEBHOOK_BASE_DELAY_MS || '10000', 10),
+  maxDelayMs: parseInt(process.env.WEBHOOK_MAX_DELAY_MS || String(6 * 60 * 60 * 1000), 10),
+  lockTimeoutMs: parseInt(process.env.WEBHOOK_LOCK_TIMEOUT_MS || String(2 * 60 * 1000), 10),
+};
+
+// Umbrales del puntaje de duplicados (0..1): sobre `warnScore` se marca la solicitud,
+// sobre `blockScore` se rechaza la creación salvo que venga `allowDuplicate`
+const duplicateConfig = {
+  warnScore: parseFloat(process.env.DUPLICATE_WARN_SCORE || '0.5'),
+  blockScore: parseFloat(process.env.DUPLICATE_BLOCK_SCORE || '0.85'),
+};
+
+// Consulta de factibilidad: radio (metros) en que se buscan CTO/ODB alrededor de la dirección
+const coverageConfig = {
+  radiusMeters: parseInt(process.env.COVERAGE_RADIUS_METERS || '300', 10),
+  maxRadiusMeters: parseInt(process.env.COVERAGE_MAX_RADIUS_METERS || '2000', 10),
+  maxOdbs: parseInt(process.env.COVERAGE_MAX_ODBS || '5', 10),
+};
+
+// Geocodificación de direcciones sin coordenadas: 'none' (por defecto), 'nominatim' o 'fixture' (archivo JSON local).
+// Es opcional a propósito: con 'nominatim' la dirección del cliente se envía a un servicio externo
+const geocodingConfig = {
+  provider: (process.env.GEOCODING_PROVIDER || 'none').toLowerCase(),
+  nominatimUrl: process.env.NOMINATIM_URL || 'https://nominatim.openstreetmap.org',
+  // La política de uso de Nominatim exige identificar la aplicación
+  userAgent: process.env.GEOCODING_USER_AGENT || 'instalacion-backend',
+  email: process.env.GEOCODING_EMAIL || '',
+  timeoutMs: parseInt(process.env.GEOCODING_TIMEOUT_MS || '10000', 10),
+  minIntervalMs: parseInt(process.env.GEOCODING_MIN_INTERVAL_MS || '1000', 10),
+  fixturePath: process.env.GEOCODING_FIXTURE_PATH || '',
+};
+
+// Consulta pública de estado (RUT + código): límite propio, más estricto que el de la API de n8n
+const publicStatusConfig = {
+  rateLimitWindowMs: parseInt(process.env.PUBLIC_STATUS_RATE_WINDOW_MS || String(15 * 60 * 1000), 10),
+  rateLimitMax: parseInt(process.env.PUBLIC_STATUS_RATE_MAX || '10', 10),
+};
+
+// Fotos de documentos: se guardan el original, una versión JPEG normalizada (la que va a Wisphub) y una miniatura
+const imageConfig = {
+  maxDimension: parseInt(process.env.IMAGE_MAX_DIMENSION || '2000', 10),
+  quality: parseInt(process.env.IMAGE_JPEG_QUALITY || '80', 10),
+  thumbnailSize: parseInt(process.env.IMAGE_THUMBNAIL_SIZE || '320', 10),
+  thumbnailQuality: parseInt(process.env.IMAGE_THUMBNAIL_QUALITY || '70', 10),
+};
+
+// Validación de archivos subidos: límite de píxeles (bombas de descompresión) y antivirus ('clamav' o 'none')
+const uploadSecurityConfig = {
+  maxPixels: parseInt(process.env.UPLOAD_MAX_PIXELS || '50000000', 10),
+  virusScanner: (process.env.VIRUS_SCANNER || 'none').toLowerCase(),
+  clamavHost: process.env.CLAMAV_HOST || '127.0.0.1',
+  clamavPort: parseInt(process.env.CLAMAV_PORT || '3310', 10),
+  clamavTimeoutMs: parseInt(process.env.CLAMAV_TIMEOUT_MS || '15000', 10),
+  // Si el antivirus no responde: false rechaza la carga (503), true la acepta sin escanear
+  failOpen: process.env.VIRUS_SCAN_FAIL_OPEN === 'true',
+};
+
+// Personal del back office: STAFF_API_TOKENS="nombre:token,otro:token2" (el nombre queda en los registros de acceso)
+function parseStaffTokens(raw: string): Array<{ name: string; token: string }> {
+  return raw
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const sep = entry.indexOf(':');
+      return sep > 0 ? { name: entry.slice(0, sep).trim(), token: entry.slice(sep + 1).trim() } : { name: 'staff', token: entry };
+    })
+    .filter((entry) => entry.token.length > 0);
+}
+
+const staffAuthConfig = {
+  tokens: parseStaffTokens(process.env.STAFF_API_TOKENS || ''),
+};
+
+// Enlaces de descarga de documentos: firmados con HMAC y de corta duración
+const documentDownloadConfig = {
+  signingSecret: process.env.DOCUMENT_URL_SECRET || '',
+  ttlSeconds: parseInt(process.env.DOCUMENT_URL_TTL_SECONDS || '300', 10),
+  // Base pública para armar el enlace (p. ej. https://api.geonet.cl/api); vacío = host de la petición
+  baseUrl: process.env.DOCUMENT_URL_BASE || '',
+};
+
+// Almacenamiento de archivos subidos: 'local' (carpeta uploads/) o 's3' (AWS S3 o compatible, p. ej. MinIO)
+const storageConfig = {
+  driver: (process.env.STORAGE_DRIVER || 'local').toLowerCase(),
+  localDir: process.env.STORAGE_LOCAL_DIR || '',
+  s3: {
+    endpoint: process.env.S3_ENDPOINT || '',
+    region: process.env.S3_REGION || 'us-east-1',
+    bucket: process.env.S3_BUCKET || '',
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+    // MinIO usa http://host:9000/bucket/key; AWS acepta bucket.s3.region.amazonaws.com/key
+    forcePathStyle: (process.env.S3_FORCE_PATH_STYLE || (process.env.S3_ENDPOINT ? 'true' : 'false')) === 'true',
+    prefix: process.env.S3_PREFIX || 'uploads/',
+    timeoutMs: parseInt(process.env.S3_TIMEOUT_MS || '30000', 10),
+  },
+};
+
+// Retención de documentos: días que se conservan después de activar o cancelar la solicitud
+const retentionConfig = {
+  enabled: process.env.RETENTION_ENABLED !== 'false',
+  cron: process.env.RETENTION_CRON || '30 3 * * *',
+  activatedDays: parseInt(process.env.RETENTION_ACTIVATED_DAYS || '180', 10),
+  // También para rechazadas y eliminadas (desde deletedAt)
+  cancelledDays: parseInt(process.env.RETENTION_CANCELLED_DAYS || '30', 10),
+  // Archivos sin referencia (cargas en curso, placeholders fake_*) se borran pasado este plazo
+  orphanGraceHours: parseInt(process.env.RETENTION_ORPHAN_GRACE_HOURS || '24', 10),
+  dryRun: process.env.RETENTION_DRY_RUN === 'true',
+  reportDir: process.env.RETENTION_REPORT_DIR || '',
+};
+
+// Outbox de envíos a Wisphub: reintentos con backoff exponencial (base * 2^(intento-1), tope maxDelayMs)
+const wisphubOutboxConfig = {
+  pollIntervalMs: parseInt(process.env.WISPHUB_OUTBOX_POLL_MS || '30000', 10),
+  batchSize: parseInt(process.env.WISPHUB_OUTBOX_BATCH_SIZE || '10', 10),
+  maxAttempts: parseInt(process.env.WISPHUB_OUTBOX_MAX_ATTEMPTS || '8', 10),
+  baseDelayMs: parseInt(process.env.WISPHUB_OUTBOX_BASE_DELAY_MS || '30000', 10),
+  maxDelayMs: parseInt(process.env.WISPHUB_OUTBOX_MAX_DELAY_MS || String(60 * 60 * 1000), 10),
+  // Entradas en 'processing' más antiguas que esto se consideran de un proceso caído y se retoman
+  lockTimeoutMs: parseInt(process.env.WISPHUB_OUTBOX_LOCK_TIMEOUT_MS || String(5 * 60 * 1000), 10),
+  requestTimeoutMs: parseInt(process.env.WISPHUB_REQUEST_TIMEOUT_MS || '60000', 10),
+};
+
+// Exportación CSV/XLSX de solicitudes (GET /installations/export)
+const exportConfig = {
+  // ';' para que Excel en español separe las columnas al abrir el CSV
+  csvDelimiter: process.env.EXPORT_CSV_DELIMITER || ';',
+  // Enmascarar RUT, teléfono y email salvo que se pida mask=false
+  maskByDefault: (process.env.EXPORT_MASK_BY_DEFAULT || 'true').toLowerCase() !== 'false',
+  batchSize: parseInt(process.env.EXPORT_BATCH_SIZE || '500', 10),
+  maxRows: parseInt(process.env.EXPORT_MAX_ROWS || '100000', 10),
+};
+
+// Importación masiva desde CSV (POST /installations/import)
+const importConfig = {
+  // Cada fila se envía a Wisphub en línea, así que el archivo se limita
+  maxRows: parseInt(process.env.IMPORT_MAX_ROWS || '1000', 10),
+  maxFileBytes: parseInt(process.env.IMPORT_MAX_FILE_BYTES || String(5 * 1024 * 1024), 10),
+  // Planes aceptados (separados por coma, sin distinguir mayúsculas); vacío = cualquier plan no vacío
+  allowedPlans: (process.env.IMPORT_ALLOWED_PLANS || '')
+    .split(',')
+    .map((p) => p.trim())
+    .filter(Boolean),
+};
+
+// Agenda de instalaciones (/agenda)
+const agendaConfig = {
+  // Duración de una cita cuando solo se indica la hora de inicio
+  defaultDurationMinutes: parseInt(process.env.AGENDA_DEFAULT_DURATION_MINUTES || '120', 10),
+};
+
+// Duraciones por plan o zona: "clave:minutos,otra:minutos" (la clave se busca dentro del plan o la ciudad/localidad, sin mayúsculas)
+function parseDurationMap(raw: string): Array<{ key: string; minutes: number }> {
+  return raw
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const sep = entry.lastIndexOf(':');
+      return { key: entry.slice(0, sep).trim().toLowerCase(), minutes: parseInt(entry.slice(sep + 1), 10) };
+    })
+    .filter((entry) => entry.key.length > 0 && Number.isInteger(entry.minutes) && entry.minutes > 0);
+}
+
+// Capacidad de la agenda: valores por defecto de cada técnico (se sobrescriben en /technicians) y reglas de los cupos
+const capacityConfig = {
+  // Días de trabajo (0 = domingo … 6 = sábado) y horario
+  workDays: (process.env.CAPACITY_WORK_DAYS || '1,2,3,4,5,6')
+    .split(',')
+    .map((d) => parseInt(d, 10))
+    .filter((d) => d >= 0 && d <= 6),
+  workStart: process.env.CAPACITY_WORK_START || '09:00',
+  workEnd: process.env.CAPACITY_WORK_END || '18:00',
+  maxDailyInstallations: parseInt(process.env.CAPACITY_MAX_DAILY_INSTALLATIONS || '4', 10),
+  planDurations: parseDurationMap(process.env.CAPACITY_PLAN_DURATIONS || ''),
+  zoneDurations: parseDurationMap(process.env.CAPACITY_ZONE_DURATIONS || ''),
+  // Los cupos empiezan cada `slotStepMinutes` y dejan `travelBufferMinutes` libres entre una cita y otra
+  slotStepMinutes: parseInt(process.env.CAPACITY_SLOT_STEP_MINUTES || '30', 10),
+  travelBufferMinutes: parseInt(process.env.CAPACITY_TRAVEL_BUFFER_MINUTES || '30', 10),
+  // Anticipación mínima para reservar y horizonte máximo de la consulta de disponibilidad
+  minLeadMinutes: parseInt(process.env.CAPACITY_MIN_LEAD_MINUTES || '120', 10),
+  maxDays: parseInt(process.env.CAPACITY_MAX_DAYS || '30', 10),
+};
+
+// Tickets de Geonet: ventanas de cada técnico para detectar cruces, traslados insuficientes y horarios fuera de turno
+const ticketScheduleConfig = {
+  // true: un ticket con conflictos se rechaza con 409; false: se crea y los conflictos vuelven como advertencias
+  strict: process.env.TICKET_CONFLICTS_STRICT === 'true',
+  // Reservas 'pending' más antiguas que esto son de un proceso caído y dejan de ocupar la ventana
+  pendingTtlMinutes: parseInt(process.env.TICKET_PENDING_TTL_MINUTES || '10', 10),
+};
+
+// Feed iCalendar (.ics) de cada técnico con sus citas y tickets
+const calendarConfig = {
+  // Rango publicado alrededor de hoy; las canceladas dentro del rango siguen saliendo para que el teléfono las quite
+  pastDays: parseInt(process.env.CALENDAR_PAST_DAYS || '30', 10),
+  futureDays: parseInt(process.env.CALENDAR_FUTURE_DAYS || '90', 10),
+  // Cada cuánto se sugiere a los clientes de calendario volver a consultar el feed
+  refreshMinutes: parseInt(process.env.CALENDAR_REFRESH_MINUTES || '15', 10),
+  // Dominio de los UID de los eventos; cambiarlo duplica los eventos ya suscritos
+  uidDomain: process.env.CALENDAR_UID_DOMAIN || 'instalacion-backend',
+  // Base pública para armar el enlace de suscripción; vacío = host de la petición
+  baseUrl: process.env.CALENDAR_BASE_URL || '',
+};
+
+// Ruta del día de un técnico (GET /agenda/route): tiempos de viaje 'haversine' (locales) u 'osrm' (servidor compatible con /table de OSRM)
+const routeConfig = {
+  router: (process.env.ROUTE_ROUTER || 'haversine').toLowerCase(),
+  osrmUrl: process.env.ROUTE_OSRM_URL || 'http://localhost:5000',
+  osrmProfile: process.env.ROUTE_OSRM_PROFILE || 'driving',
+  timeoutMs: parseInt(process.env.ROUTE_TIMEOUT_MS || '10000', 10),
+  // Estimación local: la distancia en línea recta se multiplica por `roadFactor` y se recorre a `averageSpeedKmh`
+  roadFactor: parseFloat(process.env.ROUTE_ROAD_FACTOR || '1.3'),
+  averageSpeedKmh: parseFloat(process.env.ROUTE_AVERAGE_SPEED_KMH || '40'),
+  // Punto de partida por defecto ("lat,lng"); vacío = se parte en la primera visita
+  depot: process.env.ROUTE_DEPOT || '',
+};
+
+export {
+  environment,
+  dbConfig,
+  appConfig,
+  wisphubConfig,
+  notificationConfig,
+  duplicateConfig,
+  coverageConfig,
+  geocodingConfig,
+  publicStatusConfig,
+  imageConfig,
+  uploadSecurityConfig,
+  staffAuthConfig,
+  documentDownloadConfig,
+  storageConfig,
+  retentionConfig,
+  wisphubOutboxConfig,
+  exportConfig,
+  importConfig,
+  agendaConfig,
+  capacityConfig,
+  ticketScheduleConfig,
+  calendarConfig,
+  routeConfig,
+};
\ No newline at end of file
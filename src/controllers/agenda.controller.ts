@@ -0,0 +1,197 @@
+import { Request, Response } from 'express';
+import { AgendaService, isAgendaStatus } from '../services/agenda.service';
+import { CapacityService } from '../services/capacity.service';
+import { RouteOptimizationService } from '../services/routeOptimization.service';
+import { AGENDA_STATUSES } from '../entities/Agenda';
+import { minutesToTime, parseDateKey, parseTimeToMinutes, toDateKeyCL } from '../utils/date';
+import { parseCoordinates } from '../utils/geo';
+import logger from '../utils/logger';
+
+export class AgendaController {
+  private agendaService: AgendaService;
+  private capacityService: CapacityService;
+  private routeService: RouteOptimizationService;
+
+  constructor() {
+    this.agendaService = new AgendaService();
+    this.capacityService = new CapacityService();
+    this.routeService = new RouteOptimizationService();
+  }
+
+  private parseId(value: unknown): number | null {
+    const id = Number(value);
+    return Number.isInteger(id) && id > 0 ? id : null;
+  }
+
+  private fail(res: Response, error: any, message: string): Response {
+    const statusCode = error.statusCode || 500;
+    if (statusCode === 500) logger.error(`${message}: ${String(error)}`);
+    return res.status(statusCode).json(error.data ?? { message: statusCode === 500 ? message : error.message });
+  }
+
+  // Staff token name, or X-Actor / `changedBy` when the caller identifies itself
+  private resolveActor(req: Request, res: Response): string {
+    const header = req.get('x-actor');
+    const fromBody = req.body && (req.body.changedBy ?? req.body.changed_by);
+    const actor = String(header ?? fromBody ?? '').trim();
+    return actor || String(res.locals.staff ?? 'api');
+  }
+
+  // `date` defaults to today in Chile; `technicianId` and `includeCancelled` are optional
+  private parseViewQuery(req: Request): { dateKey: string | null; technicianId: number | null; includeCancelled: boolean } {
+    const dateKey = req.query.date ? parseDateKey(String(req.query.date)) : toDateKeyCL(new Date());
+    const technicianId = req.query.technicianId ? this.parseId(req.query.technicianId) : null;
+    const includeCancelled = String(req.query.includeCancelled ?? '').toLowerCase() === 'true';
+    return { dateKey, technicianId, includeCancelled };
+  }
+
+  public async listEntries(req: Request, res: Response): Promise<Response> {
+    try {
+      const from = req.query.from ? parseDateKey(String(req.query.from)) : null;
+      const to = req.query.to ? parseDateKey(String(req.query.to)) : null;
+      if ((req.query.from && !from) || (req.query.to && !to)) {
+        return res.status(400).json({ message: 'from/to deben ser fechas (YYYY-MM-DD o DD/MM/YYYY)' });
+      }
+      const status = req.query.status
+        ? String(req.query.status).split(',').map((s) => s.trim()).filter(Boolean)
+        : [];
+      if (!status.every(isAgendaStatus)) {
+        return res.status(400).json({ message: `status debe ser uno o más de: ${AGENDA_STATUSES.join(', ')}` });
+      }
+      const limit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
+      const entries = await this.agendaService.listEntries({
+        from,
+        to,
+        technicianId: req.query.technicianId ? this.parseId(req.query.technicianId) : null,
+        installationRequestId: req.query.installationRequestId ? this.parseId(req.query.installationRequestId) : null,
+        status,
+        limit: Number.isFinite(limit) ? limit : undefined,
+      });
+      return res.status(200).json(entries);
+    } catch (error: any) {
+      return this.fail(res, error, 'Error obteniendo la agenda');
+    }
+  }
+
+  public async getDayView(req: Request, res: Response): Promise<Response> {
+    try {
+      const { dateKey, technicianId, includeCancelled } = this.parseViewQuery(req);
+      if (!dateKey) return res.status(400).json({ message: 'date inválida (YYYY-MM-DD o DD/MM/YYYY)' });
+      return res.status(200).json(await this.agendaService.dayView(dateKey, { technicianId, includeCancelled }));
+    } catch (error: any) {
+      return this.fail(res, error, 'Error obteniendo la agenda del día');
+    }
+  }
+
+  public async getWeekView(req: Request, res: Response): Promise<Response> {
+    try {
+      const { dateKey, technicianId, includeCancelled } = this.parseViewQuery(req);
+      if (!dateKey) return res.status(400).json({ message: 'date inválida (YYYY-MM-DD o DD/MM/YYYY)' });
+      return res.status(200).json(await this.agendaService.weekView(dateKey, { technicianId, includeCancelled }));
+    } catch (error: any) {
+      return this.fail(res, error, 'Error obteniendo la agenda de la semana');
+    }
+  }
+
+  public async getAvailability(req: Request, res: Response): Promise<Response> {
+    try {
+      const q = req.query as Record<string, any>;
+      const from = q.from ? parseDateKey(String(q.from)) : null;
+      if (q.from && !from) return res.status(400).json({ message: 'from debe ser una fecha (YYYY-MM-DD o DD/MM/YYYY)' });
+      const installationRequestId = q.installationRequestId ? this.parseId(q.installationRequestId) : null;
+      if (q.installationRequestId && !installationRequestId) return res.status(400).json({ message: 'installationRequestId inválido' });
+      const days = q.days !== undefined ? this.parseId(q.days) : null;
+      if (q.days !== undefined && !days) return res.status(400).json({ message: 'days debe ser un entero positivo' });
+
+      const availability = await this.capacityService.availability({
+        installationRequestId,
+        plan: q.plan ? String(q.plan) : null,
+        zone: q.zone ? String(q.zone) : null,
+        durationMinutes: q.durationMinutes ? this.parseId(q.durationMinutes) : null,
+        technicianId: q.technicianId ? this.parseId(q.technicianId) : null,
+        from,
+        days,
+        ignorePreferences: String(q.ignorePreferences ?? '').toLowerCase() === 'true',
+      });
+      return res.status(200).json(availability);
+    } catch (error: any) {
+      return this.fail(res, error, 'Error calculando la disponibilidad');
+    }
+  }
+
+  public async bookSlot(req: Request, res: Response): Promise<Response> {
+    try {
+      const entry = await this.agendaService.book(req.body ?? {}, this.resolveActor(req, res));
+      return res.status(201).json(entry);
+    } catch (error: any) {
+      return this.fail(res, error, 'Error reservando el cupo');
+    }
+  }
+
+  // `technicianId` required; `date` defaults to today, `start` ("lat,lng") and `startTime` (HH:mm) are optional
+  public async getRoute(req: Request, res: Response): Promise<Response> {
+    try {
+      const q = req.query as Record<string, any>;
+      const technicianId = this.parseId(q.technicianId);
+      if (!technicianId) return res.status(400).json({ message: 'technicianId es requerido' });
+      const date = q.date ? parseDateKey(String(q.date)) : toDateKeyCL(new Date());
+      if (!date) return res.status(400).json({ message: 'date inválida (YYYY-MM-DD o DD/MM/YYYY)' });
+      const start = q.start ? parseCoordinates(String(q.start)) : null;
+      if (q.start && !start) return res.status(400).json({ message: 'start debe ser "lat,lng"' });
+      const startMinutes = q.startTime ? parseTimeToMinutes(String(q.startTime)) : null;
+      if (q.startTime && startMinutes === null) return res.status(400).json({ message: 'startTime inválida (HH:mm)' });
+
+      const route = await this.routeService.planDay({
+        technicianId,
+        date,
+        start,
+        startTime: startMinutes !== null ? minutesToTime(startMinutes) : null,
+      });
+      return res.status(200).json(route);
+    } catch (error: any) {
+      return this.fail(res, error, 'Error calculando la ruta');
+    }
+  }
+
+  public async getEntry(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseId(req.params.id);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+      return res.status(200).json(await this.agendaService.getEntry(id));
+    } catch (error: any) {
+      return this.fail(res, error, 'Error obteniendo la cita');
+    }
+  }
+
+  public async createEntry(req: Request, res: Response): Promise<Response> {
+    try {
+      const entry = await this.agendaService.createEntry(req.body ?? {}, this.resolveActor(req, res));
+      return res.status(201).json(entry);
+    } catch (error: any) {
+      return this.fail(res, error, 'Error creando la cita');
+    }
+  }
+
+  public async updateEntry(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseId(req.params.id);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+      const entry = await this.agendaService.updateEntry(id, req.body ?? {}, this.resolveActor(req, res));
+      return res.status(200).json(entry);
+    } catch (error: any) {
+      return this.fail(res, error, 'Error actualizando la cita');
+    }
+  }
+
+  public async cancelEntry(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseId(req.params.id);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+      const reason = String(req.body?.reason ?? req.query.reason ?? '').trim() || null;
+      const entry = await this.agendaService.cancelEntry(id, reason, this.resolveActor(req, res));
+      return res.status(200).json(entry);
+    } catch (error: any) {
+      return this.fail(res, error, 'Error cancelando la cita');
+    }
+  }
+}
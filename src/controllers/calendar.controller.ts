@@ -0,0 +1,63 @@
+import { Request, Response } from 'express';
+import { TechnicianCalendarService } from '../services/technicianCalendar.service';
+import { calendarConfig } from '../config';
+import logger from '../utils/logger';
+
+export class CalendarController {
+  private calendarService: TechnicianCalendarService;
+
+  constructor() {
+    this.calendarService = new TechnicianCalendarService();
+  }
+
+  private parseId(value: unknown): number | null {
+    const id = Number(value);
+    return Number.isInteger(id) && id > 0 ? id : null;
+  }
+
+  private fail(res: Response, error: any, message: string): Response {
+    const statusCode = error.statusCode || 500;
+    if (statusCode === 500) logger.error(`${message}: ${String(error)}`);
+    return res.status(statusCode).json(error.data ?? { message: statusCode === 500 ? message : error.message });
+  }
+
+  // Token in the path: calendar apps subscribe to a plain URL and cannot send headers
+  public async getTechnicianFeed(req: Request, res: Response): Promise<Response> {
+    try {
+      const { technician, ics } = await this.calendarService.buildFeed(String(req.params.token ?? ''));
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', `inline; filename="instalaciones-${technician.id}.ics"`);
+      res.setHeader('Cache-Control', 'private, no-store');
+      return res.status(200).send(ics);
+    } catch (error: any) {
+      return this.fail(res, error, 'Error generando el calendario');
+    }
+  }
+
+  // Issues (or rotates) the technician's feed link; the token is only returned here
+  public async issueFeedToken(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseId(req.params.id);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+
+      const token = await this.calendarService.issueToken(id);
+      const baseUrl = calendarConfig.baseUrl || `${req.protocol}://${req.get('host')}${req.baseUrl.replace(/\/calendar$/, '')}`;
+      const url = `${baseUrl.replace(/\/$/, '')}/calendar/technicians/${token}.ics`;
+      logger.info(`Calendar: enlace del técnico ${id} emitido por ${String(res.locals.staff ?? 'staff')}`);
+      return res.status(201).json({ technicianId: id, url, webcalUrl: url.replace(/^https?:\/\//, 'webcal://') });
+    } catch (error: any) {
+      return this.fail(res, error, 'Error emitiendo el enlace del calendario');
+    }
+  }
+
+  public async revokeFeedToken(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseId(req.params.id);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+      await this.calendarService.revokeToken(id);
+      return res.status(204).send();
+    } catch (error: any) {
+      return this.fail(res, error, 'Error revocando el enlace del calendario');
+    }
+  }
+}
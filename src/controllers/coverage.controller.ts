@@ -0,0 +1,66 @@
+import { Request, Response } from 'express';
+import { CoverageService } from '../services/coverage.service';
+import { InstallationService } from '../services/installation.service';
+import { coordinatesErrorMessage } from '../services/installationValidation';
+import { parseChileanCoordinates, parseCoordinates } from '../utils/geo';
+import logger from '../utils/logger';
+
+export class CoverageController {
+  private coverageService: CoverageService;
+  private installationService: InstallationService;
+
+  constructor() {
+    this.coverageService = new CoverageService();
+    this.installationService = new InstallationService();
+  }
+
+  private parseRadius(req: Request): number | null | undefined {
+    const raw = req.query.radius ?? req.query.radiusMeters;
+    if (raw === undefined || raw === '') return undefined;
+    const radius = Number(raw);
+    return Number.isFinite(radius) && radius > 0 ? radius : null;
+  }
+
+  public async checkCoverage(req: Request, res: Response): Promise<Response> {
+    try {
+      const { coordinates, lat, lng } = req.query as Record<string, string | undefined>;
+      const raw = coordinates ?? (lat !== undefined && lng !== undefined ? `${lat},${lng}` : null);
+      if (!raw) return res.status(400).json({ message: 'coordinates ("lat,lng") o lat y lng son requeridos' });
+      const parsed = parseChileanCoordinates(raw);
+      if (!parsed.ok) return res.status(400).json({ message: coordinatesErrorMessage(parsed.reason) });
+      const point = parsed.point;
+
+      const radius = this.parseRadius(req);
+      if (radius === null) return res.status(400).json({ message: 'radius debe ser un número positivo (metros)' });
+
+      const result = await this.coverageService.check(point, radius);
+      return res.status(200).json(result);
+    } catch (error: any) {
+      logger.error(`Error checking coverage: ${String(error)}`);
+      return res.status(500).json({ message: 'Error consultando factibilidad' });
+    }
+  }
+
+  public async checkInstallationCoverage(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = Number((req.params as any).id);
+      if (!Number.isInteger(id) || id <= 0) return res.status(400).json({ message: 'id inválido' });
+
+      const radius = this.parseRadius(req);
+      if (radius === null) return res.status(400).json({ message: 'radius debe ser un número positivo (metros)' });
+
+      const request = await this.installationService.getRequestById(id);
+      const point = request.latitude !== null && request.longitude !== null
+        ? { lat: request.latitude, lng: request.longitude }
+        : parseCoordinates(request.coordinates);
+      if (!point) return res.status(422).json({ message: 'La solicitud no tiene coordenadas válidas' });
+
+      const result = await this.coverageService.check(point, radius);
+      return res.status(200).json({ installationId: request.id, ...result });
+    } catch (error: any) {
+      logger.error(`Error checking installation coverage: ${String(error)}`);
+      const statusCode = error.statusCode || 500;
+      return res.status(statusCode).json({ message: error.message || 'Error consultando factibilidad' });
+    }
+  }
+}
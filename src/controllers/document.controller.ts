@@ -0,0 +1,45 @@
+import { Request, Response } from 'express';
+import { DocumentAccessService, isDocumentVariant } from '../services/documentAccess.service';
+import logger from '../utils/logger';
+
+export class DocumentController {
+  private documentAccessService: DocumentAccessService;
+
+  constructor() {
+    this.documentAccessService = new DocumentAccessService();
+  }
+
+  // Signed link issued by POST /installations/:id/documents/:field/download-url; no other credential needed
+  public async downloadDocument(req: Request, res: Response): Promise<Response | void> {
+    try {
+      const documentId = Number((req.params as any).documentId);
+      const { variant, expires, by, sig } = req.query as Record<string, string | undefined>;
+      if (!Number.isInteger(documentId) || documentId <= 0 || !isDocumentVariant(variant) || !expires || !by || !sig) {
+        return res.status(400).json({ message: 'Enlace de descarga inválido' });
+      }
+
+      const target = await this.documentAccessService.resolveDownload(
+        { documentId, variant, expires: Number(expires), actor: by, signature: sig },
+        { ip: req.ip, userAgent: req.get('user-agent') },
+      );
+
+      res.setHeader('Content-Type', target.mimeType);
+      res.setHeader('Content-Length', String(target.size));
+      res.setHeader('Content-Disposition', `inline; filename="${target.downloadName}"`);
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+
+      const { stream } = target;
+      stream.on('error', (err) => {
+        logger.error(`Error streaming document ${documentId}: ${String(err)}`);
+        if (!res.headersSent) res.status(500).json({ message: 'Error leyendo el archivo' });
+        else res.destroy(err);
+      });
+      stream.pipe(res);
+    } catch (error: any) {
+      if (!error.statusCode) logger.error(`Error downloading document: ${String(error)}`);
+      const statusCode = error.statusCode || 500;
+      return res.status(statusCode).json({ message: statusCode === 500 ? 'Error descargando el documento' : error.message });
+    }
+  }
+}
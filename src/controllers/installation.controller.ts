@@ -1,27 +1,93 @@
 import { Request, Response } from 'express';
 import { InstallationService } from '../services/installation.service';
-import { FileService } from '../services/file.service';
+import { FileService, StoredImage } from '../services/file.service';
+import { DOCUMENT_FIELDS, DocumentField } from '../entities/InstallationRequest';
+import { parseInstallationListQuery } from '../services/installationQuery';
+import { validateInstallationUpdate } from '../services/installationValidation';
+import { InstallationConfirmationService } from '../services/installationConfirmation.service';
+import { DuplicateDetectionService } from '../services/duplicateDetection.service';
+import { GeocodingService } from '../services/geocoding.service';
+import { PublicStatusService } from '../services/publicStatus.service';
+import { InstallationDocumentService, isDocumentField } from '../services/installationDocument.service';
+import { UploadSafetyService } from '../services/uploadSafety.service';
+import { DocumentAccessService, isDocumentVariant } from '../services/documentAccess.service';
+import { InstallationExportQuery, InstallationExportService, parseInstallationExportQuery } from '../services/installationExport.service';
+import { InstallationImportService } from '../services/installationImport.service';
+import { WisphubOutboxService, isWisphubOutboxStatus } from '../services/wisphubOutbox.service';
+import { WISPHUB_OUTBOX_STATUSES } from '../entities/WisphubOutboxEntry';
+import { TicketReservation, TicketScheduleService, extractTicketId } from '../services/ticketSchedule.service';
+import { documentDownloadConfig } from '../config';
+import {
+  InstallationStatusService,
+  getAllowedTransitions,
+  getReopenTransitions,
+  isInstallationStatus,
+} from '../services/installationStatus.service';
 import logger from '../utils/logger';
-import axios from 'axios';
 
 export class InstallationController {
   private installationService: InstallationService;
   private fileService: FileService;
+  private statusService: InstallationStatusService;
+  private confirmationService: InstallationConfirmationService;
+  private duplicateService: DuplicateDetectionService;
+  private geocodingService: GeocodingService;
+  private publicStatusService: PublicStatusService;
+  private documentService: InstallationDocumentService;
+  private uploadSafetyService: UploadSafetyService;
+  private documentAccessService: DocumentAccessService;
+  private wisphubOutbox: WisphubOutboxService;
+  private exportService: InstallationExportService;
+  private importService: InstallationImportService;
+  private ticketScheduleService: TicketScheduleService;
 
   constructor() {
     this.installationService = new InstallationService();
     this.fileService = new FileService();
+    this.statusService = new InstallationStatusService();
+    this.confirmationService = new InstallationConfirmationService();
+    this.duplicateService = new DuplicateDetectionService();
+    this.geocodingService = new GeocodingService();
+    this.publicStatusService = new PublicStatusService();
+    this.documentService = new InstallationDocumentService();
+    this.uploadSafetyService = new UploadSafetyService();
+    this.documentAccessService = new DocumentAccessService();
+    this.wisphubOutbox = new WisphubOutboxService();
+    this.exportService = new InstallationExportService();
+    this.importService = new InstallationImportService();
+    this.ticketScheduleService = new TicketScheduleService();
   }
 
-  private async sendWebhook(url: string, payload: any): Promise<void> {
+  // Quién ejecuta la acción: header X-Actor (n8n / back office) o `changedBy` en el body
+  private resolveActor(req: Request): string {
+    const header = req.get('x-actor');
+    const fromBody = req.body && (req.body.changedBy ?? req.body.changed_by);
+    const actor = String(header ?? fromBody ?? '').trim();
+    return actor || 'api';
+  }
+
+  // `strict` en el body o la query pisa TICKET_CONFLICTS_STRICT; sin él rige la configuración
+  private parseStrictFlag(req: Request): boolean | undefined {
+    const raw = req.body?.strict ?? (req.query as any).strict;
+    if (raw === undefined || raw === null || raw === '') return undefined;
+    return raw === true || ['true', '1', 'yes', 'si', 'sí'].includes(String(raw).trim().toLowerCase());
+  }
+
+  // Confirma la ventana reservada si Geonet guardó el ticket, o la libera; el ticket ya existe, así que un error aquí solo se registra
+  private async settleTicketWindow(reservation: TicketReservation, saved: boolean, location?: string): Promise<void> {
     try {
-      await axios.post(url, payload, { timeout: 5000 });
-      logger.info(`Webhook POST to ${url} succeeded`);
-    } catch (err: any) {
-      logger.error(`Error sending webhook to ${url}: ${String(err && err.message ? err.message : err)}`);
+      if (saved) await this.ticketScheduleService.confirm(reservation, { ticketId: extractTicketId(location), location });
+      else await this.ticketScheduleService.release(reservation);
+    } catch (error: any) {
+      logger.error(`Error registrando la ventana del ticket: ${String(error)}`);
     }
   }
 
+  private parseRequestId(req: Request): number | null {
+    const id = Number((req.params as any).id);
+    return Number.isInteger(id) && id > 0 ? id : null;
+  }
+
   public async createInstallationRequest(req: Request, res: Response): Promise<Response> {
     try {
       const data = req.body;
@@ -41,32 +107,33 @@ export class InstallationController {
         }
       }
 
-      // Procesar archivos si existen: guardar buffers en disco y pasar filename
+      // Procesar archivos si existen: guardar original + JPEG normalizado + miniatura y pasar el filename normalizado
       // Las imágenes NO son obligatorias, si no vienen, se usarán fake images en el service
       if (req.files) {
         const files = req.files as any;
-        if (files.idFront && files.idFront[0]) {
-          data.idFront = this.fileService.saveFile(files.idFront[0].buffer, files.idFront[0].originalname || 'idFront.jpg');
-        }
-        if (files.idBack && files.idBack[0]) {
-          data.idBack = this.fileService.saveFile(files.idBack[0].buffer, files.idBack[0].originalname || 'idBack.jpg');
-        }
-        if (files.addressProof && files.addressProof[0]) {
-          data.addressProof = this.fileService.saveFile(files.addressProof[0].buffer, files.addressProof[0].originalname || 'addressProof.jpg');
-        }
-        if (files.coupon && files.coupon[0]) {
-          data.coupon = this.fileService.saveFile(files.coupon[0].buffer, files.coupon[0].originalname || 'coupon.jpg');
+        const uploads = DOCUMENT_FIELDS.filter((field) => files[field]?.[0]).map((field) => ({
+          field,
+          buffer: files[field][0].buffer,
+          originalName: files[field][0].originalname || '',
+        }));
+        // Tipo real, integridad y antivirus antes de guardar nada (400 con el campo rechazado)
+        await this.uploadSafetyService.assertSafe(uploads);
+
+        const documentFiles: Partial<Record<DocumentField, StoredImage>> = {};
+        for (const field of DOCUMENT_FIELDS) {
+          const file = files[field]?.[0];
+          if (!file) continue;
+          documentFiles[field] = await this.fileService.saveImage(file.buffer, file.originalname || `${field}.jpg`, file.mimetype ?? null);
+          data[field] = documentFiles[field]?.fileName;
         }
+        data.documentFiles = documentFiles;
       }
 
       // No es necesario validar que vengan imágenes, el service generará fake images si faltan
       const installationRequest = await this.installationService.createRequest(data);
 
-      // Notify n8n webhook with the created installation id (fire-and-forget)
-      void this.sendWebhook(
-        'https://n8n.geonet.cl/webhook/bb124651-cec5-423d-a05f-a3a1d04f38d3',
-        { installationId: installationRequest.id },
-      );
+      // Código para la consulta pública de estado y aviso a los suscriptores (n8n se lo envía al cliente)
+      await this.installationService.announceCreated(installationRequest);
 
       return res.status(201).json(installationRequest);
     } catch (error: any) {
@@ -75,17 +142,458 @@ export class InstallationController {
         const status = error.status || 400;
         return res.status(status).json(error.data);
       }
+      if (error.statusCode) {
+        return res.status(error.statusCode).json(error.data ?? { message: error.message });
+      }
       return res.status(500).json({ message: 'Error creating installation request' });
     }
   }
 
   public async getInstallationRequests(req: Request, res: Response): Promise<Response> {
     try {
-      const requests = await this.installationService.getAllRequests();
-      return res.status(200).json(requests);
-    } catch (error) {
+      const query = parseInstallationListQuery(req.query as Record<string, any>);
+      const result = await this.installationService.listRequests(query);
+      return res.status(200).json(result);
+    } catch (error: any) {
       logger.error(`Error retrieving installation requests: ${String(error)}`);
-      return res.status(500).json({ message: 'Error retrieving installation requests' });
+      const statusCode = error.statusCode || 500;
+      return res.status(statusCode).json({ message: statusCode === 500 ? 'Error retrieving installation requests' : error.message });
+    }
+  }
+
+  // Streams CSV/XLSX; errors after the first byte can only abort the response
+  public async exportInstallationRequests(req: Request, res: Response): Promise<Response | void> {
+    let query: InstallationExportQuery;
+    try {
+      query = parseInstallationExportQuery(req.query as Record<string, any>);
+      await this.exportService.count(query);
+    } catch (error: any) {
+      logger.error(`Error exporting installation requests: ${String(error)}`);
+      const statusCode = error.statusCode || 500;
+      return res.status(statusCode).json({ message: statusCode === 500 ? 'Error exportando las solicitudes' : error.message });
+    }
+
+    res.setHeader(
+      'Content-Type',
+      query.format === 'xlsx'
+        ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+        : 'text/csv; charset=utf-8',
+    );
+    res.setHeader('Content-Disposition', `attachment; filename="${this.exportService.fileName(query.format)}"`);
+    res.setHeader('Cache-Control', 'private, no-store');
+    try {
+      await this.exportService.write(query, res);
+      logger.info(`Installation export (${query.format}) downloaded by ${res.locals.staff}`);
+      res.end();
+    } catch (error: any) {
+      logger.error(`Error streaming installation export: ${String(error)}`);
+      res.destroy(error);
+    }
+  }
+
+  // Multipart field `file`; `dryRun` and `allowDuplicates` come from the query or the form fields
+  public async importInstallationRequests(req: Request, res: Response): Promise<Response> {
+    try {
+      const file = req.file;
+      if (!file?.buffer?.length) return res.status(400).json({ message: 'Falta el archivo CSV (campo file)' });
+
+      const flag = (name: string) => {
+        const value = String((req.query as any)[name] ?? req.body?.[name] ?? '').trim().toLowerCase();
+        return ['true', '1', 'yes', 'si', 'sí'].includes(value);
+      };
+      const report = await this.importService.import(file.buffer, {
+        dryRun: flag('dryRun'),
+        allowDuplicates: flag('allowDuplicates'),
+        actor: String(res.locals.staff ?? this.resolveActor(req)),
+      });
+      return res.status(200).json(report);
+    } catch (error: any) {
+      logger.error(`Error importing installation requests: ${String(error)}`);
+      const statusCode = error.statusCode || 500;
+      return res.status(statusCode).json({ message: statusCode === 500 ? 'Error importando las solicitudes' : error.message });
+    }
+  }
+
+  public async getInstallationRequest(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseRequestId(req);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+
+      const request = await this.installationService.getRequestById(id);
+      return res.status(200).json(request);
+    } catch (error: any) {
+      logger.error(`Error retrieving installation request: ${String(error)}`);
+      const statusCode = error.statusCode || 500;
+      return res.status(statusCode).json({ message: error.message || 'Error obteniendo la solicitud' });
+    }
+  }
+
+  public async getInstallationRequestByCi(req: Request, res: Response): Promise<Response> {
+    try {
+      const ci = String((req.params as any).ci ?? '').trim();
+      if (!ci) return res.status(400).json({ message: 'ci es requerido en la URL' });
+
+      const request = await this.installationService.getRequestByCi(ci);
+      return res.status(200).json(request);
+    } catch (error: any) {
+      logger.error(`Error retrieving installation request by CI: ${String(error)}`);
+      const statusCode = error.statusCode || 500;
+      return res.status(statusCode).json({ message: error.message || 'Error obteniendo la solicitud' });
+    }
+  }
+
+  public async updateInstallationRequest(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseRequestId(req);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+
+      const { changedBy, changed_by, ...fields } = req.body ?? {};
+      const changes = validateInstallationUpdate(fields);
+      if (Object.keys(changes).length === 0) {
+        return res.status(400).json({ message: 'No se enviaron campos para actualizar' });
+      }
+
+      const updated = await this.installationService.updateRequest(id, changes, this.resolveActor(req));
+      return res.status(200).json(updated);
+    } catch (error: any) {
+      logger.error(`Error updating installation request: ${String(error)}`);
+      const statusCode = error.statusCode || 500;
+      return res.status(statusCode).json(error.data ?? { message: error.message || 'Error actualizando la solicitud' });
+    }
+  }
+
+  public async deleteInstallationRequest(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseRequestId(req);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+
+      const reasonRaw = req.body?.reason ?? req.body?.motivo ?? req.query.reason;
+      const reason = String(reasonRaw ?? '').trim();
+      if (!reason) return res.status(400).json({ message: 'reason es requerido para eliminar una solicitud' });
+
+      await this.installationService.softDeleteRequest(id, reason, this.resolveActor(req));
+      return res.status(204).send();
+    } catch (error: any) {
+      logger.error(`Error deleting installation request: ${String(error)}`);
+      const statusCode = error.statusCode || 500;
+      return res.status(statusCode).json({ message: error.message || 'Error eliminando la solicitud' });
+    }
+  }
+
+  public async confirmInstallation(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseRequestId(req);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+
+      const body: any = req.body ?? {};
+      const action = String(body.action ?? 'confirm').trim().toLowerCase();
+      const technicianName = body.technicianName ?? body.tecnicoName ?? body.tecnico_nombre ?? req.get('x-actor') ?? null;
+      const notesRaw = body.technicianNotes ?? body.notes ?? body.notas;
+      const technicianNotes = notesRaw !== undefined ? (notesRaw === null ? null : String(notesRaw)) : undefined;
+
+      if (action === 'notes') {
+        if (technicianNotes === undefined) return res.status(400).json({ message: 'technicianNotes es requerido' });
+        const updated = await this.confirmationService.updateNotes(id, technicianNotes, technicianName);
+        return res.status(200).json(updated);
+      }
+      if (action !== 'confirm' && action !== 'propose') {
+        return res.status(400).json({ message: 'action debe ser confirm, propose o notes' });
+      }
+
+      const updated = await this.confirmationService.confirm(id, {
+        action,
+        agreedInstallationDate: String(body.agreedInstallationDate ?? body.fecha ?? ''),
+        agreedTimeFrom: String(body.agreedTimeFrom ?? body.hora_desde ?? ''),
+        agreedTimeTo: String(body.agreedTimeTo ?? body.hora_hasta ?? ''),
+        technicianNotes,
+        technicianName: technicianName !== null ? String(technicianName) : null,
+        allowOutsidePreferences: String(body.allowOutsidePreferences ?? '').toLowerCase() === 'true' || body.allowOutsidePreferences === true,
+      });
+      return res.status(200).json(updated);
+    } catch (error: any) {
+      logger.error(`Error confirming installation: ${String(error)}`);
+      const statusCode = error.statusCode || 500;
+      return res.status(statusCode).json(error.data ?? { message: error.message || 'Error confirmando la instalación' });
+    }
+  }
+
+  public async unconfirmInstallation(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseRequestId(req);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+
+      const body: any = req.body ?? {};
+      const technicianName = body.technicianName ?? body.tecnicoName ?? req.get('x-actor') ?? null;
+      const reason = body.reason ?? body.motivo ?? null;
+      const notesRaw = body.technicianNotes ?? body.notes;
+
+      const updated = await this.confirmationService.unconfirm(id, {
+        technicianName: technicianName !== null ? String(technicianName) : null,
+        reason: reason !== null ? String(reason) : null,
+        technicianNotes: notesRaw !== undefined ? (notesRaw === null ? null : String(notesRaw)) : undefined,
+      });
+      return res.status(200).json(updated);
+    } catch (error: any) {
+      logger.error(`Error unconfirming installation: ${String(error)}`);
+      const statusCode = error.statusCode || 500;
+      return res.status(statusCode).json({ message: error.message || 'Error anulando la confirmación' });
+    }
+  }
+
+  public async getInstallationStatus(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseRequestId(req);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+
+      const summary = await this.statusService.getStatusSummary(id);
+      return res.status(200).json(summary);
+    } catch (error: any) {
+      logger.error(`Error retrieving installation status: ${String(error)}`);
+      const statusCode = error.statusCode || 500;
+      return res.status(statusCode).json({ message: error.message || 'Error obteniendo estado de la solicitud' });
+    }
+  }
+
+  public async changeInstallationStatus(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseRequestId(req);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+
+      const body: any = req.body ?? {};
+      const status = body.status ?? body.estado;
+      if (!isInstallationStatus(status)) {
+        return res.status(400).json({ message: 'status inválido' });
+      }
+      const reason = body.reason ?? body.motivo;
+      const opts = {
+        changedBy: this.resolveActor(req),
+        reason: reason !== undefined && reason !== null ? String(reason) : null,
+      };
+
+      // Volver a un paso anterior es explícito (`reopen: true`) y exige motivo
+      const reopen = body.reopen === true || body.reopen === 'true';
+      const updated = reopen
+        ? await this.statusService.reopen(id, status, opts)
+        : await this.statusService.transition(id, status, opts);
+      return res.status(200).json({
+        id: updated.id,
+        status: updated.status,
+        allowedTransitions: getAllowedTransitions(updated.status),
+        reopenTransitions: getReopenTransitions(updated.status),
+      });
+    } catch (error: any) {
+      logger.error(`Error changing installation status: ${String(error)}`);
+      const statusCode = error.statusCode || 500;
+      return res
+        .status(statusCode)
+        .json({ message: error.message || 'Error cambiando estado de la solicitud', data: error.data });
+    }
+  }
+
+  public async getInstallationStatusHistory(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseRequestId(req);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+
+      const history = await this.statusService.getHistory(id);
+      return res.status(200).json(history);
+    } catch (error: any) {
+      logger.error(`Error retrieving installation status history: ${String(error)}`);
+      return res.status(500).json({ message: 'Error obteniendo historial de estados' });
+    }
+  }
+
+  public async getDuplicateClusters(req: Request, res: Response): Promise<Response> {
+    try {
+      const minScoreRaw = req.query.minScore ?? req.query.min_score;
+      const minScore = minScoreRaw !== undefined ? Number(minScoreRaw) : undefined;
+      if (minScore !== undefined && (!Number.isFinite(minScore) || minScore < 0 || minScore > 1)) {
+        return res.status(400).json({ message: 'minScore debe ser un número entre 0 y 1' });
+      }
+
+      const clusters = await this.duplicateService.findClusters(minScore);
+      return res.status(200).json({ total: clusters.length, data: clusters });
+    } catch (error: any) {
+      logger.error(`Error retrieving duplicate clusters: ${String(error)}`);
+      return res.status(500).json({ message: 'Error obteniendo solicitudes duplicadas' });
+    }
+  }
+
+  public async mergeInstallationRequests(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseRequestId(req);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+
+      const sourceId = Number(req.body?.sourceId ?? req.body?.duplicateId);
+      if (!Number.isInteger(sourceId) || sourceId <= 0) {
+        return res.status(400).json({ message: 'sourceId es requerido (solicitud que se absorbe)' });
+      }
+
+      const merged = await this.duplicateService.merge(id, sourceId, this.resolveActor(req));
+      return res.status(200).json(merged);
+    } catch (error: any) {
+      logger.error(`Error merging installation requests: ${String(error)}`);
+      const statusCode = error.statusCode || 500;
+      return res.status(statusCode).json({ message: error.message || 'Error fusionando las solicitudes' });
+    }
+  }
+
+  public async geocodeInstallationRequest(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseRequestId(req);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+
+      const forceRaw = req.body?.force ?? req.query.force;
+      const force = forceRaw === true || String(forceRaw ?? '').toLowerCase() === 'true';
+
+      const updated = await this.geocodingService.geocodeRequest(id, { force });
+      return res.status(200).json(updated);
+    } catch (error: any) {
+      logger.error(`Error geocoding installation request: ${String(error)}`);
+      const statusCode = error.statusCode || 502;
+      return res.status(statusCode).json({ message: error.statusCode ? error.message : 'Error consultando el servicio de geocodificación' });
+    }
+  }
+
+  public async getInstallationDocuments(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseRequestId(req);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+
+      const documents = await this.documentService.list(id);
+      return res.status(200).json(documents);
+    } catch (error: any) {
+      logger.error(`Error retrieving installation documents: ${String(error)}`);
+      return res.status(500).json({ message: 'Error obteniendo los documentos' });
+    }
+  }
+
+  public async createDocumentDownloadUrl(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseRequestId(req);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+
+      const field = (req.params as any).field;
+      if (!isDocumentField(field)) {
+        return res.status(400).json({ message: 'field debe ser idFront, idBack, addressProof o coupon' });
+      }
+      const body: any = req.body ?? {};
+      const variant = body.variant ?? req.query.variant ?? 'normalized';
+      if (!isDocumentVariant(variant)) {
+        return res.status(400).json({ message: 'variant debe ser normalized, original o thumbnail' });
+      }
+      const rawVersion = body.version ?? req.query.version;
+      const version = rawVersion !== undefined && rawVersion !== '' ? Number(rawVersion) : null;
+      if (version !== null && (!Number.isInteger(version) || version < 1)) {
+        return res.status(400).json({ message: 'version inválida' });
+      }
+
+      // /api/installations → /api/documents/:id/download (respeta el prefijo con que se llamó)
+      const baseUrl = documentDownloadConfig.baseUrl || `${req.protocol}://${req.get('host')}${req.baseUrl.replace(/\/installations$/, '')}`;
+      const result = await this.documentAccessService.issueUrl(id, field, { variant, version, baseUrl }, {
+        actor: res.locals.staff,
+        ip: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+      return res.status(200).json({
+        url: result.url,
+        expiresAt: result.expiresAt,
+        documentId: result.document.id,
+        version: result.document.version,
+        variant: result.variant,
+      });
+    } catch (error: any) {
+      logger.error(`Error issuing document download url: ${String(error)}`);
+      const statusCode = error.statusCode || 500;
+      return res.status(statusCode).json({ message: error.message || 'Error generando el enlace de descarga' });
+    }
+  }
+
+  public async getDocumentAccessLog(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseRequestId(req);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+
+      const entries = await this.documentAccessService.listAccess(id);
+      return res.status(200).json(entries);
+    } catch (error: any) {
+      logger.error(`Error retrieving document access log: ${String(error)}`);
+      return res.status(500).json({ message: 'Error obteniendo el registro de accesos' });
+    }
+  }
+
+  public async getWisphubOutbox(req: Request, res: Response): Promise<Response> {
+    try {
+      const raw = String(req.query.status ?? 'failed');
+      const statuses = raw.split(',').map((s) => s.trim()).filter(Boolean);
+      if (!statuses.length || !statuses.every(isWisphubOutboxStatus)) {
+        return res.status(400).json({ message: `status debe ser uno o más de: ${WISPHUB_OUTBOX_STATUSES.join(', ')}` });
+      }
+      const entries = await this.wisphubOutbox.list(statuses);
+      return res.status(200).json(entries);
+    } catch (error: any) {
+      logger.error(`Error retrieving Wisphub outbox: ${String(error)}`);
+      return res.status(500).json({ message: 'Error obteniendo los envíos a Wisphub' });
+    }
+  }
+
+  public async replayWisphubSync(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseRequestId(req);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+
+      const outcome = await this.wisphubOutbox.replay(id, this.resolveActor(req));
+      const synced = outcome.entry.status === 'done';
+      return res.status(synced ? 200 : 502).json({
+        entry: outcome.entry,
+        request: outcome.request,
+        wisphub: { status: outcome.result?.status ?? null, data: outcome.result?.data ?? null },
+      });
+    } catch (error: any) {
+      logger.error(`Error replaying Wisphub submission: ${String(error)}`);
+      const statusCode = error.statusCode || 500;
+      return res.status(statusCode).json({ message: statusCode === 500 ? 'Error reenviando la solicitud a Wisphub' : error.message });
+    }
+  }
+
+  public async replaceInstallationDocument(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseRequestId(req);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+
+      const field = (req.params as any).field;
+      if (!isDocumentField(field)) {
+        return res.status(400).json({ message: 'field debe ser idFront, idBack, addressProof o coupon' });
+      }
+      const file = req.file;
+      if (!file) return res.status(400).json({ message: 'Se requiere el archivo en el campo multipart "file"' });
+
+      const result = await this.documentService.replace(
+        id,
+        field,
+        { buffer: file.buffer, originalName: file.originalname, mimeType: file.mimetype, size: file.size },
+        this.resolveActor(req),
+      );
+      return res.status(200).json(result);
+    } catch (error: any) {
+      logger.error(`Error replacing installation document: ${String(error)}`);
+      const statusCode = error.statusCode || 500;
+      return res.status(statusCode).json(error.data ?? { message: error.message || 'Error cargando el documento' });
+    }
+  }
+
+  public async reissueStatusToken(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseRequestId(req);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+
+      const statusToken = await this.publicStatusService.issueToken(id);
+      logger.info(`Status token reissued for request ${id} by ${this.resolveActor(req)}`);
+      return res.status(200).json({ installationId: id, statusToken });
+    } catch (error: any) {
+      logger.error(`Error reissuing status token: ${String(error)}`);
+      const statusCode = error.statusCode || 500;
+      return res.status(statusCode).json({ message: error.message || 'Error generando el código de consulta' });
     }
   }
 
@@ -158,6 +666,20 @@ export class InstallationController {
         });
       }
 
+      const installationRequestId = Number(body.installationRequestId ?? body.installation_request_id);
+      const reservation = await this.ticketScheduleService.reserve(
+        {
+          fechaInicio: String(fechaInicio),
+          fechaFinal: String(fechaFinal),
+          tecnicoId: tecnicoId !== undefined && tecnicoId !== null ? String(tecnicoId) : undefined,
+          tecnicoName: tecnicoName !== undefined && tecnicoName !== null ? String(tecnicoName) : undefined,
+          installationRequestId: Number.isInteger(installationRequestId) && installationRequestId > 0 ? installationRequestId : null,
+          subject: body.asunto ?? body.asuntosDefault ?? body.asuntos_default,
+          actor: this.resolveActor(req),
+        },
+        { strict: this.parseStrictFlag(req) },
+      );
+
       const archivoTicketBuffer = (req as any).file?.buffer as Buffer | undefined;
 
       const result = await this.installationService.crearTicket({
@@ -176,6 +698,9 @@ export class InstallationController {
         departamentosDefault: body.departamentosDefault ?? body.departamentos_default,
         departamento: body.departamento !== undefined ? String(body.departamento) : undefined,
         archivoTicket: archivoTicketBuffer ?? null,
+      }).catch(async (error) => {
+        await this.ticketScheduleService.release(reservation);
+        throw error;
       });
 
       // Geonet often responds with HTML even on validation errors; surface as 422.
@@ -184,16 +709,17 @@ export class InstallationController {
         (result.missingRequiredFields && result.missingRequiredFields.length > 0);
 
       const isOk = result.status >= 200 && result.status < 400;
+      await this.settleTicketWindow(reservation, isOk && !hasValidationErrors, result.location);
       if (isOk && hasValidationErrors) {
         return res.status(422).json(result);
       }
 
-      // Normalizar respuesta a 200 y dejar el `result.status` original dentro del body
-      return res.status(200).json(result);
+      // Normalizar respuesta a 200 y dejar el `result.status` original dentro del body; los conflictos van como advertencias
+      return res.status(200).json({ ...result, conflicts: reservation.conflicts });
     } catch (error: any) {
       logger.error(`Error creating Geonet ticket: ${String(error)}`);
       const statusCode = error.statusCode || 500;
-      return res.status(statusCode).json({ message: error.message || 'Error creando ticket' });
+      return res.status(statusCode).json({ message: error.message || 'Error creando ticket', data: error.data });
     }
   }
 
@@ -206,6 +732,11 @@ export class InstallationController {
       }
 
       const result = await this.installationService.eliminarTicketGeonet({ ticketId });
+      if (result.deleted) {
+        await this.ticketScheduleService.cancel(ticketId).catch((error) => {
+          logger.error(`Error liberando la ventana del ticket ${ticketId}: ${String(error)}`);
+        });
+      }
 
       const isOk = result.status >= 200 && result.status < 400;
       const hasValidationErrors = result.formErrors && result.formErrors.length > 0;
@@ -233,22 +764,43 @@ export class InstallationController {
 
       const body: any = req.body ?? {};
 
+      // Sin técnico ni fechas en el body se conserva la ventana registrada
+      const installationRequestId = Number(body.installationRequestId ?? body.installation_request_id);
+      const tecnicoId = body.tecnicoId ?? body.tecnico;
+      const reservation = await this.ticketScheduleService.reserve(
+        {
+          ticketId,
+          fechaInicio: body.fechaInicio ?? body.fecha_inicio,
+          fechaFinal: body.fechaFinal ?? body.fecha_final,
+          tecnicoId: tecnicoId !== undefined && tecnicoId !== null ? String(tecnicoId) : undefined,
+          tecnicoName: body.tecnicoName ?? body.technicianName ?? body.tecnico_nombre,
+          installationRequestId: Number.isInteger(installationRequestId) && installationRequestId > 0 ? installationRequestId : null,
+          subject: body.asunto,
+          actor: this.resolveActor(req),
+        },
+        { strict: this.parseStrictFlag(req) },
+      );
+
       const result = await this.installationService.editarTicketGeonet({
         ticketId,
         ticketCategoryId: body.ticketCategoryId ? Number(body.ticketCategoryId) : 0, // Filler (para satisfacer tipado base)
         fechaInicio: body.fechaInicio ?? body.fecha_inicio,
         fechaFinal: body.fechaFinal ?? body.fecha_final,
-        tecnicoId: body.tecnicoId ?? body.tecnico,
+        tecnicoId,
         tecnicoName: body.tecnicoName ?? body.technicianName ?? body.tecnico_nombre,
         asunto: body.asunto,
         descripcion: body.descripcion,
         estado: body.estado,
         prioridad: body.prioridad,
         asuntosDefault: body.asuntosDefault ?? body.asuntos_default,
+      }).catch(async (error) => {
+        await this.ticketScheduleService.release(reservation);
+        throw error;
       });
 
       const isOk = result.status >= 200 && result.status < 400;
-      return res.status(isOk ? 200 : 502).json(result);
+      await this.settleTicketWindow(reservation, isOk, result.location);
+      return res.status(isOk ? 200 : 502).json({ ...result, conflicts: reservation.conflicts });
     } catch (error: any) {
       logger.error(`Error editing Geonet ticket: ${String(error)}`);
       const statusCode = error.statusCode || 500;
@@ -1,36 +1,5 @@
 import { Request, Response } from 'express';
-import { getAvailablePortsForOdb } from '../services/smartoltClient';
-
-// Normalize SmartOLT responses into a simple list of *available* port identifiers
-function normalizePorts(raw: any): string[] {
-  const pickNumeric = (arr: any[]) =>
-    arr
-      .map((p) => {
-        if (p === null || p === undefined) return null;
-        if (typeof p === 'object') {
-          const val = p.port ?? p.id ?? p.value ?? p.label ?? p.name ?? p.number;
-          return val !== undefined && val !== null ? String(val) : null;
-        }
-        return String(p);
-      })
-      .filter((p): p is string => !!p && p.trim() !== '')
-      .map((p) => p.trim())
-      .filter((p, idx, arr) => arr.indexOf(p) === idx);
-
-  if (Array.isArray(raw?.ports)) return pickNumeric(raw.ports);
-  if (Array.isArray(raw?.response)) return pickNumeric(raw.response);
-  if (Array.isArray(raw?.available_ports)) return pickNumeric(raw.available_ports);
-  if (Array.isArray(raw)) return pickNumeric(raw);
-
-  if (raw && typeof raw === 'object') {
-    const values = pickNumeric(Object.values(raw));
-    if (values.length) return values;
-    const keys = pickNumeric(Object.keys(raw));
-    if (keys.length) return keys;
-  }
-
-  return [];
-}
+import { getAvailablePortsForOdb, normalizePorts } from '../services/smartoltClient';
 
 const FALLBACK_PORTS = Array.from({ length: 16 }, (_, i) => String(i + 1));
 
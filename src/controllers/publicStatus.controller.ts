@@ -0,0 +1,27 @@
+import { Request, Response } from 'express';
+import { PublicStatusService } from '../services/publicStatus.service';
+import logger from '../utils/logger';
+
+export class PublicStatusController {
+  private publicStatusService: PublicStatusService;
+
+  constructor() {
+    this.publicStatusService = new PublicStatusService();
+  }
+
+  public async getInstallationStatus(req: Request, res: Response): Promise<Response> {
+    try {
+      const body: any = req.body ?? {};
+      const rut = String(body.rut ?? body.ci ?? '').trim();
+      const token = String(body.token ?? body.codigo ?? '').trim();
+      if (!rut || !token) return res.status(400).json({ message: 'rut y token son requeridos' });
+
+      const status = await this.publicStatusService.lookup(rut, token);
+      return res.status(200).json(status);
+    } catch (error: any) {
+      if (!error.statusCode) logger.error(`Error in public status lookup: ${String(error)}`);
+      const statusCode = error.statusCode || 500;
+      return res.status(statusCode).json({ message: statusCode === 500 ? 'Error consultando el estado' : error.message });
+    }
+  }
+}
@@ -41,6 +41,7 @@ export class TechnicianController {
     } catch (error: any) {
       const msg = String(error);
       logger.error(`Error creating technician: ${msg}`);
+      if (error.statusCode) return res.status(error.statusCode).json(error.data ?? { message: error.message });
       if (msg.includes('Duplicate') || msg.includes('duplicate') || msg.includes('ER_DUP_ENTRY')) {
         return res.status(409).json({ message: 'Technician phone already exists' });
       }
@@ -59,6 +60,7 @@ export class TechnicianController {
     } catch (error: any) {
       const msg = String(error);
       logger.error(`Error updating technician: ${msg}`);
+      if (error.statusCode) return res.status(error.statusCode).json(error.data ?? { message: error.message });
       if (msg.includes('Duplicate') || msg.includes('duplicate') || msg.includes('ER_DUP_ENTRY')) {
         return res.status(409).json({ message: 'Technician phone already exists' });
       }
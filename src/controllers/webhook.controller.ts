@@ -0,0 +1,96 @@
+import { Request, Response } from 'express';
+import { WebhookService, isWebhookDeliveryStatus } from '../services/webhook.service';
+import { WEBHOOK_EVENTS } from '../entities/WebhookSubscription';
+import { WEBHOOK_DELIVERY_STATUSES } from '../entities/WebhookDelivery';
+import logger from '../utils/logger';
+
+export class WebhookController {
+  private webhookService: WebhookService;
+
+  constructor() {
+    this.webhookService = new WebhookService();
+  }
+
+  private parseId(value: unknown): number | null {
+    const id = Number(value);
+    return Number.isInteger(id) && id > 0 ? id : null;
+  }
+
+  private fail(res: Response, error: any, message: string): Response {
+    const statusCode = error.statusCode || 500;
+    if (statusCode === 500) logger.error(`${message}: ${String(error)}`);
+    return res.status(statusCode).json(error.data ?? { message: statusCode === 500 ? message : error.message });
+  }
+
+  public listEvents(_req: Request, res: Response): Response {
+    return res.status(200).json({ events: WEBHOOK_EVENTS });
+  }
+
+  public async listSubscriptions(_req: Request, res: Response): Promise<Response> {
+    try {
+      return res.status(200).json(await this.webhookService.listSubscriptions());
+    } catch (error: any) {
+      return this.fail(res, error, 'Error obteniendo las suscripciones');
+    }
+  }
+
+  public async createSubscription(req: Request, res: Response): Promise<Response> {
+    try {
+      const subscription = await this.webhookService.createSubscription(req.body ?? {}, res.locals.staff);
+      return res.status(201).json(subscription);
+    } catch (error: any) {
+      return this.fail(res, error, 'Error creando la suscripción');
+    }
+  }
+
+  public async updateSubscription(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseId(req.params.id);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+      const subscription = await this.webhookService.updateSubscription(id, req.body ?? {}, res.locals.staff);
+      return res.status(200).json(subscription);
+    } catch (error: any) {
+      return this.fail(res, error, 'Error actualizando la suscripción');
+    }
+  }
+
+  public async deleteSubscription(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseId(req.params.id);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+      await this.webhookService.deleteSubscription(id, res.locals.staff);
+      return res.status(204).send();
+    } catch (error: any) {
+      return this.fail(res, error, 'Error eliminando la suscripción');
+    }
+  }
+
+  public async listDeliveries(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = this.parseId(req.params.id);
+      if (!id) return res.status(400).json({ message: 'id inválido' });
+      const status = req.query.status
+        ? String(req.query.status).split(',').map((s) => s.trim()).filter(Boolean)
+        : [];
+      if (!status.every(isWebhookDeliveryStatus)) {
+        return res.status(400).json({ message: `status debe ser uno o más de: ${WEBHOOK_DELIVERY_STATUSES.join(', ')}` });
+      }
+      const limit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
+      const deliveries = await this.webhookService.listDeliveries(id, { status, limit: Number.isFinite(limit) ? limit : undefined });
+      return res.status(200).json(deliveries);
+    } catch (error: any) {
+      return this.fail(res, error, 'Error obteniendo las entregas');
+    }
+  }
+
+  public async redeliver(req: Request, res: Response): Promise<Response> {
+    try {
+      const deliveryId = this.parseId(req.params.deliveryId);
+      if (!deliveryId) return res.status(400).json({ message: 'deliveryId inválido' });
+      const delivery = await this.webhookService.redeliver(deliveryId, res.locals.staff);
+      return res.status(200).json(delivery);
+    } catch (error: any) {
+      return this.fail(res, error, 'Error reenviando la entrega');
+    }
+  }
+}
@@ -1,10 +1,19 @@
 import { DataSource } from 'typeorm';
 import { InstallationRequest } from '../entities/InstallationRequest';
+import { InstallationStatusHistory } from '../entities/InstallationStatusHistory';
+import { InstallationDocument } from '../entities/InstallationDocument';
+import { DocumentAccessLog } from '../entities/DocumentAccessLog';
+import { WisphubOutboxEntry } from '../entities/WisphubOutboxEntry';
+import { WebhookSubscription } from '../entities/WebhookSubscription';
+import { WebhookDelivery } from '../entities/WebhookDelivery';
 import { Technician } from '../entities/Technician';
 import { Agenda } from '../entities/Agenda';
+import { TechnicianTicketWindow } from '../entities/TechnicianTicketWindow';
 import { SectorialNode } from '../entities/SectorialNode';
 import { SmartoltOnuDetail } from '../entities/SmartOltDetail';
 import { SmartoltOnuSnapshot } from '../entities/SmartoltOnuSnapshot';
+import { AddStatusToInstallationRequest1741000000000 } from './migrations/1741000000000-AddStatusToInstallationRequest';
+import { LinkAgendaToRequestsAndTechnicians1742300000000 } from './migrations/1742300000000-LinkAgendaToRequestsAndTechnicians';
 import logger from '../utils/logger';
 
 const AppDataSource = new DataSource({
@@ -16,8 +25,11 @@ const AppDataSource = new DataSource({
   database: process.env.DB_NAME,
   synchronize: true,
   logging: false,
-  entities: [InstallationRequest, Technician, Agenda, SectorialNode, SmartoltOnuDetail, SmartoltOnuSnapshot],
-  migrations: [],
+  entities: [InstallationRequest, InstallationStatusHistory, InstallationDocument, DocumentAccessLog, WisphubOutboxEntry, WebhookSubscription, WebhookDelivery, Technician, Agenda, TechnicianTicketWindow, SectorialNode, SmartoltOnuDetail, SmartoltOnuSnapshot],
+  // TypeORM corre las migraciones antes de synchronize: las registradas aquí convierten datos existentes
+  // (estado de las solicitudes, agenda original) que synchronize llenaría con valores por defecto o eliminaría
+  migrations: [AddStatusToInstallationRequest1741000000000, LinkAgendaToRequestsAndTechnicians1742300000000],
+  migrationsRun: true,
   subscribers: [],
 });
 
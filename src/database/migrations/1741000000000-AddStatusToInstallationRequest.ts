@@ -0,0 +1,52 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// Se ejecuta al arrancar, antes de synchronize (ver data-source.ts), para que las solicitudes existentes
+// no queden todas en `received` con el valor por defecto de la columna
+export class AddStatusToInstallationRequest1741000000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Base nueva: synchronize crea la tabla con la columna
+    if (!(await queryRunner.hasTable('installation_requests'))) return;
+
+    if (!(await queryRunner.hasColumn('installation_requests', 'status'))) {
+      await queryRunner.query(`
+        ALTER TABLE \`installation_requests\`
+          ADD COLUMN \`status\` varchar(20) NOT NULL DEFAULT 'received',
+          ADD INDEX \`IDX_installation_requests_status\` (\`status\`)
+      `);
+    }
+
+    // Deducir el estado de las solicitudes existentes a partir de los flags previos. Si synchronize ya había
+    // creado la columna, solo se tocan las que siguen con el valor por defecto
+    await queryRunner.query(`
+      UPDATE \`installation_requests\`
+      SET \`status\` = CASE
+        WHEN \`geonetActivated\` = 1 THEN 'activated'
+        WHEN \`confirmedByTechnician\` = 1 THEN 'confirmed'
+        WHEN \`agreedInstallationDate\` IS NOT NULL THEN 'scheduled'
+        ELSE 'received'
+      END
+      WHERE \`status\` = 'received'
+    `);
+
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS \`installation_status_history\` (
+      \`id\` int NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      \`installationRequestId\` int NOT NULL,
+      \`fromStatus\` varchar(20) NULL,
+      \`toStatus\` varchar(20) NOT NULL,
+      \`changedBy\` varchar(255) NULL,
+      \`reason\` text NULL,
+      \`metadata\` text NULL,
+      \`createdAt\` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX \`IDX_installation_status_history_request\` (\`installationRequestId\`)
+    );`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS \`installation_status_history\`;`);
+    await queryRunner.query(`
+      ALTER TABLE \`installation_requests\`
+        DROP INDEX \`IDX_installation_requests_status\`,
+        DROP COLUMN \`status\`
+    `);
+  }
+}
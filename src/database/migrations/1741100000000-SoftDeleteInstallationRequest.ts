@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class SoftDeleteInstallationRequest1741100000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // El índice único sobre `ci` fue creado por synchronize con un nombre generado: buscarlo
+    const uniqueIndexes: Array<{ INDEX_NAME: string }> = await queryRunner.query(`
+      SELECT DISTINCT INDEX_NAME FROM information_schema.STATISTICS
+      WHERE TABLE_SCHEMA = DATABASE()
+        AND TABLE_NAME = 'installation_requests'
+        AND COLUMN_NAME = 'ci'
+        AND NON_UNIQUE = 0
+    `);
+    for (const idx of uniqueIndexes) {
+      await queryRunner.query(`ALTER TABLE \`installation_requests\` DROP INDEX \`${idx.INDEX_NAME}\``);
+    }
+
+    await queryRunner.query(`
+      ALTER TABLE \`installation_requests\`
+        ADD COLUMN \`activeCi\` varchar(255) NULL,
+        ADD COLUMN \`deletedAt\` timestamp NULL,
+        ADD COLUMN \`deletionReason\` text NULL,
+        ADD COLUMN \`deletedBy\` varchar(255) NULL
+    `);
+    await queryRunner.query(`UPDATE \`installation_requests\` SET \`activeCi\` = \`ci\``);
+    await queryRunner.query(`
+      ALTER TABLE \`installation_requests\`
+        ADD UNIQUE INDEX \`UQ_installation_requests_activeCi\` (\`activeCi\`)
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE \`installation_requests\`
+        DROP INDEX \`UQ_installation_requests_activeCi\`,
+        DROP COLUMN \`activeCi\`,
+        DROP COLUMN \`deletedAt\`,
+        DROP COLUMN \`deletionReason\`,
+        DROP COLUMN \`deletedBy\`
+    `);
+    await queryRunner.query(`
+      ALTER TABLE \`installation_requests\`
+        ADD UNIQUE INDEX \`UQ_installation_requests_ci\` (\`ci\`)
+    `);
+  }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// Los valores se completan con `npm run backfill:rut`, que valida el dígito verificador
+// y reporta colisiones antes de llenar `activeCi`.
+export class AddCiNormalizedToInstallationRequest1741200000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE \`installation_requests\`
+        ADD COLUMN \`ciNormalized\` varchar(20) NULL,
+        ADD INDEX \`IDX_installation_requests_ciNormalized\` (\`ciNormalized\`)
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE \`installation_requests\`
+        DROP INDEX \`IDX_installation_requests_ciNormalized\`,
+        DROP COLUMN \`ciNormalized\`
+    `);
+  }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDuplicateTrackingToInstallationRequest1741300000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE \`installation_requests\`
+        ADD COLUMN \`suspectedDuplicateOfId\` int NULL,
+        ADD COLUMN \`duplicateScore\` float NULL,
+        ADD COLUMN \`mergedIntoId\` int NULL,
+        ADD INDEX \`IDX_installation_requests_suspectedDuplicateOfId\` (\`suspectedDuplicateOfId\`)
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE \`installation_requests\`
+        DROP INDEX \`IDX_installation_requests_suspectedDuplicateOfId\`,
+        DROP COLUMN \`mergedIntoId\`,
+        DROP COLUMN \`duplicateScore\`,
+        DROP COLUMN \`suspectedDuplicateOfId\`
+    `);
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// Los valores se completan con `npm run backfill:coordinates`, que descarta las
+// coordenadas ilegibles o fuera de Chile y las reporta.
+export class AddLatLngColumns1741400000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    for (const table of ['installation_requests', 'sectorial_nodes']) {
+      await queryRunner.query(`
+        ALTER TABLE \`${table}\`
+          ADD COLUMN \`latitude\` double NULL,
+          ADD COLUMN \`longitude\` double NULL,
+          ADD INDEX \`IDX_${table}_latitude_longitude\` (\`latitude\`, \`longitude\`)
+      `);
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    for (const table of ['installation_requests', 'sectorial_nodes']) {
+      await queryRunner.query(`
+        ALTER TABLE \`${table}\`
+          DROP INDEX \`IDX_${table}_latitude_longitude\`,
+          DROP COLUMN \`longitude\`,
+          DROP COLUMN \`latitude\`
+      `);
+    }
+  }
+}
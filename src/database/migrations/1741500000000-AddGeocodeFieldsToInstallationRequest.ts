@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddGeocodeFieldsToInstallationRequest1741500000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE \`installation_requests\`
+        ADD COLUMN \`geocodeSource\` varchar(30) NULL,
+        ADD COLUMN \`geocodeConfidence\` float NULL,
+        ADD COLUMN \`geocodedAt\` timestamp NULL
+    `);
+    // Las coordenadas existentes vinieron del formulario (las que backfill:coordinates ya completó)
+    await queryRunner.query(`
+      UPDATE \`installation_requests\`
+        SET \`geocodeSource\` = 'form', \`geocodeConfidence\` = 1
+        WHERE \`latitude\` IS NOT NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE \`installation_requests\`
+        DROP COLUMN \`geocodedAt\`,
+        DROP COLUMN \`geocodeConfidence\`,
+        DROP COLUMN \`geocodeSource\`
+    `);
+  }
+}
@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPublicStatusFieldsToInstallationRequest1741600000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE \`installation_requests\`
+        ADD COLUMN \`technicianName\` varchar(255) NULL,
+        ADD COLUMN \`statusTokenHash\` varchar(64) NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE \`installation_requests\`
+        DROP COLUMN \`statusTokenHash\`,
+        DROP COLUMN \`technicianName\`
+    `);
+  }
+}
@@ -0,0 +1,51 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateInstallationDocuments1741700000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS \`installation_documents\` (
+        \`id\` int NOT NULL AUTO_INCREMENT,
+        \`installationRequestId\` int NOT NULL,
+        \`field\` varchar(20) NOT NULL,
+        \`version\` int NOT NULL,
+        \`isPlaceholder\` tinyint NOT NULL DEFAULT 0,
+        \`isCurrent\` tinyint NOT NULL DEFAULT 1,
+        \`fileName\` varchar(255) NULL,
+        \`originalName\` varchar(255) NULL,
+        \`mimeType\` varchar(100) NULL,
+        \`size\` int NULL,
+        \`uploadedBy\` varchar(255) NULL,
+        \`wisphubSyncedAt\` timestamp NULL,
+        \`wisphubSyncError\` text NULL,
+        \`createdAt\` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (\`id\`),
+        INDEX \`IDX_installation_documents_request_field\` (\`installationRequestId\`, \`field\`)
+      ) ENGINE=InnoDB
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE \`installation_requests\`
+        ADD COLUMN \`documentSources\` text NULL,
+        ADD COLUMN \`wisphubRequestId\` varchar(50) NULL
+    `);
+
+    // Solicitudes existentes: un documento sin archivo fue enviado como placeholder
+    await queryRunner.query(`
+      UPDATE \`installation_requests\` SET \`documentSources\` = CONCAT(
+        '{"idFront":"', IF(\`idFront\` IS NULL, 'placeholder', 'real'),
+        '","idBack":"', IF(\`idBack\` IS NULL, 'placeholder', 'real'),
+        '","addressProof":"', IF(\`addressProof\` IS NULL, 'placeholder', 'real'),
+        '","coupon":"', IF(\`coupon\` IS NULL, 'placeholder', 'real'), '"}'
+      )
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE \`installation_requests\`
+        DROP COLUMN \`wisphubRequestId\`,
+        DROP COLUMN \`documentSources\`
+    `);
+    await queryRunner.query('DROP TABLE IF EXISTS `installation_documents`');
+  }
+}
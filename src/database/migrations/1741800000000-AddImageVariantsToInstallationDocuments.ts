@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddImageVariantsToInstallationDocuments1741800000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE \`installation_documents\`
+        ADD COLUMN \`originalFileName\` varchar(255) NULL,
+        ADD COLUMN \`thumbnailFileName\` varchar(255) NULL
+    `);
+    // Los documentos anteriores se guardaron sin procesar: el archivo vigente es el original
+    await queryRunner.query(`
+      UPDATE \`installation_documents\`
+        SET \`originalFileName\` = \`fileName\`
+        WHERE \`fileName\` IS NOT NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE \`installation_documents\`
+        DROP COLUMN \`thumbnailFileName\`,
+        DROP COLUMN \`originalFileName\`
+    `);
+  }
+}
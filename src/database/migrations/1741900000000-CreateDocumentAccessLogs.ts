@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateDocumentAccessLogs1741900000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS \`document_access_logs\` (
+        \`id\` int NOT NULL AUTO_INCREMENT,
+        \`installationRequestId\` int NULL,
+        \`documentId\` int NULL,
+        \`field\` varchar(20) NULL,
+        \`variant\` varchar(20) NULL,
+        \`action\` varchar(20) NOT NULL,
+        \`actor\` varchar(255) NULL,
+        \`ip\` varchar(64) NULL,
+        \`userAgent\` varchar(255) NULL,
+        \`reason\` varchar(255) NULL,
+        \`createdAt\` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (\`id\`),
+        INDEX \`IDX_document_access_logs_request\` (\`installationRequestId\`)
+      ) ENGINE=InnoDB
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE IF EXISTS `document_access_logs`');
+  }
+}
@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDocumentPurgeFields1742000000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE \`installation_requests\`
+        ADD COLUMN \`documentsPurgedAt\` timestamp NULL
+    `);
+    await queryRunner.query(`
+      ALTER TABLE \`installation_documents\`
+        ADD COLUMN \`purgedAt\` timestamp NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('ALTER TABLE `installation_documents` DROP COLUMN `purgedAt`');
+    await queryRunner.query('ALTER TABLE `installation_requests` DROP COLUMN `documentsPurgedAt`');
+  }
+}
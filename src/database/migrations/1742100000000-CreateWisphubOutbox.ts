@@ -0,0 +1,49 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateWisphubOutbox1742100000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS \`wisphub_outbox\` (
+        \`id\` int NOT NULL AUTO_INCREMENT,
+        \`installationRequestId\` int NOT NULL,
+        \`status\` varchar(20) NOT NULL DEFAULT 'pending',
+        \`attempts\` int NOT NULL DEFAULT 0,
+        \`nextAttemptAt\` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        \`lockedAt\` timestamp NULL,
+        \`lastStatus\` int NULL,
+        \`lastError\` text NULL,
+        \`responseData\` text NULL,
+        \`replayedBy\` varchar(255) NULL,
+        \`completedAt\` timestamp NULL,
+        \`createdAt\` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        \`updatedAt\` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (\`id\`),
+        INDEX \`IDX_wisphub_outbox_request\` (\`installationRequestId\`),
+        INDEX \`IDX_wisphub_outbox_status_next\` (\`status\`, \`nextAttemptAt\`)
+      ) ENGINE=InnoDB
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE \`installation_requests\`
+        ADD COLUMN \`wisphubSyncStatus\` varchar(20) NULL,
+        ADD COLUMN \`wisphubSyncedAt\` timestamp NULL,
+        ADD COLUMN \`wisphubSyncError\` text NULL,
+        ADD INDEX \`IDX_installation_requests_wisphub_sync_status\` (\`wisphubSyncStatus\`)
+    `);
+    // Antes del outbox la solicitud solo se guardaba si Wisphub la aceptaba
+    await queryRunner.query(`
+      UPDATE \`installation_requests\` SET \`wisphubSyncStatus\` = 'synced', \`wisphubSyncedAt\` = \`createdAt\`
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE \`installation_requests\`
+        DROP INDEX \`IDX_installation_requests_wisphub_sync_status\`,
+        DROP COLUMN \`wisphubSyncError\`,
+        DROP COLUMN \`wisphubSyncedAt\`,
+        DROP COLUMN \`wisphubSyncStatus\`
+    `);
+    await queryRunner.query('DROP TABLE IF EXISTS `wisphub_outbox`');
+  }
+}
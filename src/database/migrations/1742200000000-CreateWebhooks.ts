@@ -0,0 +1,52 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateWebhooks1742200000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS \`webhook_subscriptions\` (
+        \`id\` int NOT NULL AUTO_INCREMENT,
+        \`url\` varchar(2048) NOT NULL,
+        \`events\` text NOT NULL,
+        \`secret\` varchar(255) NOT NULL,
+        \`description\` varchar(255) NULL,
+        \`isActive\` tinyint NOT NULL DEFAULT 1,
+        \`createdBy\` varchar(255) NULL,
+        \`createdAt\` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        \`updatedAt\` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (\`id\`),
+        INDEX \`IDX_webhook_subscriptions_active\` (\`isActive\`)
+      ) ENGINE=InnoDB
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS \`webhook_deliveries\` (
+        \`id\` int NOT NULL AUTO_INCREMENT,
+        \`subscriptionId\` int NOT NULL,
+        \`event\` varchar(50) NOT NULL,
+        \`eventId\` varchar(36) NOT NULL,
+        \`payload\` text NOT NULL,
+        \`sensitiveData\` text NULL,
+        \`status\` varchar(20) NOT NULL DEFAULT 'pending',
+        \`attempts\` int NOT NULL DEFAULT 0,
+        \`nextAttemptAt\` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        \`lockedAt\` timestamp NULL,
+        \`responseStatus\` int NULL,
+        \`responseBody\` text NULL,
+        \`lastError\` text NULL,
+        \`durationMs\` int NULL,
+        \`deliveredAt\` timestamp NULL,
+        \`createdAt\` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        \`updatedAt\` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (\`id\`),
+        INDEX \`IDX_webhook_deliveries_subscription\` (\`subscriptionId\`),
+        INDEX \`IDX_webhook_deliveries_event\` (\`eventId\`),
+        INDEX \`IDX_webhook_deliveries_status_next\` (\`status\`, \`nextAttemptAt\`)
+      ) ENGINE=InnoDB
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE IF EXISTS `webhook_deliveries`');
+    await queryRunner.query('DROP TABLE IF EXISTS `webhook_subscriptions`');
+  }
+}
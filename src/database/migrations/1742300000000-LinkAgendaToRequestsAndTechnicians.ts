@@ -0,0 +1,105 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// Se ejecuta al arrancar, antes de synchronize (ver data-source.ts): la tabla todavía tiene las columnas
+// originales y installation_requests puede no tener aún ciNormalized ni deletedAt
+export class LinkAgendaToRequestsAndTechnicians1742300000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Base nueva (synchronize crea la tabla) o ya migrada
+    if (!(await queryRunner.hasTable('agenda')) || (await queryRunner.hasColumn('agenda', 'installationRequestId'))) return;
+
+    // Copia íntegra de la agenda original: las filas que no se pueden vincular se eliminan más abajo
+    await queryRunner.query('CREATE TABLE IF NOT EXISTS `agenda_legacy` LIKE `agenda`');
+    await queryRunner.query('INSERT IGNORE INTO `agenda_legacy` SELECT * FROM `agenda`');
+
+    await queryRunner.query(`
+      ALTER TABLE \`agenda\`
+        ADD \`installationRequestId\` int NULL,
+        ADD \`technicianId\` int NULL,
+        ADD \`startAt\` datetime NULL,
+        ADD \`endAt\` datetime NULL,
+        ADD \`status\` varchar(20) NOT NULL DEFAULT 'scheduled',
+        ADD \`notes\` text NULL,
+        ADD \`cancelReason\` varchar(255) NULL,
+        ADD \`cancelledAt\` timestamp NULL,
+        ADD \`createdBy\` varchar(255) NULL,
+        ADD \`updatedAt\` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        MODIFY \`cliente_nombre\` varchar(255) NULL,
+        MODIFY \`cliente_rut\` varchar(20) NULL,
+        MODIFY \`tecnico_nombre\` varchar(255) NULL
+    `);
+
+    // Vincular las filas existentes por RUT y por nombre del técnico
+    const normalizeRut = (column: string) => `UPPER(REPLACE(REPLACE(REPLACE(${column}, '.', ''), '-', ''), ' ', ''))`;
+    const requestRut = (await queryRunner.hasColumn('installation_requests', 'ciNormalized')) ? 'r.`ciNormalized`' : normalizeRut('r.`ci`');
+    const notDeleted = (await queryRunner.hasColumn('installation_requests', 'deletedAt')) ? 'AND r.`deletedAt` IS NULL' : '';
+    await queryRunner.query(`
+      UPDATE \`agenda\` a
+      JOIN \`installation_requests\` r
+        ON ${requestRut} = ${normalizeRut('a.`cliente_rut`')}
+        ${notDeleted}
+      SET a.\`installationRequestId\` = r.\`id\`
+    `);
+    if (await queryRunner.hasTable('technicians')) {
+      await queryRunner.query(`
+        UPDATE \`agenda\` a
+        JOIN \`technicians\` t ON LOWER(CONCAT(t.\`firstName\`, ' ', t.\`lastName\`)) = LOWER(TRIM(a.\`tecnico_nombre\`))
+        SET a.\`technicianId\` = t.\`id\`
+      `);
+    }
+    await queryRunner.query(`
+      UPDATE \`agenda\`
+      SET \`startAt\` = \`fecha_instalacion\`,
+          \`endAt\` = \`fecha_instalacion\` + INTERVAL 2 HOUR,
+          \`status\` = IF(\`estado\` = 0, 'cancelled', 'scheduled')
+    `);
+    // Sin solicitud o sin fecha no hay cita que conservar (quedan en agenda_legacy)
+    await queryRunner.query('DELETE FROM `agenda` WHERE `installationRequestId` IS NULL OR `startAt` IS NULL');
+
+    await queryRunner.query(`
+      ALTER TABLE \`agenda\`
+        CHANGE \`fecha_creacion\` \`createdAt\` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        DROP COLUMN \`fecha_instalacion\`,
+        DROP COLUMN \`estado\`,
+        MODIFY \`installationRequestId\` int NOT NULL,
+        MODIFY \`startAt\` datetime NOT NULL,
+        MODIFY \`endAt\` datetime NOT NULL,
+        ADD INDEX \`IDX_agenda_technician_start\` (\`technicianId\`, \`startAt\`),
+        ADD INDEX \`IDX_agenda_request\` (\`installationRequestId\`),
+        ADD CONSTRAINT \`FK_agenda_installation_request\` FOREIGN KEY (\`installationRequestId\`)
+          REFERENCES \`installation_requests\` (\`id\`) ON DELETE CASCADE,
+        ADD CONSTRAINT \`FK_agenda_technician\` FOREIGN KEY (\`technicianId\`)
+          REFERENCES \`technicians\` (\`id\`) ON DELETE SET NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE \`agenda\`
+        DROP FOREIGN KEY \`FK_agenda_installation_request\`,
+        DROP FOREIGN KEY \`FK_agenda_technician\`,
+        DROP INDEX \`IDX_agenda_technician_start\`,
+        DROP INDEX \`IDX_agenda_request\`,
+        ADD \`fecha_instalacion\` timestamp NULL,
+        ADD \`estado\` int NULL DEFAULT 1,
+        CHANGE \`createdAt\` \`fecha_creacion\` timestamp NULL DEFAULT CURRENT_TIMESTAMP
+    `);
+    await queryRunner.query(`
+      UPDATE \`agenda\`
+      SET \`fecha_instalacion\` = \`startAt\`,
+          \`estado\` = IF(\`status\` = 'cancelled', 0, 1)
+    `);
+    await queryRunner.query(`
+      ALTER TABLE \`agenda\`
+        DROP COLUMN \`installationRequestId\`,
+        DROP COLUMN \`technicianId\`,
+        DROP COLUMN \`startAt\`,
+        DROP COLUMN \`endAt\`,
+        DROP COLUMN \`status\`,
+        DROP COLUMN \`notes\`,
+        DROP COLUMN \`cancelReason\`,
+        DROP COLUMN \`cancelledAt\`,
+        DROP COLUMN \`createdBy\`,
+        DROP COLUMN \`updatedAt\`
+    `);
+  }
+}
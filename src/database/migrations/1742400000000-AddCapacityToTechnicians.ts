@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddCapacityToTechnicians1742400000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE \`technicians\`
+        ADD \`workDays\` text NULL,
+        ADD \`workStart\` varchar(5) NULL,
+        ADD \`workEnd\` varchar(5) NULL,
+        ADD \`maxDailyInstallations\` int NULL,
+        ADD \`zones\` text NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE \`technicians\`
+        DROP COLUMN \`workDays\`,
+        DROP COLUMN \`workStart\`,
+        DROP COLUMN \`workEnd\`,
+        DROP COLUMN \`maxDailyInstallations\`,
+        DROP COLUMN \`zones\`
+    `);
+  }
+}
@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTechnicianTicketWindows1742500000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS \`technician_ticket_windows\` (
+        \`id\` int NOT NULL AUTO_INCREMENT,
+        \`ticketId\` varchar(32) NULL,
+        \`status\` varchar(20) NOT NULL DEFAULT 'pending',
+        \`technicianId\` int NULL,
+        \`geonetTechnicianId\` varchar(32) NULL,
+        \`technicianName\` varchar(255) NULL,
+        \`technicianKey\` varchar(255) NULL,
+        \`installationRequestId\` int NULL,
+        \`startAt\` datetime NOT NULL,
+        \`endAt\` datetime NOT NULL,
+        \`subject\` varchar(255) NULL,
+        \`location\` varchar(500) NULL,
+        \`sequence\` int NOT NULL DEFAULT 0,
+        \`cancelledAt\` timestamp NULL,
+        \`createdBy\` varchar(255) NULL,
+        \`createdAt\` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        \`updatedAt\` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (\`id\`),
+        INDEX \`IDX_ticket_windows_technician_start\` (\`technicianId\`, \`startAt\`),
+        INDEX \`IDX_ticket_windows_ticket\` (\`ticketId\`),
+        CONSTRAINT \`FK_ticket_windows_technician\` FOREIGN KEY (\`technicianId\`)
+          REFERENCES \`technicians\` (\`id\`) ON DELETE SET NULL,
+        CONSTRAINT \`FK_ticket_windows_installation_request\` FOREIGN KEY (\`installationRequestId\`)
+          REFERENCES \`installation_requests\` (\`id\`) ON DELETE SET NULL
+      ) ENGINE=InnoDB
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE IF EXISTS `technician_ticket_windows`');
+  }
+}
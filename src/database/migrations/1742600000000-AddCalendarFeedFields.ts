@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddCalendarFeedFields1742600000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE \`technicians\`
+        ADD \`calendarTokenHash\` varchar(64) NULL,
+        ADD UNIQUE INDEX \`IDX_technicians_calendar_token\` (\`calendarTokenHash\`)
+    `);
+    await queryRunner.query('ALTER TABLE `agenda` ADD `sequence` int NOT NULL DEFAULT 0');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('ALTER TABLE `agenda` DROP COLUMN `sequence`');
+    await queryRunner.query(`
+      ALTER TABLE \`technicians\`
+        DROP INDEX \`IDX_technicians_calendar_token\`,
+        DROP COLUMN \`calendarTokenHash\`
+    `);
+  }
+}
@@ -1,25 +1,72 @@
-import { Entity, PrimaryGeneratedColumn, Column } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { InstallationRequest } from './InstallationRequest';
+import { Technician } from './Technician';
 
+export const AGENDA_STATUSES = ['scheduled', 'confirmed', 'in_progress', 'completed', 'cancelled'] as const;
+export type AgendaStatus = (typeof AGENDA_STATUSES)[number];
+
+// Cita de instalación: una solicitud, un técnico y una ventana horaria.
+// Las citas canceladas se conservan (status `cancelled`) para el historial.
 @Entity('agenda')
+@Index(['technicianId', 'startAt'])
+@Index(['installationRequestId'])
 export class Agenda {
   @PrimaryGeneratedColumn()
   id!: number;
 
-  @Column({ name: 'cliente_nombre', type: 'varchar', length: 255 })
-  clienteNombre!: string;
+  @Column({ type: 'int' })
+  installationRequestId!: number;
+
+  @ManyToOne(() => InstallationRequest, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'installationRequestId' })
+  installationRequest?: InstallationRequest;
+
+  // NULL si el técnico se eliminó después de agendar
+  @Column({ type: 'int', nullable: true })
+  technicianId!: number | null;
+
+  @ManyToOne(() => Technician, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'technicianId' })
+  technician?: Technician | null;
+
+  @Column({ type: 'datetime' })
+  startAt!: Date;
+
+  @Column({ type: 'datetime' })
+  endAt!: Date;
+
+  @Column({ type: 'varchar', length: 20, default: 'scheduled' })
+  status!: AgendaStatus;
+
+  @Column({ type: 'text', nullable: true })
+  notes!: string | null;
+
+  // Copias de nombre/RUT del cliente y nombre del técnico al momento de agendar (columnas originales de la tabla)
+  @Column({ name: 'cliente_nombre', type: 'varchar', length: 255, nullable: true })
+  clienteNombre!: string | null;
+
+  @Column({ name: 'cliente_rut', type: 'varchar', length: 20, nullable: true })
+  clienteRut!: string | null;
+
+  @Column({ name: 'tecnico_nombre', type: 'varchar', length: 255, nullable: true })
+  tecnicoNombre!: string | null;
+
+  // Sube con cada cambio; es el SEQUENCE del evento en el feed .ics del técnico
+  @Column({ type: 'int', default: 0 })
+  sequence!: number;
 
-  @Column({ name: 'cliente_rut', type: 'varchar', length: 20 })
-  clienteRut!: string;
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  cancelReason!: string | null;
 
-  @Column({ name: 'tecnico_nombre', type: 'varchar', length: 255 })
-  tecnicoNombre!: string;
+  @Column({ type: 'timestamp', nullable: true })
+  cancelledAt!: Date | null;
 
-  @Column({ name: 'fecha_instalacion', type: 'timestamp', nullable: true })
-  fechaInstalacion!: Date | null;
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  createdBy!: string | null;
 
-  @Column({ name: 'estado', type: 'int', default: 1 })
-  estado!: number;
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt!: Date;
 
-  @Column({ name: 'fecha_creacion', type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
-  fechaCreacion!: Date;
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP', onUpdate: 'CURRENT_TIMESTAMP' })
+  updatedAt!: Date;
 }
@@ -0,0 +1,43 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
+
+// Registro de cada enlace emitido y cada descarga (o intento rechazado) de documentos de clientes
+@Entity('document_access_logs')
+export class DocumentAccessLog {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Index()
+  @Column({ type: 'int', nullable: true })
+  installationRequestId!: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  documentId!: number | null;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  field!: string | null;
+
+  // original | normalized | thumbnail
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  variant!: string | null;
+
+  // url_issued | download | denied
+  @Column({ type: 'varchar', length: 20 })
+  action!: string;
+
+  // Personal que emitió el enlace (también en las descargas hechas con ese enlace)
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  actor!: string | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  ip!: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  userAgent!: string | null;
+
+  // Motivo del rechazo (firma inválida, enlace vencido, archivo inexistente)
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  reason!: string | null;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt!: Date;
+}
@@ -0,0 +1,63 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
+
+// Versiones de los documentos de una solicitud (idFront, idBack, addressProof, coupon).
+// La versión vigente es la que también está referenciada en InstallationRequest.
+@Entity('installation_documents')
+@Index(['installationRequestId', 'field'])
+export class InstallationDocument {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column({ type: 'int' })
+  installationRequestId!: number;
+
+  @Column({ type: 'varchar', length: 20 })
+  field!: string;
+
+  @Column({ type: 'int' })
+  version!: number;
+
+  // true cuando a Wisphub se le envió la imagen en blanco de generatePlaceholderImage (outbox de Wisphub)
+  @Column({ type: 'boolean', default: false })
+  isPlaceholder!: boolean;
+
+  @Column({ type: 'boolean', default: true })
+  isCurrent!: boolean;
+
+  // Nombre en uploads/; NULL para los placeholders (no se conservan)
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  fileName!: string | null;
+
+  // Archivo tal como se subió (con EXIF); fileName es la versión JPEG normalizada cuando se pudo procesar
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  originalFileName!: string | null;
+
+  // Miniatura para el back office; NULL si el archivo no es una imagen
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  thumbnailFileName!: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  originalName!: string | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  mimeType!: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  size!: number | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  uploadedBy!: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  wisphubSyncedAt!: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  wisphubSyncError!: string | null;
+
+  // Archivos eliminados por la política de retención (FileRetentionService); la fila se conserva
+  @Column({ type: 'timestamp', nullable: true })
+  purgedAt!: Date | null;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt!: Date;
+}
@@ -1,6 +1,27 @@
-import { Entity, PrimaryGeneratedColumn, Column } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, DeleteDateColumn, Index } from 'typeorm';
+
+export const INSTALLATION_STATUSES = [
+  'received',
+  'scheduled',
+  'confirmed',
+  'activated',
+  'cancelled',
+  'rejected',
+  'failed',
+] as const;
+
+export type InstallationStatus = (typeof INSTALLATION_STATUSES)[number];
+
+export type WisphubSyncStatus = 'pending' | 'synced' | 'failed' | 'rejected' | 'skipped';
+
+export const DOCUMENT_FIELDS = ['idFront', 'idBack', 'addressProof', 'coupon'] as const;
+
+export type DocumentField = (typeof DOCUMENT_FIELDS)[number];
+
+export type DocumentSource = 'real' | 'placeholder';
 
 @Entity('installation_requests')
+@Index(['latitude', 'longitude'])
 export class InstallationRequest {
   @PrimaryGeneratedColumn()
   id!: number;
@@ -11,18 +32,47 @@ export class InstallationRequest {
   @Column()
   lastName!: string;
 
-  @Column({ unique: true })
+  // RUT en formato canónico "12.345.678-K"
+  @Column()
   ci!: string;
 
+  // RUT sin puntos ni guión ("12345678K"), usado para búsquedas
+  @Index()
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  ciNormalized!: string | null;
+
+  // Copia de `ciNormalized` mientras la solicitud no esté eliminada; NULL tras el soft-delete.
+  // El índice único vive aquí para que un RUT eliminado pueda volver a postular.
+  @Column({ type: 'varchar', length: 255, nullable: true, unique: true })
+  activeCi!: string | null;
+
   @Column()
   email!: string;
 
   @Column()
   address!: string;
 
+  // Texto "lat,lng" normalizado; la posición consultable vive en latitude/longitude
   @Column({ type: 'varchar', length: 255, nullable: true })
   coordinates!: string | null;
 
+  @Column({ type: 'double', nullable: true })
+  latitude!: number | null;
+
+  @Column({ type: 'double', nullable: true })
+  longitude!: number | null;
+
+  // Origen de la posición: 'form' (enviada por el cliente) o el proveedor de geocodificación
+  @Column({ type: 'varchar', length: 30, nullable: true })
+  geocodeSource!: string | null;
+
+  // 0..1; 1 para coordenadas del formulario
+  @Column({ type: 'float', nullable: true })
+  geocodeConfidence!: number | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  geocodedAt!: Date | null;
+
   @Column({ type: 'varchar', length: 100, nullable: true })
   neighborhood!: string | null;
 
@@ -62,6 +112,10 @@ export class InstallationRequest {
   @Column({ type: 'varchar', length: 255, nullable: true })
   coupon!: string | null;
 
+  // Por documento: 'real' si lo subió el cliente/operador, 'placeholder' si Wisphub recibió la imagen en blanco
+  @Column({ type: 'simple-json', nullable: true })
+  documentSources!: Partial<Record<DocumentField, DocumentSource>> | null;
+
   @Column({ type: 'varchar', length: 100, nullable: true })
   plan!: string | null;
 
@@ -81,6 +135,10 @@ export class InstallationRequest {
   @Column({ type: 'text', nullable: true })
   technicianNotes!: string | null;
 
+  // Técnico asignado (último que confirmó, propuso fecha o activó)
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  technicianName!: string | null;
+
   @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
   createdAt!: Date;
 
@@ -92,4 +150,54 @@ export class InstallationRequest {
 
   @Column({ type: 'varchar', length: 50, nullable: true })
   geonetClientId!: string | null;
+
+  // Id de la solicitud en Wisphub (respuesta de solicitar-instalacion), para actualizar documentos
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  wisphubRequestId!: string | null;
+
+  // Envío a Wisphub vía outbox: pending | synced | failed | rejected | skipped (Wisphub no configurado).
+  // NULL en solicitudes anteriores al outbox (se crearon solo si Wisphub respondió bien)
+  @Index()
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  wisphubSyncStatus!: WisphubSyncStatus | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  wisphubSyncedAt!: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  wisphubSyncError!: string | null;
+
+  // Estado del ciclo de vida; solo se modifica a través de InstallationStatusService
+  @Index()
+  @Column({ type: 'varchar', length: 20, default: 'received' })
+  status!: InstallationStatus;
+
+  // Posible duplicado detectado al crear (ver DuplicateDetectionService)
+  @Index()
+  @Column({ type: 'int', nullable: true })
+  suspectedDuplicateOfId!: number | null;
+
+  @Column({ type: 'float', nullable: true })
+  duplicateScore!: number | null;
+
+  // Solicitud que absorbió a esta al fusionar duplicados (la fila queda eliminada)
+  @Column({ type: 'int', nullable: true })
+  mergedIntoId!: number | null;
+
+  // Documentos eliminados por la política de retención (ver FileRetentionService)
+  @Column({ type: 'timestamp', nullable: true })
+  documentsPurgedAt!: Date | null;
+
+  @DeleteDateColumn({ type: 'timestamp', nullable: true })
+  deletedAt!: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  deletionReason!: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  deletedBy!: string | null;
+
+  // SHA-256 del código que recibe el cliente para consultar su estado; nunca se devuelve en la API
+  @Column({ type: 'varchar', length: 64, nullable: true, select: false })
+  statusTokenHash!: string | null;
 }
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
+
+@Entity('installation_status_history')
+export class InstallationStatusHistory {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Index()
+  @Column({ type: 'int' })
+  installationRequestId!: number;
+
+  // NULL en el primer registro (creación de la solicitud)
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  fromStatus!: string | null;
+
+  @Column({ type: 'varchar', length: 20 })
+  toStatus!: string;
+
+  // Usuario, técnico o proceso ("system", "n8n", ...) que movió la solicitud
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  changedBy!: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  reason!: string | null;
+
+  @Column({ type: 'simple-json', nullable: true })
+  metadata!: Record<string, any> | null;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt!: Date;
+}
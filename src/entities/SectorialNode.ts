@@ -1,6 +1,7 @@
-import { Entity, PrimaryGeneratedColumn, Column } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
 
 @Entity('sectorial_nodes')
+@Index(['latitude', 'longitude'])
 export class SectorialNode {
   @PrimaryGeneratedColumn()
   id!: number;
@@ -22,6 +23,13 @@ export class SectorialNode {
   @Column({ type: 'varchar', length: 255, nullable: true })
   coordenadas!: string | null;
 
+  // Posición parseada desde `coordenadas` al importar (NULL si no es válida o está fuera de Chile)
+  @Column({ type: 'double', nullable: true })
+  latitude!: number | null;
+
+  @Column({ type: 'double', nullable: true })
+  longitude!: number | null;
+
   @Column({ type: 'varchar', length: 255, nullable: true })
   zona!: string | null;
 
@@ -1,4 +1,4 @@
-import { Entity, PrimaryGeneratedColumn, Column } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
 
 @Entity('technicians')
 export class Technician {
@@ -24,6 +24,29 @@ export class Technician {
   @Column({ type: 'boolean', default: true })
   isActive!: boolean;
 
+  // Capacidad para la agenda; NULL usa los valores de CAPACITY_* (ver capacityConfig)
+  // Días de trabajo: 0 = domingo … 6 = sábado
+  @Column({ type: 'simple-json', nullable: true })
+  workDays!: number[] | null;
+
+  @Column({ type: 'varchar', length: 5, nullable: true })
+  workStart!: string | null;
+
+  @Column({ type: 'varchar', length: 5, nullable: true })
+  workEnd!: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  maxDailyInstallations!: number | null;
+
+  // Ciudades o localidades que atiende; vacío = todas
+  @Column({ type: 'simple-json', nullable: true })
+  zones!: string[] | null;
+
+  // SHA-256 del token del feed .ics (/calendar/technicians/<token>.ics); nunca se devuelve en la API
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 64, nullable: true, select: false })
+  calendarTokenHash!: string | null;
+
   @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
   createdAt!: Date;
 
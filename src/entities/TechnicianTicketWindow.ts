@@ -0,0 +1,77 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { InstallationRequest } from './InstallationRequest';
+import { Technician } from './Technician';
+
+export const TICKET_WINDOW_STATUSES = ['pending', 'active', 'cancelled'] as const;
+export type TicketWindowStatus = (typeof TICKET_WINDOW_STATUSES)[number];
+
+// Ventana (fechaInicio–fechaFinal) de un ticket de Geonet asignado a un técnico.
+// `pending` reserva la ventana mientras se crea o edita el ticket en Geonet; `active` es el ticket vigente.
+// Una edición actualiza la misma fila y sube `sequence`.
+@Entity('technician_ticket_windows')
+@Index(['technicianId', 'startAt'])
+@Index(['ticketId'])
+export class TechnicianTicketWindow {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  // NULL mientras está pendiente (al crear, el id sale de la respuesta de Geonet)
+  @Column({ type: 'varchar', length: 32, nullable: true })
+  ticketId!: string | null;
+
+  @Column({ type: 'varchar', length: 20, default: 'pending' })
+  status!: TicketWindowStatus;
+
+  // Técnico local (resuelto por nombre); NULL si no se encontró o se eliminó
+  @Column({ type: 'int', nullable: true })
+  technicianId!: number | null;
+
+  @ManyToOne(() => Technician, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'technicianId' })
+  technician?: Technician | null;
+
+  // Id del técnico en el select de Geonet (`tecnicoId`)
+  @Column({ type: 'varchar', length: 32, nullable: true })
+  geonetTechnicianId!: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  technicianName!: string | null;
+
+  // Nombre sin tildes ni mayúsculas, para comparar tickets asignados por nombre
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  technicianKey!: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  installationRequestId!: number | null;
+
+  @ManyToOne(() => InstallationRequest, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'installationRequestId' })
+  installationRequest?: InstallationRequest | null;
+
+  @Column({ type: 'datetime' })
+  startAt!: Date;
+
+  @Column({ type: 'datetime' })
+  endAt!: Date;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  subject!: string | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  location!: string | null;
+
+  @Column({ type: 'int', default: 0 })
+  sequence!: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  cancelledAt!: Date | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  createdBy!: string | null;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt!: Date;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP', onUpdate: 'CURRENT_TIMESTAMP' })
+  updatedAt!: Date;
+}
@@ -0,0 +1,66 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
+
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'delivering', 'delivered', 'failed'] as const;
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+// Un evento para una suscripción: se reintenta con backoff hasta una respuesta 2xx o agotar los intentos
+@Entity('webhook_deliveries')
+@Index(['status', 'nextAttemptAt'])
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Index()
+  @Column({ type: 'int' })
+  subscriptionId!: number;
+
+  @Column({ type: 'varchar', length: 50 })
+  event!: string;
+
+  // Id del evento (X-Webhook-Id): igual en todos los intentos, para que el receptor descarte repetidos
+  @Index()
+  @Column({ type: 'varchar', length: 36 })
+  eventId!: string;
+
+  // Cuerpo enviado sin los datos sensibles (es lo que se lista en el registro de entregas)
+  @Column({ type: 'text' })
+  payload!: string;
+
+  // Datos sensibles del evento (p. ej. statusToken) que se agregan al cuerpo al enviar; se borran al entregarse
+  @Column({ type: 'text', nullable: true, select: false })
+  sensitiveData!: string | null;
+
+  @Column({ type: 'varchar', length: 20, default: 'pending' })
+  status!: WebhookDeliveryStatus;
+
+  @Column({ type: 'int', default: 0 })
+  attempts!: number;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  nextAttemptAt!: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lockedAt!: Date | null;
+
+  @Column({ type: 'int', nullable: true })
+  responseStatus!: number | null;
+
+  // Primeros caracteres de la respuesta del receptor
+  @Column({ type: 'text', nullable: true })
+  responseBody!: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  lastError!: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  durationMs!: number | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  deliveredAt!: Date | null;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt!: Date;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP', onUpdate: 'CURRENT_TIMESTAMP' })
+  updatedAt!: Date;
+}
@@ -0,0 +1,49 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
+
+export const WEBHOOK_EVENTS = [
+  'installation.created',
+  'installation.updated',
+  'installation.confirmed',
+  'installation.proposed',
+  'installation.unconfirmed',
+  'installation.activated',
+  'ticket.created',
+  'ticket.edited',
+  'ticket.deleted',
+  'technicians.sync_finished',
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Destino de eventos salientes (n8n u otros sistemas), administrado vía /webhooks
+@Entity('webhook_subscriptions')
+export class WebhookSubscription {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column({ type: 'varchar', length: 2048 })
+  url!: string;
+
+  // Eventos suscritos; ['*'] recibe todos
+  @Column({ type: 'simple-json' })
+  events!: string[];
+
+  // Clave de la firma HMAC-SHA256 (header X-Webhook-Signature)
+  @Column({ type: 'varchar', length: 255 })
+  secret!: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  description!: string | null;
+
+  @Index()
+  @Column({ type: 'boolean', default: true })
+  isActive!: boolean;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  createdBy!: string | null;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt!: Date;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP', onUpdate: 'CURRENT_TIMESTAMP' })
+  updatedAt!: Date;
+}
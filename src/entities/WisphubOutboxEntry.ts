@@ -0,0 +1,53 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
+
+export const WISPHUB_OUTBOX_STATUSES = ['pending', 'processing', 'done', 'failed', 'rejected'] as const;
+export type WisphubOutboxStatus = (typeof WISPHUB_OUTBOX_STATUSES)[number];
+
+// Envíos pendientes a Wisphub (solicitar-instalacion). La solicitud se guarda primero y
+// WisphubOutboxService reintenta el envío con backoff hasta completarlo o agotar los intentos.
+@Entity('wisphub_outbox')
+@Index(['status', 'nextAttemptAt'])
+export class WisphubOutboxEntry {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Index()
+  @Column({ type: 'int' })
+  installationRequestId!: number;
+
+  // pending | processing | done | failed (agotó intentos o 4xx en reintento) | rejected (4xx al crear)
+  @Column({ type: 'varchar', length: 20, default: 'pending' })
+  status!: WisphubOutboxStatus;
+
+  @Column({ type: 'int', default: 0 })
+  attempts!: number;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  nextAttemptAt!: Date;
+
+  // Momento en que un worker tomó la entrada; permite recuperar entradas de un proceso caído
+  @Column({ type: 'timestamp', nullable: true })
+  lockedAt!: Date | null;
+
+  @Column({ type: 'int', nullable: true })
+  lastStatus!: number | null;
+
+  @Column({ type: 'text', nullable: true })
+  lastError!: string | null;
+
+  // Respuesta de Wisphub del último intento
+  @Column({ type: 'simple-json', nullable: true })
+  responseData!: any;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  replayedBy!: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt!: Date | null;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  createdAt!: Date;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP', onUpdate: 'CURRENT_TIMESTAMP' })
+  updatedAt!: Date;
+}
@@ -1,8 +1,18 @@
 import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
 
 const errorHandler = (err: any, req: Request, res: Response, next: NextFunction) => {
   console.error(err); // Log the error for debugging
 
+  // Errores de carga de archivos (multer o fileFilter): 400 con el campo afectado
+  if (err instanceof multer.MulterError) {
+    const message = err.code === 'LIMIT_FILE_SIZE' ? 'El archivo supera el tamaño máximo permitido' : err.message;
+    return res.status(400).json({ [err.field || 'file']: [message] });
+  }
+  if (err.statusCode && err.data) {
+    return res.status(err.statusCode).json(err.data);
+  }
+
   const statusCode = err.statusCode || 500;
   const message = err.message || 'Internal Server Error';
 
@@ -0,0 +1,40 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { staffAuthConfig } from '../config';
+import logger from '../utils/logger';
+
+function extractToken(req: Request): string {
+  const authorization = req.get('authorization') || '';
+  const bearer = /^Bearer\s+(.+)$/i.exec(authorization);
+  return String(bearer ? bearer[1] : req.get('x-staff-token') || '').trim();
+}
+
+// Compara hashes de largo fijo para no filtrar el largo del token por tiempo de respuesta
+function sameToken(a: string, b: string): boolean {
+  const ha = crypto.createHash('sha256').update(a).digest();
+  const hb = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(ha, hb);
+}
+
+/**
+ * Exige un token de STAFF_API_TOKENS (Authorization: Bearer o X-Staff-Token).
+ * El nombre asociado al token queda en `res.locals.staff`.
+ */
+const requireStaff = (req: Request, res: Response, next: NextFunction) => {
+  if (!staffAuthConfig.tokens.length) {
+    logger.error('StaffAuth: STAFF_API_TOKENS no configurado, acceso denegado');
+    return res.status(503).json({ message: 'Autenticación de personal no configurada' });
+  }
+
+  const token = extractToken(req);
+  const match = token ? staffAuthConfig.tokens.find((entry) => sameToken(entry.token, token)) : undefined;
+  if (!match) {
+    logger.warn(`StaffAuth: token inválido para ${req.method} ${req.originalUrl} desde ${req.ip}`);
+    return res.status(401).json({ message: 'No autorizado' });
+  }
+
+  res.locals.staff = match.name;
+  next();
+};
+
+export default requireStaff;
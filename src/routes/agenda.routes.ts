@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { AgendaController } from '../controllers/agenda.controller';
+import requireStaff from '../middlewares/staffAuth';
+
+const router = Router();
+const agendaController = new AgendaController();
+
+// Staff only: appointments expose customer addresses and phones
+router.use(requireStaff);
+
+// Day view grouped by technician and Monday-to-Sunday week view (`date`, `technicianId`, `includeCancelled`)
+router.get('/day', (req, res) => agendaController.getDayView(req, res));
+router.get('/week', (req, res) => agendaController.getWeekView(req, res));
+
+// Capacity: bookable slots for the next `days` days (by request, or by `plan`/`zone`) and atomic booking of one
+router.get('/availability', (req, res) => agendaController.getAvailability(req, res));
+router.post('/book', (req, res) => agendaController.bookSlot(req, res));
+
+// Visit order for one technician's day (`technicianId`, `date`, optional `start` and `startTime`) with ETAs and a map link
+router.get('/route', (req, res) => agendaController.getRoute(req, res));
+
+// Appointments: list (`from`, `to`, `technicianId`, `installationRequestId`, `status`), create, reschedule/reassign, cancel
+router.get('/', (req, res) => agendaController.listEntries(req, res));
+router.post('/', (req, res) => agendaController.createEntry(req, res));
+router.get('/:id', (req, res) => agendaController.getEntry(req, res));
+router.patch('/:id', (req, res) => agendaController.updateEntry(req, res));
+router.delete('/:id', (req, res) => agendaController.cancelEntry(req, res));
+
+export default router;
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { CalendarController } from '../controllers/calendar.controller';
+import requireStaff from '../middlewares/staffAuth';
+
+const router = Router();
+const calendarController = new CalendarController();
+
+// iCalendar feed of a technician's appointments and Geonet tickets; the token in the URL is the credential
+router.get('/technicians/:token.ics', (req, res) => calendarController.getTechnicianFeed(req, res));
+
+// Staff only: issue (or rotate) and revoke a technician's feed link
+router.post('/technicians/:id/token', requireStaff, (req, res) => calendarController.issueFeedToken(req, res));
+router.delete('/technicians/:id/token', requireStaff, (req, res) => calendarController.revokeFeedToken(req, res));
+
+export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { CoverageController } from '../controllers/coverage.controller';
+
+const router = Router();
+const coverageController = new CoverageController();
+
+// Coverage check by coordinates: nearest CTO/ODB with free ports, or nearest wireless sectorial
+router.get('/', (req, res) => coverageController.checkCoverage(req, res));
+
+// Same check using the coordinates captured on an installation request
+router.get('/installations/:id', (req, res) => coverageController.checkInstallationCoverage(req, res));
+
+export default router;
@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { DocumentController } from '../controllers/document.controller';
+
+const router = Router();
+const documentController = new DocumentController();
+
+// Download a stored customer document with a short-lived signed link (every access is logged)
+router.get('/:documentId/download', (req, res) => documentController.downloadDocument(req, res));
+
+export default router;
@@ -2,12 +2,22 @@ import { Router } from 'express';
 import installationRoutes from './installation.routes';
 import technicianRoutes from './technician.routes';
 import odbRoutes from './odb';
+import coverageRoutes from './coverage.routes';
+import documentRoutes from './document.routes';
+import webhookRoutes from './webhook.routes';
+import agendaRoutes from './agenda.routes';
+import calendarRoutes from './calendar.routes';
 
 const router = Router();
 
 router.use('/installations', installationRoutes);
 router.use('/technicians', technicianRoutes);
 router.use('/odb', odbRoutes); 
+router.use('/coverage', coverageRoutes);
+router.use('/documents', documentRoutes);
+router.use('/webhooks', webhookRoutes);
+router.use('/agenda', agendaRoutes);
+router.use('/calendar', calendarRoutes);
 
 
 export default router;
\ No newline at end of file
@@ -1,11 +1,18 @@
 import { Router } from 'express';
 import multer from 'multer';
 import { InstallationController } from '../controllers/installation.controller';
+import { uploadFileFilter } from '../services/uploadSafety.service';
+import requireStaff from '../middlewares/staffAuth';
+import { importConfig } from '../config';
 
 const router = Router();
 const installationController = new InstallationController();
-// Allow larger file uploads (e.g. up to 20MB per file)
-const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 20 * 1024 * 1024 } });
+// Allow larger file uploads (e.g. up to 20MB per file); content is checked again in UploadSafetyService
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 20 * 1024 * 1024 }, fileFilter: uploadFileFilter });
+// Ticket attachments (`archivo_ticket`) go straight to Geonet/Wisphub: any type (xlsx, docx…), same size limit
+const ticketUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 20 * 1024 * 1024 } });
+// CSV for bulk import: no image filter, the content is parsed and validated row by row
+const csvUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: importConfig.maxFileBytes } });
 
 // Route to create a new installation request
 router.post(
@@ -19,16 +26,70 @@ router.post(
 	(req, res) => installationController.createInstallationRequest(req, res)
 );
 
-// Route to get all installation requests
+// Route to list installation requests (paginated, filterable and searchable)
 router.get('/', (req, res) => installationController.getInstallationRequests(req, res));
 
+// Staff only: CSV/XLSX export with the listing filters, configurable columns and masked RUT/phone/email
+router.get('/export', requireStaff, (req, res) => installationController.exportInstallationRequests(req, res));
+
+// Staff only: bulk import from CSV (multipart field `file`); `dryRun=true` only validates. Per-row report
+router.post(
+	'/import',
+	requireStaff,
+	csvUpload.single('file'),
+	(req, res) => installationController.importInstallationRequests(req, res)
+);
+
+// Suspected duplicates (email, phone, address, name, mistyped CI) grouped into clusters
+router.get('/duplicates', (req, res) => installationController.getDuplicateClusters(req, res));
+
+// Wisphub outbox: submissions by status (default `failed`) and manual replay of one request
+router.get('/wisphub-outbox', (req, res) => installationController.getWisphubOutbox(req, res));
+router.post('/:id/wisphub-sync', (req, res) => installationController.replayWisphubSync(req, res));
+
+// Single request: fetch by id or CI, update whitelisted fields, soft-delete with reason
+router.get('/by-ci/:ci', (req, res) => installationController.getInstallationRequestByCi(req, res));
+router.get('/:id', (req, res) => installationController.getInstallationRequest(req, res));
+router.patch('/:id', (req, res) => installationController.updateInstallationRequest(req, res));
+router.delete('/:id', (req, res) => installationController.deleteInstallationRequest(req, res));
+
+// Documents: version history, attach or replace one (multipart field `file`) and push it to Wisphub
+router.get('/:id/documents', (req, res) => installationController.getInstallationDocuments(req, res));
+router.put(
+	'/:id/documents/:field',
+	upload.single('file'),
+	(req, res) => installationController.replaceInstallationDocument(req, res)
+);
+
+// Staff only: short-lived signed download link for a document, and who accessed the request's documents
+router.post('/:id/documents/:field/download-url', requireStaff, (req, res) => installationController.createDocumentDownloadUrl(req, res));
+router.get('/:id/documents/access-log', requireStaff, (req, res) => installationController.getDocumentAccessLog(req, res));
+
+// Issue a new customer status-lookup token (invalidates the previous one)
+router.post('/:id/status-token', (req, res) => installationController.reissueStatusToken(req, res));
+
+// Re-geocode the request address (`force=true` overwrites existing coordinates)
+router.post('/:id/geocode', (req, res) => installationController.geocodeInstallationRequest(req, res));
+
+// Merge a duplicate (`sourceId` in body) into this request; the duplicate is soft-deleted
+router.post('/:id/merge', (req, res) => installationController.mergeInstallationRequests(req, res));
+
+// Technician confirmation: confirm / propose date and window, update notes, un-confirm
+router.put('/:id/confirmation', (req, res) => installationController.confirmInstallation(req, res));
+router.delete('/:id/confirmation', (req, res) => installationController.unconfirmInstallation(req, res));
+
+// Lifecycle status: current status + allowed transitions, guarded transition and history
+router.get('/:id/status', (req, res) => installationController.getInstallationStatus(req, res));
+router.post('/:id/status', (req, res) => installationController.changeInstallationStatus(req, res));
+router.get('/:id/status/history', (req, res) => installationController.getInstallationStatusHistory(req, res));
+
 // Route to lookup preinstallation activation link and ids
 router.post('/preinstallations/lookup', (req, res) => installationController.lookupPreinstallation(req, res));
 
 // Route to create a Geonet ticket
 router.post(
 	'/tickets/:ticketCategoryId',
-	upload.single('archivo_ticket'),
+	ticketUpload.single('archivo_ticket'),
 	(req, res) => installationController.crearTicket(req, res)
 );
 
@@ -38,7 +99,7 @@ router.delete('/tickets/:ticketId', (req, res) => installationController.elimina
 // Alternate route: ticketCategoryId in body
 router.post(
 	'/tickets',
-	upload.single('archivo_ticket'),
+	ticketUpload.single('archivo_ticket'),
 	(req, res) => installationController.crearTicket(req, res)
 );
 
@@ -60,14 +121,14 @@ router.get('/wisphub/staff', (req, res) => installationController.listarStaffWis
 // Geonet: edit ticket (partial update). Supports optional file field `archivo_ticket`.
 router.patch(
 	'/geonet/tickets/:ticketId',
-	upload.single('archivo_ticket'),
+	ticketUpload.single('archivo_ticket'),
 	(req, res) => installationController.editarTicketGeonet(req, res)
 );
 
 // Wisphub alias: same Geonet scraper, different URL segment used by n8n workflows
 router.patch(
 	'/wisphub/tickets/:ticketId',
-	upload.single('archivo_ticket'),
+	ticketUpload.single('archivo_ticket'),
 	(req, res) => installationController.editarTicketGeonet(req, res)
 );
 
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { PublicStatusController } from '../controllers/publicStatus.controller';
+
+const router = Router();
+const publicStatusController = new PublicStatusController();
+
+// Customer self-service: RUT + token (sent at creation) → sanitized installation status.
+// POST so the token never ends up in URLs or access logs.
+router.post('/installation-status', (req, res) => publicStatusController.getInstallationStatus(req, res));
+
+export default router;
@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { WebhookController } from '../controllers/webhook.controller';
+import requireStaff from '../middlewares/staffAuth';
+
+const router = Router();
+const webhookController = new WebhookController();
+
+// Staff only: subscriptions hold signing secrets
+router.use(requireStaff);
+
+// Event types that can be subscribed to
+router.get('/events', (req, res) => webhookController.listEvents(req, res));
+
+// Subscription registry (PATCH with `rotateSecret: true` issues a new secret)
+router.get('/', (req, res) => webhookController.listSubscriptions(req, res));
+router.post('/', (req, res) => webhookController.createSubscription(req, res));
+router.patch('/:id', (req, res) => webhookController.updateSubscription(req, res));
+router.delete('/:id', (req, res) => webhookController.deleteSubscription(req, res));
+
+// Delivery log of a subscription and manual redelivery
+router.get('/:id/deliveries', (req, res) => webhookController.listDeliveries(req, res));
+router.post('/deliveries/:deliveryId/redeliver', (req, res) => webhookController.redeliver(req, res));
+
+export default router;
@@ -0,0 +1,83 @@
+import 'dotenv/config';
+import AppDataSource, { initializeDataSource } from '../database/data-source';
+import { InstallationRequest } from '../entities/InstallationRequest';
+import { formatRut, isValidRut, normalizeRut } from '../utils/rut';
+import logger from '../utils/logger';
+
+// =========================================================================
+// BACKFILL ÚNICO: RUT CANÓNICO + ciNormalized
+// Uso: npm run backfill:rut [-- --dry-run]
+// =========================================================================
+
+type BackfillReport = {
+  dryRun: boolean;
+  scanned: number;
+  updated: number;
+  invalid: { id: number; ci: string | null }[];
+  collisions: { ciNormalized: string; keptId: number; releasedIds: number[] }[];
+};
+
+async function run(dryRun: boolean): Promise<BackfillReport> {
+  await initializeDataSource();
+  const repo = AppDataSource.getRepository(InstallationRequest);
+  // Incluye eliminadas: también necesitan ciNormalized para búsquedas históricas
+  const rows = await repo.find({ withDeleted: true, order: { id: 'ASC' } });
+
+  const report: BackfillReport = { dryRun, scanned: rows.length, updated: 0, invalid: [], collisions: [] };
+  const activeByRut = new Map<string, InstallationRequest[]>();
+
+  for (const row of rows) {
+    const normalized = normalizeRut(row.ci);
+    // RUT con DV incorrecto: se normaliza para poder buscarlo, pero el ci queda como lo escribió el cliente
+    if (!isValidRut(row.ci)) report.invalid.push({ id: row.id, ci: row.ci ?? null });
+
+    row.ciNormalized = normalized;
+    if (normalized && isValidRut(row.ci)) row.ci = formatRut(row.ci) as string;
+
+    if (normalized && !row.deletedAt) {
+      const group = activeByRut.get(normalized) ?? [];
+      group.push(row);
+      activeByRut.set(normalized, group);
+    }
+  }
+
+  // La solicitud más antigua conserva el RUT activo; el resto se reporta como colisión
+  for (const [ciNormalized, group] of activeByRut) {
+    group[0].activeCi = ciNormalized;
+    if (group.length > 1) {
+      for (const dup of group.slice(1)) dup.activeCi = null;
+      report.collisions.push({ ciNormalized, keptId: group[0].id, releasedIds: group.slice(1).map((r) => r.id) });
+    }
+  }
+
+  for (const row of rows) {
+    if (row.deletedAt || !row.ciNormalized) row.activeCi = null;
+  }
+
+  if (!dryRun) {
+    // activeCi es único: se liberan primero los valores y luego se asignan
+    await AppDataSource.transaction(async (m) => {
+      const txRepo = m.getRepository(InstallationRequest);
+      await txRepo.createQueryBuilder().update().set({ activeCi: null }).where('1 = 1').execute();
+      for (const row of rows) {
+        await txRepo.update(row.id, { ci: row.ci, ciNormalized: row.ciNormalized, activeCi: row.activeCi });
+      }
+    });
+    report.updated = rows.length;
+  }
+
+  return report;
+}
+
+const dryRun = process.argv.includes('--dry-run');
+
+run(dryRun)
+  .then((report) => {
+    logger.info(`backfillCiNormalized: ${report.scanned} filas, ${report.invalid.length} RUT inválidos, ${report.collisions.length} colisiones`);
+    console.log(JSON.stringify(report, null, 2));
+    return AppDataSource.destroy();
+  })
+  .catch((err) => {
+    logger.error(`backfillCiNormalized: ${err?.message || err}`);
+    process.exitCode = 1;
+  });
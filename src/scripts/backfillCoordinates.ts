@@ -0,0 +1,87 @@
+import 'dotenv/config';
+import AppDataSource, { initializeDataSource } from '../database/data-source';
+import { InstallationRequest } from '../entities/InstallationRequest';
+import { SectorialNode } from '../entities/SectorialNode';
+import { formatCoordinates, parseChileanCoordinates } from '../utils/geo';
+import logger from '../utils/logger';
+
+// =========================================================================
+// BACKFILL ÚNICO: coordinates / coordenadas → latitude + longitude
+// Uso: npm run backfill:coordinates [-- --dry-run]
+// =========================================================================
+
+type Rejected = { id: number; value: string; reason: 'format' | 'outside_chile' };
+
+type BackfillReport = {
+  dryRun: boolean;
+  installationRequests: { scanned: number; located: number; rejected: Rejected[] };
+  sectorialNodes: { scanned: number; located: number; rejected: Rejected[] };
+};
+
+async function run(dryRun: boolean): Promise<BackfillReport> {
+  await initializeDataSource();
+  const report: BackfillReport = {
+    dryRun,
+    installationRequests: { scanned: 0, located: 0, rejected: [] },
+    sectorialNodes: { scanned: 0, located: 0, rejected: [] },
+  };
+
+  const requestRepo = AppDataSource.getRepository(InstallationRequest);
+  const requests = await requestRepo.find({
+    select: ['id', 'coordinates'],
+    withDeleted: true,
+    order: { id: 'ASC' },
+  });
+  report.installationRequests.scanned = requests.length;
+  for (const row of requests) {
+    if (!row.coordinates?.trim()) continue;
+    const parsed = parseChileanCoordinates(row.coordinates);
+    // Las coordenadas rechazadas se conservan como texto para revisión manual
+    if (!parsed.ok) {
+      report.installationRequests.rejected.push({ id: row.id, value: row.coordinates, reason: parsed.reason });
+      continue;
+    }
+    report.installationRequests.located += 1;
+    if (!dryRun) {
+      await requestRepo.update(row.id, {
+        coordinates: formatCoordinates(parsed.point),
+        latitude: parsed.point.lat,
+        longitude: parsed.point.lng,
+        geocodeSource: 'form',
+        geocodeConfidence: 1,
+      });
+    }
+  }
+
+  const nodeRepo = AppDataSource.getRepository(SectorialNode);
+  const nodes = await nodeRepo.find({ select: ['id', 'coordenadas'], order: { id: 'ASC' } });
+  report.sectorialNodes.scanned = nodes.length;
+  for (const node of nodes) {
+    if (!node.coordenadas?.trim()) continue;
+    const parsed = parseChileanCoordinates(node.coordenadas);
+    if (!parsed.ok) {
+      report.sectorialNodes.rejected.push({ id: node.id, value: node.coordenadas, reason: parsed.reason });
+      continue;
+    }
+    report.sectorialNodes.located += 1;
+    if (!dryRun) {
+      await nodeRepo.update(node.id, { latitude: parsed.point.lat, longitude: parsed.point.lng });
+    }
+  }
+
+  return report;
+}
+
+const dryRun = process.argv.includes('--dry-run');
+
+run(dryRun)
+  .then((report) => {
+    const { installationRequests: reqs, sectorialNodes: nodes } = report;
+    logger.info(`backfillCoordinates: solicitudes ${reqs.located}/${reqs.scanned}, sectoriales ${nodes.located}/${nodes.scanned}`);
+    console.log(JSON.stringify(report, null, 2));
+    return AppDataSource.destroy();
+  })
+  .catch((err) => {
+    logger.error(`backfillCoordinates: ${err?.message || err}`);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,23 @@
+import 'dotenv/config';
+import AppDataSource from '../database/data-source';
+import { FileRetentionService } from '../services/fileRetention.service';
+import logger from '../utils/logger';
+
+// =========================================================================
+// RETENCIÓN MANUAL DE DOCUMENTOS (la misma que corre el scheduler)
+// Uso: npm run retention:run [-- --dry-run]
+// =========================================================================
+
+const dryRun = process.argv.includes('--dry-run');
+
+new FileRetentionService()
+  .run({ dryRun })
+  .then((report) => {
+    logger.info(`runFileRetention: reporte en ${report.reportPath ?? '(no escrito)'}`);
+    console.log(JSON.stringify({ ...report, purged: report.purged.length }, null, 2));
+    return AppDataSource.destroy();
+  })
+  .catch((err) => {
+    logger.error(`runFileRetention: ${err?.message || err}`);
+    process.exitCode = 1;
+  });
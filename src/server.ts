@@ -5,10 +5,14 @@ import fs from 'fs';
 import path from 'path';
 import rateLimit from 'express-rate-limit'; // <-- IMPORTACIÓN DEL LIMITADOR
 import routes from './routes';
+import publicRoutes from './routes/public.routes';
 import errorHandler from './middlewares/errorHandler';
-import { appConfig } from './config';
+import { appConfig, publicStatusConfig } from './config';
 import { TechnicianService } from './services/technician.service';
 import { startGeonetImportScheduler } from './services/geonetImportScheduler';
+import { startFileRetentionScheduler } from './services/fileRetentionScheduler';
+import { startWisphubOutboxWorker } from './services/wisphubOutboxScheduler';
+import { startWebhookDeliveryWorker } from './services/webhookDeliveryScheduler';
 import { scheduleSmartoltOnuSnapshots } from './services/smartOlt';
 
 // 👇 AÑADE ESTA IMPORTACIÓN (Ajusta la ruta según dónde esté tu AppDataSource)
@@ -61,10 +65,24 @@ const apiLimiter = rateLimit({
   legacyHeaders: false, // Deshabilita los headers obsoletos `X-RateLimit-*`
 });
 
+// Límite propio para la consulta pública de estado (clientes finales): pocos intentos
+// por IP para que no se pueda adivinar el código por fuerza bruta.
+const publicStatusLimiter = rateLimit({
+  windowMs: publicStatusConfig.rateLimitWindowMs,
+  max: publicStatusConfig.rateLimitMax,
+  message: { error: 'Demasiados intentos de consulta, intenta nuevamente más tarde.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 // Middlewares de parseo (Límites de 50MB)
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 
+// Rutas públicas primero, para que no consuman el cupo del limitador de n8n
+app.use('/api/public', publicStatusLimiter, publicRoutes);
+app.use('/public', publicStatusLimiter, publicRoutes);
+
 // Aplicar el Rate Limiter SOLO a las rutas de la API para protegerlas
 app.use('/api', apiLimiter, routes);
 app.use(routes); // Rutas sin el prefijo /api (si las hay)
@@ -102,6 +120,9 @@ const startServer = async () => {
     console.log('Iniciando tareas programadas (Schedulers)...');
     startGeonetImportScheduler();
     scheduleSmartoltOnuSnapshots();
+    startFileRetentionScheduler();
+    startWisphubOutboxWorker();
+    startWebhookDeliveryWorker();
 
     // 3. LEVANTAR EXPRESS
     app.listen(PORT, () => {
@@ -0,0 +1,560 @@
+import { EntityManager } from 'typeorm';
+import AppDataSource, { initializeDataSource } from '../database/data-source';
+import { AGENDA_STATUSES, Agenda, AgendaStatus } from '../entities/Agenda';
+import { InstallationRequest, InstallationStatus } from '../entities/InstallationRequest';
+import { Technician } from '../entities/Technician';
+import { InstallationStatusService, canReopen, lifecyclePath } from './installationStatus.service';
+import { CapacityService, coversZone, resolveInstallationDuration, technicianCapacity } from './capacity.service';
+import { FieldErrors, validationError } from './installationValidation';
+import { agendaConfig } from '../config';
+import {
+  addDaysToDateKey,
+  minutesToTime,
+  parseDateKey,
+  parseTimeToMinutes,
+  toDateKeyCL,
+  toTimeCL,
+  weekdayOfDateKey,
+  zonedDateTimeToUtc,
+} from '../utils/date';
+import logger from '../utils/logger';
+
+// =========================================================================
+// AGENDA DE INSTALACIONES (citas por solicitud y técnico)
+// =========================================================================
+
+export type AgendaEntryInput = {
+  installationRequestId?: unknown;
+  technicianId?: unknown;
+  // Instante ISO 8601; sin zona horaria se interpreta como hora de Chile
+  startAt?: unknown;
+  endAt?: unknown;
+  // Alternativa: fecha + horas de pared en Chile
+  date?: unknown;
+  timeFrom?: unknown;
+  timeTo?: unknown;
+  durationMinutes?: unknown;
+  status?: unknown;
+  notes?: unknown;
+  // Motivo al cancelar con status `cancelled`
+  reason?: unknown;
+};
+
+export type AgendaFilters = {
+  from?: string | null;
+  to?: string | null;
+  technicianId?: number | null;
+  installationRequestId?: number | null;
+  status?: AgendaStatus[];
+  limit?: number;
+};
+
+// Cita con la fecha y las horas ya expresadas en hora de Chile
+export type AgendaEntryView = Agenda & { date: string; timeFrom: string; timeTo: string };
+
+export type AgendaDayView = {
+  date: string;
+  total: number;
+  technicians: { technicianId: number | null; technicianName: string; entries: AgendaEntryView[] }[];
+};
+
+export type AgendaWeekView = {
+  from: string;
+  to: string;
+  total: number;
+  days: { date: string; entries: AgendaEntryView[] }[];
+};
+
+// Citas que ya no ocupan la ventana del técnico ni fijan la fecha de la solicitud
+const CLOSED_AGENDA_STATUSES: AgendaStatus[] = ['completed', 'cancelled'];
+// Citas cuya solicitud ya está confirmada por el técnico
+const CONFIRMED_AGENDA_STATUSES: AgendaStatus[] = ['confirmed', 'in_progress', 'completed'];
+// Solicitudes que ya no se agendan
+const CLOSED_REQUEST_STATUSES: InstallationStatus[] = ['activated', 'cancelled', 'rejected'];
+
+export function isAgendaStatus(value: unknown): value is AgendaStatus {
+  return typeof value === 'string' && (AGENDA_STATUSES as readonly string[]).includes(value);
+}
+
+function notFound(message: string): Error {
+  return Object.assign(new Error(message), { statusCode: 404 });
+}
+
+function conflict(message: string, data?: Record<string, any>): Error {
+  return Object.assign(new Error(message), { statusCode: 409, data: data ? { message, ...data } : undefined });
+}
+
+function parsePositiveInt(value: unknown): number | null {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+// "2025-03-10T10:00" sin zona = hora de Chile; con Z u offset se respeta
+function parseInstant(value: unknown): Date | null {
+  const s = String(value ?? '').trim();
+  const local = s.match(/^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2})(?::\d{2}(?:\.\d+)?)?$/);
+  if (local) return parseTimeToMinutes(local[2]) === null ? null : zonedDateTimeToUtc(local[1], local[2]);
+  if (!/^\d{4}-\d{2}-\d{2}T/.test(s)) return null;
+  const date = new Date(s);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export const technicianFullName = (t: Pick<Technician, 'firstName' | 'lastName'>) => `${t.firstName} ${t.lastName}`.trim();
+
+function present(entry: Agenda): AgendaEntryView {
+  return Object.assign(entry, {
+    date: toDateKeyCL(entry.startAt),
+    timeFrom: toTimeCL(entry.startAt),
+    timeTo: toTimeCL(entry.endAt),
+  });
+}
+
+/**
+ * Citas de instalación con solicitud y técnico. Crear o reprogramar una cita fija
+ * `agreedInstallationDate`/`agreedTimeFrom`/`agreedTimeTo` de la solicitud y la deja en `scheduled`
+ * (o `confirmed` si la cita viene confirmada); cancelarla los libera.
+ */
+export class AgendaService {
+  private statusService = new InstallationStatusService();
+  private capacityService = new CapacityService();
+
+  private async ensureDataSource(): Promise<void> {
+    if (!AppDataSource.isInitialized) {
+      await initializeDataSource();
+    }
+  }
+
+  /**
+   * Ventana de la cita a partir de `startAt`/`endAt` o de `date` + `timeFrom`/`timeTo`.
+   * Sin término se usa `durationMinutes` o `fallbackMinutes`. Devuelve null si el input no trae ventana.
+   */
+  private parseWindow(input: AgendaEntryInput, fallbackMinutes: number): { startAt: Date; endAt: Date } | null {
+    const errors: FieldErrors = {};
+    let startAt: Date | null = null;
+    let endAt: Date | null = null;
+
+    if (input.startAt !== undefined) {
+      startAt = parseInstant(input.startAt);
+      if (!startAt) errors.startAt = ['Fecha y hora inválida (ISO 8601, p. ej. 2025-03-10T10:00)'];
+      if (input.endAt !== undefined && input.endAt !== null && input.endAt !== '') {
+        endAt = parseInstant(input.endAt);
+        if (!endAt) errors.endAt = ['Fecha y hora inválida (ISO 8601, p. ej. 2025-03-10T12:00)'];
+      }
+    } else if (input.date !== undefined || input.timeFrom !== undefined) {
+      const dateKey = parseDateKey(input.date as string);
+      const from = parseTimeToMinutes(input.timeFrom as string);
+      const hasTo = input.timeTo !== undefined && input.timeTo !== null && input.timeTo !== '';
+      const to = hasTo ? parseTimeToMinutes(input.timeTo as string) : null;
+      if (!dateKey) errors.date = ['Fecha inválida (YYYY-MM-DD o DD/MM/YYYY)'];
+      if (from === null) errors.timeFrom = ['Hora inválida (HH:mm)'];
+      if (hasTo && to === null) errors.timeTo = ['Hora inválida (HH:mm)'];
+      if (dateKey && from !== null) startAt = zonedDateTimeToUtc(dateKey, minutesToTime(from));
+      if (dateKey && to !== null) endAt = zonedDateTimeToUtc(dateKey, minutesToTime(to));
+    } else {
+      return null;
+    }
+
+    if (startAt && !endAt && !errors.endAt && !errors.timeTo) {
+      const minutes = input.durationMinutes !== undefined ? parsePositiveInt(input.durationMinutes) : fallbackMinutes;
+      if (!minutes || minutes > 24 * 60) errors.durationMinutes = ['durationMinutes debe ser un entero entre 1 y 1440'];
+      else endAt = new Date(startAt.getTime() + minutes * 60_000);
+    }
+    if (startAt && endAt && endAt.getTime() <= startAt.getTime()) {
+      errors[input.startAt !== undefined ? 'endAt' : 'timeTo'] = ['El término debe ser posterior al inicio'];
+    }
+
+    if (Object.keys(errors).length > 0) throw validationError(errors);
+    return { startAt: startAt as Date, endAt: endAt as Date };
+  }
+
+  private parseNotes(value: unknown): string | null {
+    const notes = value === null || value === undefined ? '' : String(value).trim();
+    return notes || null;
+  }
+
+  private baseQuery() {
+    // innerJoin: las citas de solicitudes eliminadas no se muestran
+    return AppDataSource.getRepository(Agenda)
+      .createQueryBuilder('a')
+      .innerJoin('a.installationRequest', 'r')
+      .addSelect([
+        'r.id',
+        'r.firstName',
+        'r.lastName',
+        'r.ci',
+        'r.phone',
+        'r.email',
+        'r.address',
+        'r.neighborhood',
+        'r.city',
+        'r.coordinates',
+        'r.latitude',
+        'r.longitude',
+        'r.plan',
+        'r.status',
+      ])
+      .leftJoin('a.technician', 't')
+      .addSelect(['t.id', 't.firstName', 't.lastName', 't.phone']);
+  }
+
+  // Bloquea al técnico para que dos agendamientos simultáneos no se crucen
+  private async lockTechnician(manager: EntityManager, technicianId: number): Promise<Technician> {
+    const technician = await manager.getRepository(Technician).findOne({ where: { id: technicianId }, lock: { mode: 'pessimistic_write' } });
+    if (!technician) throw notFound('Técnico no encontrado');
+    if (!technician.isActive) throw conflict('El técnico está inactivo');
+    return technician;
+  }
+
+  private async assertNoOverlap(manager: EntityManager, technicianId: number, startAt: Date, endAt: Date, excludeId?: number): Promise<void> {
+    // Lectura con bloqueo: ve las citas que otra transacción confirmó mientras se esperaba al técnico
+    const qb = manager
+      .getRepository(Agenda)
+      .createQueryBuilder('a')
+      .setLock('pessimistic_read')
+      .where('a.technicianId = :technicianId', { technicianId })
+      .andWhere('a.status NOT IN (:...closed)', { closed: CLOSED_AGENDA_STATUSES })
+      .andWhere('a.startAt < :endAt AND a.endAt > :startAt', { startAt, endAt });
+    if (excludeId) qb.andWhere('a.id != :excludeId', { excludeId });
+    const overlapping = await qb.orderBy('a.startAt', 'ASC').getMany();
+    if (overlapping.length) {
+      throw conflict('El técnico ya tiene una cita en esa ventana', {
+        conflicts: overlapping.map((a) => ({
+          id: a.id,
+          installationRequestId: a.installationRequestId,
+          startAt: a.startAt,
+          endAt: a.endAt,
+          status: a.status,
+        })),
+      });
+    }
+  }
+
+  /**
+   * Copia la ventana de la cita a la solicitud y mueve su estado (`scheduled` o `confirmed`).
+   * Una cita en curso o completada ya pasó por la confirmación: cuenta como `confirmed`.
+   */
+  private async syncRequest(manager: EntityManager, request: InstallationRequest, entry: Agenda, actor: string): Promise<void> {
+    const confirmed = CONFIRMED_AGENDA_STATUSES.includes(entry.status);
+    await manager.getRepository(InstallationRequest).update(request.id, {
+      agreedInstallationDate: entry.startAt,
+      agreedTimeFrom: toTimeCL(entry.startAt),
+      agreedTimeTo: toTimeCL(entry.endAt),
+      confirmedByTechnician: confirmed,
+      ...(entry.tecnicoNombre ? { technicianName: entry.tecnicoNombre } : {}),
+    });
+
+    const target: InstallationStatus = confirmed ? 'confirmed' : 'scheduled';
+    const opts = {
+      manager,
+      changedBy: actor,
+      reason: `Agendada (cita ${entry.id})`,
+      metadata: { agendaId: entry.id, date: toDateKeyCL(entry.startAt), timeFrom: toTimeCL(entry.startAt), timeTo: toTimeCL(entry.endAt) },
+    };
+    // Reprogramar una cita confirmada (o tras `failed`) es una reapertura; si no, se avanza paso a paso
+    if (canReopen(request.status, target)) {
+      await this.statusService.reopen(request.id, target, opts);
+    } else if (lifecyclePath(request.status, target).length > 0) {
+      await this.statusService.advance(request.id, target, opts);
+    }
+  }
+
+  // Al cancelar: si la solicitud sigue con la ventana de esta cita, se libera y vuelve a esperar fecha
+  private async releaseRequest(manager: EntityManager, entry: Agenda, actor: string, reason: string | null): Promise<void> {
+    const request = await manager.getRepository(InstallationRequest).findOne({ where: { id: entry.installationRequestId } });
+    if (!request) return;
+    const agreedAt = request.agreedInstallationDate ? new Date(request.agreedInstallationDate).getTime() : null;
+    if (agreedAt !== new Date(entry.startAt).getTime()) return;
+
+    await manager.getRepository(InstallationRequest).update(request.id, {
+      agreedInstallationDate: null,
+      agreedTimeFrom: null,
+      agreedTimeTo: null,
+      confirmedByTechnician: false,
+    });
+
+    if (request.status === 'scheduled' || request.status === 'confirmed') {
+      await this.statusService.reopen(request.id, 'received', {
+        manager,
+        changedBy: actor,
+        reason: reason || `Cita ${entry.id} cancelada`,
+        metadata: { agendaId: entry.id },
+      });
+    }
+  }
+
+  public async getEntry(id: number): Promise<AgendaEntryView> {
+    await this.ensureDataSource();
+    const entry = await this.baseQuery().where('a.id = :id', { id }).getOne();
+    if (!entry) throw notFound('Cita no encontrada');
+    return present(entry);
+  }
+
+  public async listEntries(filters: AgendaFilters = {}): Promise<AgendaEntryView[]> {
+    await this.ensureDataSource();
+    const qb = this.baseQuery();
+    if (filters.from) qb.andWhere('a.endAt > :from', { from: zonedDateTimeToUtc(filters.from, '00:00') });
+    if (filters.to) qb.andWhere('a.startAt < :to', { to: zonedDateTimeToUtc(addDaysToDateKey(filters.to, 1), '00:00') });
+    if (filters.technicianId) qb.andWhere('a.technicianId = :technicianId', { technicianId: filters.technicianId });
+    if (filters.installationRequestId) {
+      qb.andWhere('a.installationRequestId = :installationRequestId', { installationRequestId: filters.installationRequestId });
+    }
+    if (filters.status?.length) qb.andWhere('a.status IN (:...status)', { status: filters.status });
+    const entries = await qb
+      .orderBy('a.startAt', 'ASC')
+      .addOrderBy('a.id', 'ASC')
+      .take(Math.min(Math.max(filters.limit ?? 500, 1), 2000))
+      .getMany();
+    return entries.map(present);
+  }
+
+  /**
+   * Con `enforceCapacity` (reservas desde /agenda/book) además se exige el horario, la zona,
+   * el cupo diario y el margen de traslado del técnico.
+   */
+  public async createEntry(input: AgendaEntryInput, actor: string, opts: { enforceCapacity?: boolean } = {}): Promise<AgendaEntryView> {
+    const errors: FieldErrors = {};
+    const installationRequestId = parsePositiveInt(input.installationRequestId);
+    const technicianId = parsePositiveInt(input.technicianId);
+    if (!installationRequestId) errors.installationRequestId = ['installationRequestId es requerido'];
+    if (!technicianId) errors.technicianId = ['technicianId es requerido'];
+    const status = input.status === undefined ? 'scheduled' : input.status;
+    if (!isAgendaStatus(status) || CLOSED_AGENDA_STATUSES.includes(status)) {
+      errors.status = ['status debe ser scheduled, confirmed o in_progress'];
+    }
+    let window: { startAt: Date; endAt: Date } | null = null;
+    try {
+      window = this.parseWindow(input, agendaConfig.defaultDurationMinutes);
+      if (!window) errors.startAt = ['Indique startAt o date + timeFrom'];
+    } catch (err: any) {
+      Object.assign(errors, err?.data?.errors ?? {});
+    }
+    if (Object.keys(errors).length > 0) throw validationError(errors);
+
+    await this.ensureDataSource();
+    const saved = await AppDataSource.transaction(async (m) => {
+      const request = await m.getRepository(InstallationRequest).findOne({ where: { id: installationRequestId as number } });
+      if (!request) throw notFound('InstallationRequest no encontrada');
+      if (CLOSED_REQUEST_STATUSES.includes(request.status)) {
+        throw conflict(`La solicitud está en estado "${request.status}" y no se puede agendar`);
+      }
+
+      const technician = await this.lockTechnician(m, technicianId as number);
+      const active = await m
+        .getRepository(Agenda)
+        .createQueryBuilder('a')
+        .where('a.installationRequestId = :id', { id: request.id })
+        .andWhere('a.status NOT IN (:...closed)', { closed: CLOSED_AGENDA_STATUSES })
+        .getOne();
+      if (active) {
+        throw conflict(`La solicitud ya tiene la cita ${active.id}; reprográmela con PATCH /agenda/${active.id}`, { agendaId: active.id });
+      }
+      const { startAt, endAt } = window as { startAt: Date; endAt: Date };
+      if (opts.enforceCapacity) await this.capacityService.assertBookable(m, technician, request, startAt, endAt);
+      await this.assertNoOverlap(m, technician.id, startAt, endAt);
+
+      const repo = m.getRepository(Agenda);
+      const entry = await repo.save(repo.create({
+        installationRequestId: request.id,
+        technicianId: technician.id,
+        startAt,
+        endAt,
+        status: status as AgendaStatus,
+        notes: this.parseNotes(input.notes),
+        clienteNombre: `${request.firstName} ${request.lastName}`.trim(),
+        clienteRut: request.ci,
+        tecnicoNombre: technicianFullName(technician),
+        createdBy: actor,
+      }));
+      await this.syncRequest(m, request, entry, actor);
+      return entry;
+    });
+
+    logger.info(`Agenda: cita ${saved.id} para la solicitud ${saved.installationRequestId} creada por ${actor}`, {
+      technicianId: saved.technicianId,
+      startAt: saved.startAt,
+      endAt: saved.endAt,
+    });
+    return this.getEntry(saved.id);
+  }
+
+  /**
+   * Reserva un cupo de GET /agenda/availability (`date` + `timeFrom` o `startAt`; la duración sale del
+   * plan/zona). Con `technicianId` solo ese técnico; sin él, el primero con capacidad, empezando por el
+   * que tiene menos citas ese día. Cada intento bloquea al técnico, así que dos reservas simultáneas
+   * del mismo cupo no pueden quedar ambas.
+   */
+  public async book(input: AgendaEntryInput, actor: string): Promise<AgendaEntryView> {
+    const installationRequestId = parsePositiveInt(input.installationRequestId);
+    if (!installationRequestId) throw validationError({ installationRequestId: ['installationRequestId es requerido'] });
+    const requestedTechnician = input.technicianId !== undefined ? parsePositiveInt(input.technicianId) : undefined;
+    if (requestedTechnician === null) throw validationError({ technicianId: ['technicianId inválido'] });
+
+    await this.ensureDataSource();
+    const request = await AppDataSource.getRepository(InstallationRequest).findOne({ where: { id: installationRequestId } });
+    if (!request) throw notFound('InstallationRequest no encontrada');
+    if (CLOSED_REQUEST_STATUSES.includes(request.status)) {
+      throw conflict(`La solicitud está en estado "${request.status}" y no se puede agendar`);
+    }
+
+    const zones = [request.city, request.neighborhood];
+    const duration = resolveInstallationDuration(request.plan, zones);
+    const window = this.parseWindow({ startAt: input.startAt, date: input.date, timeFrom: input.timeFrom, durationMinutes: input.durationMinutes }, duration);
+    if (!window) throw validationError({ startAt: ['Indique startAt o date + timeFrom'] });
+
+    let candidates: number[];
+    if (requestedTechnician) {
+      candidates = [requestedTechnician];
+    } else {
+      const technicians = (await AppDataSource.getRepository(Technician).find({ where: { isActive: true }, order: { id: 'ASC' } }))
+        .filter((t) => coversZone(technicianCapacity(t), zones));
+      const dateKey = toDateKeyCL(window.startAt);
+      const counts = new Map<number, number>();
+      for (const entry of await this.listEntries({ from: dateKey, to: dateKey, status: ['scheduled', 'confirmed', 'in_progress'], limit: 2000 })) {
+        if (entry.technicianId) counts.set(entry.technicianId, (counts.get(entry.technicianId) ?? 0) + 1);
+      }
+      candidates = technicians.map((t) => t.id).sort((a, b) => (counts.get(a) ?? 0) - (counts.get(b) ?? 0) || a - b);
+    }
+
+    const rejections: { technicianId: number; reason: string }[] = [];
+    for (const technicianId of candidates) {
+      try {
+        return await this.createEntry(
+          { installationRequestId, technicianId, startAt: window.startAt.toISOString(), endAt: window.endAt.toISOString(), notes: input.notes },
+          actor,
+          { enforceCapacity: true },
+        );
+      } catch (err: any) {
+        // 409 por capacidad: se prueba el siguiente técnico; la cita vigente de la solicitud corta la búsqueda
+        if (err?.statusCode !== 409 || err?.data?.agendaId) throw err;
+        rejections.push({ technicianId, reason: err.message });
+      }
+    }
+    throw conflict(
+      requestedTechnician && rejections[0] ? rejections[0].reason : 'No hay técnicos con capacidad en esa ventana',
+      { rejections },
+    );
+  }
+
+  /**
+   * Reprograma, reasigna o cambia el estado/notas. Las citas completadas o canceladas no se editan.
+   */
+  public async updateEntry(id: number, input: AgendaEntryInput, actor: string): Promise<AgendaEntryView> {
+    if (input.installationRequestId !== undefined) {
+      throw validationError({ installationRequestId: ['No se puede cambiar la solicitud de una cita; cancélela y cree otra'] });
+    }
+    if (input.status === 'cancelled') {
+      return this.cancelEntry(id, this.parseNotes(input.reason), actor);
+    }
+    const errors: FieldErrors = {};
+    if (input.status !== undefined && !isAgendaStatus(input.status)) {
+      errors.status = [`status debe ser uno de: ${AGENDA_STATUSES.join(', ')}`];
+    }
+    const technicianId = input.technicianId !== undefined ? parsePositiveInt(input.technicianId) : undefined;
+    if (technicianId === null) errors.technicianId = ['technicianId inválido'];
+    if (Object.keys(errors).length > 0) throw validationError(errors);
+
+    await this.ensureDataSource();
+    await AppDataSource.transaction(async (m) => {
+      const repo = m.getRepository(Agenda);
+      const entry = await repo.findOne({ where: { id }, lock: { mode: 'pessimistic_write' } });
+      if (!entry) throw notFound('Cita no encontrada');
+      if (CLOSED_AGENDA_STATUSES.includes(entry.status)) {
+        throw conflict(`La cita está en estado "${entry.status}" y no se puede modificar`);
+      }
+
+      const duration = Math.round((new Date(entry.endAt).getTime() - new Date(entry.startAt).getTime()) / 60_000);
+      const window = this.parseWindow(input, duration > 0 ? duration : agendaConfig.defaultDurationMinutes);
+      const previous = { startAt: new Date(entry.startAt).getTime(), endAt: new Date(entry.endAt).getTime(), technicianId: entry.technicianId, status: entry.status };
+
+      if (window) Object.assign(entry, window);
+      if (technicianId) entry.technicianId = technicianId;
+      if (input.status !== undefined) entry.status = input.status as AgendaStatus;
+      if (input.notes !== undefined) entry.notes = this.parseNotes(input.notes);
+      entry.sequence += 1;
+
+      const moved = new Date(entry.startAt).getTime() !== previous.startAt || new Date(entry.endAt).getTime() !== previous.endAt;
+      const reassigned = entry.technicianId !== previous.technicianId;
+      if (!entry.technicianId) throw validationError({ technicianId: ['La cita no tiene técnico; indique technicianId'] });
+      if (moved || reassigned) {
+        const technician = await this.lockTechnician(m, entry.technicianId);
+        entry.tecnicoNombre = technicianFullName(technician);
+        await this.assertNoOverlap(m, technician.id, entry.startAt, entry.endAt, entry.id);
+      }
+      await repo.save(entry);
+
+      // La solicitud refleja la ventana vigente; 'completed' la deja tal como está (la activación la cierra)
+      if (entry.status !== 'completed' && (moved || reassigned || entry.status !== previous.status)) {
+        const request = await m.getRepository(InstallationRequest).findOne({ where: { id: entry.installationRequestId } });
+        if (request && !CLOSED_REQUEST_STATUSES.includes(request.status)) await this.syncRequest(m, request, entry, actor);
+      }
+      logger.info(`Agenda: cita ${id} actualizada por ${actor}`, { moved, reassigned, status: entry.status });
+    });
+    return this.getEntry(id);
+  }
+
+  public async cancelEntry(id: number, reason: string | null, actor: string): Promise<AgendaEntryView> {
+    await this.ensureDataSource();
+    await AppDataSource.transaction(async (m) => {
+      const repo = m.getRepository(Agenda);
+      const entry = await repo.findOne({ where: { id }, lock: { mode: 'pessimistic_write' } });
+      if (!entry) throw notFound('Cita no encontrada');
+      if (entry.status === 'cancelled') return;
+      if (entry.status === 'completed') throw conflict('La cita ya se completó y no se puede cancelar');
+
+      entry.status = 'cancelled';
+      entry.cancelledAt = new Date();
+      entry.cancelReason = reason ? reason.slice(0, 255) : null;
+      entry.sequence += 1;
+      await repo.save(entry);
+      await this.releaseRequest(m, entry, actor, reason);
+      logger.info(`Agenda: cita ${id} cancelada por ${actor}`, { reason });
+    });
+    return this.getEntry(id);
+  }
+
+  /**
+   * Citas de un día (hora de Chile) agrupadas por técnico. Las canceladas solo con `includeCancelled`.
+   */
+  public async dayView(dateKey: string, opts: { technicianId?: number | null; includeCancelled?: boolean } = {}): Promise<AgendaDayView> {
+    const entries = await this.listEntries({
+      from: dateKey,
+      to: dateKey,
+      technicianId: opts.technicianId,
+      status: opts.includeCancelled ? [] : AGENDA_STATUSES.filter((s) => s !== 'cancelled'),
+      limit: 2000,
+    });
+
+    const groups = new Map<number | null, AgendaDayView['technicians'][number]>();
+    for (const entry of entries) {
+      const key = entry.technicianId ?? null;
+      if (!groups.has(key)) {
+        const name = entry.technician ? technicianFullName(entry.technician) : entry.tecnicoNombre || 'Sin técnico';
+        groups.set(key, { technicianId: key, technicianName: name, entries: [] });
+      }
+      groups.get(key)?.entries.push(entry);
+    }
+    const technicians = Array.from(groups.values()).sort((a, b) => a.technicianName.localeCompare(b.technicianName, 'es'));
+    return { date: dateKey, total: entries.length, technicians };
+  }
+
+  /**
+   * Semana de lunes a domingo que contiene `dateKey`, con las citas de cada día.
+   */
+  public async weekView(dateKey: string, opts: { technicianId?: number | null; includeCancelled?: boolean } = {}): Promise<AgendaWeekView> {
+    const from = addDaysToDateKey(dateKey, -((weekdayOfDateKey(dateKey) + 6) % 7));
+    const to = addDaysToDateKey(from, 6);
+    const entries = await this.listEntries({
+      from,
+      to,
+      technicianId: opts.technicianId,
+      status: opts.includeCancelled ? [] : AGENDA_STATUSES.filter((s) => s !== 'cancelled'),
+      limit: 2000,
+    });
+
+    const days = Array.from({ length: 7 }, (_, i) => ({ date: addDaysToDateKey(from, i), entries: [] as AgendaEntryView[] }));
+    for (const entry of entries) {
+      days.find((d) => d.date === entry.date)?.entries.push(entry);
+    }
+    return { from, to, total: entries.length, days };
+  }
+}
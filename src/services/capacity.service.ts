@@ -0,0 +1,254 @@
+import { EntityManager, In } from 'typeorm';
+import AppDataSource, { initializeDataSource } from '../database/data-source';
+import { Agenda } from '../entities/Agenda';
+import { InstallationRequest } from '../entities/InstallationRequest';
+import { Technician } from '../entities/Technician';
+import { agendaConfig, capacityConfig } from '../config';
+import {
+  addDaysToDateKey,
+  minutesToTime,
+  parseDateKey,
+  parseTimeToMinutes,
+  toDateKeyCL,
+  toTimeCL,
+  weekdayOfDateKey,
+  zonedDateTimeToUtc,
+} from '../utils/date';
+import { normalizeText } from '../utils/text';
+
+// =========================================================================
+// CAPACIDAD DE LA AGENDA: horario de los técnicos, duración por plan/zona y cupo diario
+// =========================================================================
+
+export type TechnicianCapacity = {
+  workDays: number[];
+  // Minutos desde medianoche (hora de Chile)
+  workStart: number;
+  workEnd: number;
+  maxDaily: number;
+  zones: string[];
+};
+
+export type AvailabilityQuery = {
+  installationRequestId?: number | null;
+  // Sin solicitud: plan y ciudad/localidad para calcular la duración y la zona
+  plan?: string | null;
+  zone?: string | null;
+  durationMinutes?: number | null;
+  technicianId?: number | null;
+  from?: string | null;
+  days?: number | null;
+  // Por defecto solo se ofrecen las fechas y la ventana que eligió el cliente
+  ignorePreferences?: boolean;
+};
+
+export type AvailabilitySlot = {
+  startAt: Date;
+  endAt: Date;
+  timeFrom: string;
+  timeTo: string;
+  technicians: { id: number; name: string; bookedThatDay: number }[];
+};
+
+export type AvailabilityView = {
+  installationRequestId: number | null;
+  durationMinutes: number;
+  from: string;
+  to: string;
+  days: { date: string; slots: AvailabilitySlot[] }[];
+};
+
+// Citas que ocupan al técnico
+export const ACTIVE_AGENDA_STATUSES = ['scheduled', 'confirmed', 'in_progress'];
+
+function conflict(message: string): Error {
+  return Object.assign(new Error(message), { statusCode: 409 });
+}
+
+// Sin técnico local (p. ej. un ticket asignado solo en Geonet) rigen los valores de CAPACITY_*
+export function technicianCapacity(technician: Technician | null): TechnicianCapacity {
+  return {
+    workDays: technician?.workDays?.length ? technician.workDays : capacityConfig.workDays,
+    workStart: parseTimeToMinutes(technician?.workStart ?? capacityConfig.workStart) ?? 9 * 60,
+    workEnd: parseTimeToMinutes(technician?.workEnd ?? capacityConfig.workEnd) ?? 18 * 60,
+    maxDaily: technician?.maxDailyInstallations ?? capacityConfig.maxDailyInstallations,
+    zones: (technician?.zones ?? []).map(normalizeText).filter(Boolean),
+  };
+}
+
+/**
+ * Duración de la instalación: la mayor entre la regla del plan y la de la zona
+ * (CAPACITY_PLAN_DURATIONS / CAPACITY_ZONE_DURATIONS); sin reglas, AGENDA_DEFAULT_DURATION_MINUTES.
+ */
+export function resolveInstallationDuration(plan: string | null | undefined, zones: Array<string | null | undefined>): number {
+  const planKey = normalizeText(plan ?? '');
+  const zoneKeys = zones.map((zone) => normalizeText(zone ?? '')).filter(Boolean);
+  const matches = [
+    ...capacityConfig.planDurations.filter((rule) => planKey.includes(normalizeText(rule.key))),
+    ...capacityConfig.zoneDurations.filter((rule) => zoneKeys.some((zone) => zone.includes(normalizeText(rule.key)))),
+  ];
+  return matches.length ? Math.max(...matches.map((rule) => rule.minutes)) : agendaConfig.defaultDurationMinutes;
+}
+
+// Un técnico sin zonas atiende todas; sin ciudad/localidad conocida no se filtra
+export function coversZone(capacity: TechnicianCapacity, zones: Array<string | null | undefined>): boolean {
+  const keys = zones.map((zone) => normalizeText(zone ?? '')).filter(Boolean);
+  if (!capacity.zones.length || !keys.length) return true;
+  return keys.some((key) => capacity.zones.some((zone) => key.includes(zone) || zone.includes(key)));
+}
+
+/**
+ * Cupos reservables por técnico y día, y la verificación de capacidad al reservar.
+ */
+export class CapacityService {
+  private async ensureDataSource(): Promise<void> {
+    if (!AppDataSource.isInitialized) {
+      await initializeDataSource();
+    }
+  }
+
+  public async availability(query: AvailabilityQuery): Promise<AvailabilityView> {
+    await this.ensureDataSource();
+
+    let request: InstallationRequest | null = null;
+    if (query.installationRequestId) {
+      request = await AppDataSource.getRepository(InstallationRequest).findOne({ where: { id: query.installationRequestId } });
+      if (!request) throw Object.assign(new Error('InstallationRequest no encontrada'), { statusCode: 404 });
+    }
+    const zones = request ? [request.city, request.neighborhood] : [query.zone];
+    const duration = query.durationMinutes || resolveInstallationDuration(request?.plan ?? query.plan, zones);
+
+    const days = Math.min(Math.max(query.days ?? 7, 1), capacityConfig.maxDays);
+    const from = query.from ?? toDateKeyCL(new Date());
+    const to = addDaysToDateKey(from, days - 1);
+
+    // Preferencias del cliente: fechas elegidas y ventana horaria
+    const usePreferences = !!request && !query.ignorePreferences;
+    const preferredDates = usePreferences
+      ? (request?.installationDates ?? []).map((d) => parseDateKey(d)).filter((d): d is string => !!d)
+      : [];
+    const prefFrom = usePreferences ? parseTimeToMinutes(request?.timeFrom) : null;
+    const prefTo = usePreferences ? parseTimeToMinutes(request?.timeTo) : null;
+
+    const technicians = (await AppDataSource.getRepository(Technician).find({
+      where: query.technicianId ? { id: query.technicianId, isActive: true } : { isActive: true },
+      order: { id: 'ASC' },
+    })).filter((t) => coversZone(technicianCapacity(t), zones));
+
+    const entries = technicians.length
+      ? await AppDataSource.getRepository(Agenda)
+          .createQueryBuilder('a')
+          .where('a.technicianId IN (:...ids)', { ids: technicians.map((t) => t.id) })
+          .andWhere('a.status IN (:...statuses)', { statuses: ACTIVE_AGENDA_STATUSES })
+          .andWhere('a.startAt < :end AND a.endAt > :start', {
+            start: zonedDateTimeToUtc(from, '00:00'),
+            end: zonedDateTimeToUtc(addDaysToDateKey(to, 1), '00:00'),
+          })
+          .getMany()
+      : [];
+
+    const earliest = Date.now() + capacityConfig.minLeadMinutes * 60_000;
+    const buffer = capacityConfig.travelBufferMinutes * 60_000;
+    const step = Math.max(capacityConfig.slotStepMinutes, 5);
+    const result: AvailabilityView['days'] = [];
+
+    for (let i = 0; i < days; i++) {
+      const date = addDaysToDateKey(from, i);
+      const slots = new Map<string, AvailabilitySlot>();
+      if (preferredDates.length && !preferredDates.includes(date)) {
+        result.push({ date, slots: [] });
+        continue;
+      }
+
+      for (const technician of technicians) {
+        const capacity = technicianCapacity(technician);
+        if (!capacity.workDays.includes(weekdayOfDateKey(date))) continue;
+        const busy = entries.filter((e) => e.technicianId === technician.id && toDateKeyCL(new Date(e.startAt)) === date);
+        if (busy.length >= capacity.maxDaily) continue;
+
+        const first = Math.max(capacity.workStart, prefFrom ?? 0);
+        const last = Math.min(capacity.workEnd, prefTo ?? 24 * 60);
+        for (let start = first; start + duration <= last; start += step) {
+          const startAt = zonedDateTimeToUtc(date, minutesToTime(start));
+          const endAt = new Date(startAt.getTime() + duration * 60_000);
+          if (startAt.getTime() < earliest) continue;
+          const clash = busy.some(
+            (e) => new Date(e.startAt).getTime() - buffer < endAt.getTime() && new Date(e.endAt).getTime() + buffer > startAt.getTime(),
+          );
+          if (clash) continue;
+
+          const key = minutesToTime(start);
+          if (!slots.has(key)) {
+            slots.set(key, { startAt, endAt, timeFrom: key, timeTo: toTimeCL(endAt), technicians: [] });
+          }
+          slots.get(key)?.technicians.push({
+            id: technician.id,
+            name: `${technician.firstName} ${technician.lastName}`.trim(),
+            bookedThatDay: busy.length,
+          });
+        }
+      }
+
+      // Primero el técnico con menos citas ese día
+      const ordered = Array.from(slots.values()).sort((a, b) => a.startAt.getTime() - b.startAt.getTime());
+      for (const slot of ordered) slot.technicians.sort((a, b) => a.bookedThatDay - b.bookedThatDay || a.id - b.id);
+      result.push({ date, slots: ordered });
+    }
+
+    return { installationRequestId: request?.id ?? null, durationMinutes: duration, from, to, days: result };
+  }
+
+  /**
+   * Verifica, dentro de la transacción que reserva y con el técnico ya bloqueado, que la ventana
+   * cae en su horario y zona, que no supera su cupo diario y que deja el margen de traslado.
+   * Usa lecturas con bloqueo para ver las reservas recién confirmadas por otras transacciones.
+   */
+  public async assertBookable(
+    manager: EntityManager,
+    technician: Technician,
+    request: InstallationRequest,
+    startAt: Date,
+    endAt: Date,
+  ): Promise<void> {
+    const capacity = technicianCapacity(technician);
+    const name = `${technician.firstName} ${technician.lastName}`.trim();
+    const date = toDateKeyCL(startAt);
+
+    if (!capacity.workDays.includes(weekdayOfDateKey(date))) {
+      throw conflict(`${name} no trabaja ese día`);
+    }
+    const start = parseTimeToMinutes(toTimeCL(startAt)) as number;
+    const end = toDateKeyCL(endAt) === date ? (parseTimeToMinutes(toTimeCL(endAt)) as number) : 24 * 60;
+    if (start < capacity.workStart || end > capacity.workEnd) {
+      throw conflict(`La ventana está fuera del horario de ${name} (${minutesToTime(capacity.workStart)}–${minutesToTime(capacity.workEnd)})`);
+    }
+    if (!coversZone(capacity, [request.city, request.neighborhood])) {
+      throw conflict(`${name} no atiende ${request.city || request.neighborhood}`);
+    }
+    if (startAt.getTime() < Date.now() + capacityConfig.minLeadMinutes * 60_000) {
+      throw conflict(`Se reserva con al menos ${capacityConfig.minLeadMinutes} minutos de anticipación`);
+    }
+
+    const dayEntries = await manager
+      .getRepository(Agenda)
+      .createQueryBuilder('a')
+      .setLock('pessimistic_read')
+      .where({ technicianId: technician.id, status: In(ACTIVE_AGENDA_STATUSES) })
+      .andWhere('a.startAt >= :dayStart AND a.startAt < :dayEnd', {
+        dayStart: zonedDateTimeToUtc(date, '00:00'),
+        dayEnd: zonedDateTimeToUtc(addDaysToDateKey(date, 1), '00:00'),
+      })
+      .getMany();
+    if (dayEntries.length >= capacity.maxDaily) {
+      throw conflict(`${name} ya tiene ${dayEntries.length} instalaciones el ${date} (cupo ${capacity.maxDaily})`);
+    }
+
+    const buffer = capacityConfig.travelBufferMinutes * 60_000;
+    const tooClose = dayEntries.find(
+      (e) => new Date(e.startAt).getTime() - buffer < endAt.getTime() && new Date(e.endAt).getTime() + buffer > startAt.getTime(),
+    );
+    if (tooClose) {
+      throw conflict(`La ventana se cruza con la cita ${tooClose.id} de ${name} o no deja ${capacityConfig.travelBufferMinutes} minutos de traslado`);
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import AppDataSource, { initializeDataSource } from '../database/data-source';
+import { SectorialNode } from '../entities/SectorialNode';
+import { coverageConfig } from '../config';
+import { getAvailablePortsForOdb, getOdbs, normalizePorts } from './smartoltClient';
+import { orderByDistance } from './geoQuery';
+import { LatLng, haversineMeters, parseCoordinates } from '../utils/geo';
+import logger from '../utils/logger';
+
+export type CoverageOdb = {
+  externalId: string;
+  name: string | null;
+  zone: string | null;
+  coordinates: LatLng;
+  distanceMeters: number;
+  // null si SmartOLT no respondió para esta ODB
+  freePorts: number | null;
+};
+
+export type CoverageSectorial = {
+  id: number;
+  nombre: string;
+  tipo: string | null;
+  zona: string | null;
+  coordinates: LatLng;
+  distanceMeters: number;
+};
+
+export type CoverageResult = {
+  coordinates: LatLng;
+  radiusMeters: number;
+  fiberAvailable: boolean;
+  odbs: CoverageOdb[];
+  // Solo cuando no hay fibra con puertos libres dentro del radio
+  nearestSectorial: CoverageSectorial | null;
+};
+
+// SmartOLT no es consistente con los nombres de los campos de posición
+function extractOdbCoordinates(odb: any): LatLng | null {
+  const lat = Number(odb?.latitude ?? odb?.lat);
+  const lng = Number(odb?.longitude ?? odb?.lng ?? odb?.lon);
+  if (Number.isFinite(lat) && Number.isFinite(lng) && (lat !== 0 || lng !== 0)) return { lat, lng };
+  return parseCoordinates(odb?.coordinates ?? odb?.gps ?? null);
+}
+
+/**
+ * Factibilidad técnica para una dirección: CTO/ODB de SmartOLT más cercanas dentro
+ * del radio, con sus puertos libres, o el nodo sectorial inalámbrico más cercano
+ * cuando no hay fibra disponible.
+ */
+export class CoverageService {
+  private async ensureDataSource(): Promise<void> {
+    if (!AppDataSource.isInitialized) {
+      await initializeDataSource();
+    }
+  }
+
+  private async countFreePorts(externalId: string): Promise<number | null> {
+    try {
+      return normalizePorts(await getAvailablePortsForOdb(externalId)).length;
+    } catch (err: any) {
+      logger.warn(`Coverage: no se pudieron obtener puertos libres de la ODB ${externalId}: ${err?.message || err}`);
+      return null;
+    }
+  }
+
+  private async findNearestOdbs(point: LatLng, radiusMeters: number): Promise<CoverageOdb[]> {
+    const odbs: any[] = await getOdbs();
+    const nearby = odbs
+      .map((odb) => {
+        const coordinates = extractOdbCoordinates(odb);
+        if (!coordinates || odb?.id === undefined || odb?.id === null) return null;
+        return {
+          externalId: String(odb.id),
+          name: odb.name ?? null,
+          zone: odb.zone_name ?? null,
+          coordinates,
+          distanceMeters: Math.round(haversineMeters(point, coordinates)),
+        };
+      })
+      .filter((odb): odb is Omit<CoverageOdb, 'freePorts'> => !!odb && odb.distanceMeters <= radiusMeters)
+      .sort((a, b) => a.distanceMeters - b.distanceMeters)
+      .slice(0, coverageConfig.maxOdbs);
+
+    return Promise.all(nearby.map(async (odb) => ({ ...odb, freePorts: await this.countFreePorts(odb.externalId) })));
+  }
+
+  private async findNearestSectorial(point: LatLng): Promise<CoverageSectorial | null> {
+    await this.ensureDataSource();
+    const qb = AppDataSource.getRepository(SectorialNode).createQueryBuilder('s');
+    const { entities, raw } = await orderByDistance(qb, point, 's').limit(1).getRawAndEntities();
+
+    const node = entities[0];
+    if (!node || node.latitude === null || node.longitude === null) return null;
+    return {
+      id: node.id,
+      nombre: node.nombre,
+      tipo: node.tipo,
+      zona: node.zona,
+      coordinates: { lat: node.latitude, lng: node.longitude },
+      distanceMeters: Math.round(Number(raw[0]?.distance_meters ?? haversineMeters(point, { lat: node.latitude, lng: node.longitude }))),
+    };
+  }
+
+  public async check(point: LatLng, radiusMeters = coverageConfig.radiusMeters): Promise<CoverageResult> {
+    const radius = Math.min(radiusMeters, coverageConfig.maxRadiusMeters);
+    const odbs = await this.findNearestOdbs(point, radius);
+    const fiberAvailable = odbs.some((odb) => (odb.freePorts ?? 0) > 0);
+    const nearestSectorial = fiberAvailable ? null : await this.findNearestSectorial(point);
+
+    logger.info(`Coverage: ${point.lat},${point.lng} radio ${radius}m → ${odbs.length} ODB, fibra ${fiberAvailable ? 'sí' : 'no'}`);
+    return { coordinates: point, radiusMeters: radius, fiberAvailable, odbs, nearestSectorial };
+  }
+}
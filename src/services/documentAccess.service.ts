@@ -0,0 +1,179 @@
+import crypto from 'crypto';
+import path from 'path';
+import { Readable } from 'stream';
+import AppDataSource, { initializeDataSource } from '../database/data-source';
+import { DocumentField } from '../entities/InstallationRequest';
+import { InstallationDocument } from '../entities/InstallationDocument';
+import { DocumentAccessLog } from '../entities/DocumentAccessLog';
+import { documentDownloadConfig } from '../config';
+import { FileService } from './file.service';
+import { mimeTypeForFileName } from '../utils/fileType';
+import logger from '../utils/logger';
+
+export const DOCUMENT_VARIANTS = ['normalized', 'original', 'thumbnail'] as const;
+export type DocumentVariant = (typeof DOCUMENT_VARIANTS)[number];
+
+export type AccessContext = {
+  actor?: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+};
+
+export type SignedDownload = {
+  documentId: number;
+  variant: DocumentVariant;
+  expires: number;
+  actor: string;
+  signature: string;
+};
+
+export type DownloadTarget = {
+  stream: Readable;
+  downloadName: string;
+  mimeType: string;
+  size: number;
+};
+
+export function isDocumentVariant(value: unknown): value is DocumentVariant {
+  return typeof value === 'string' && (DOCUMENT_VARIANTS as readonly string[]).includes(value);
+}
+
+function variantFileName(document: InstallationDocument, variant: DocumentVariant): string | null {
+  if (variant === 'original') return document.originalFileName ?? document.fileName;
+  if (variant === 'thumbnail') return document.thumbnailFileName;
+  return document.fileName;
+}
+
+/**
+ * Descarga de documentos de clientes: el personal autenticado pide un enlace firmado (HMAC)
+ * de corta duración y la descarga con ese enlace no requiere otra credencial.
+ * Cada enlace emitido, descarga e intento rechazado queda en document_access_logs.
+ */
+export class DocumentAccessService {
+  private fileService = new FileService();
+
+  private async ensureDataSource(): Promise<void> {
+    if (!AppDataSource.isInitialized) {
+      await initializeDataSource();
+    }
+  }
+
+  private sign(documentId: number, variant: DocumentVariant, expires: number, actor: string): string {
+    return crypto
+      .createHmac('sha256', documentDownloadConfig.signingSecret)
+      .update(`${documentId}.${variant}.${expires}.${actor}`)
+      .digest('base64url');
+  }
+
+  private async log(entry: Partial<DocumentAccessLog> & { action: string }, ctx: AccessContext): Promise<void> {
+    await AppDataSource.getRepository(DocumentAccessLog).save({
+      ...entry,
+      actor: entry.actor ?? ctx.actor ?? null,
+      ip: ctx.ip ? ctx.ip.slice(0, 64) : null,
+      userAgent: ctx.userAgent ? ctx.userAgent.slice(0, 255) : null,
+    });
+  }
+
+  /**
+   * Enlace para la versión vigente (o `version`) del documento. Lanza 404 si no hay archivo
+   * para esa variante (placeholders, miniatura de un PDF) y 503 sin DOCUMENT_URL_SECRET.
+   */
+  public async issueUrl(
+    requestId: number,
+    field: DocumentField,
+    opts: { variant?: DocumentVariant; version?: number | null; baseUrl: string },
+    ctx: AccessContext,
+  ): Promise<{ url: string; expiresAt: Date; document: InstallationDocument; variant: DocumentVariant }> {
+    if (!documentDownloadConfig.signingSecret) {
+      throw Object.assign(new Error('Descarga de documentos no configurada (DOCUMENT_URL_SECRET)'), { statusCode: 503 });
+    }
+    await this.ensureDataSource();
+
+    const variant = opts.variant ?? 'normalized';
+    const document = await AppDataSource.getRepository(InstallationDocument).findOne({
+      where: opts.version
+        ? { installationRequestId: requestId, field, version: opts.version }
+        : { installationRequestId: requestId, field, isCurrent: true },
+      order: { version: 'DESC' },
+    });
+    if (!document) throw Object.assign(new Error('Documento no encontrado'), { statusCode: 404 });
+    if (document.purgedAt) {
+      throw Object.assign(new Error('El documento fue eliminado por la política de retención'), { statusCode: 410 });
+    }
+    if (!variantFileName(document, variant)) {
+      throw Object.assign(new Error(`El documento no tiene archivo ${variant}`), { statusCode: 404 });
+    }
+
+    const actor = ctx.actor || 'staff';
+    const expires = Math.floor(Date.now() / 1000) + documentDownloadConfig.ttlSeconds;
+    const signature = this.sign(document.id, variant, expires, actor);
+    const query = new URLSearchParams({ variant, expires: String(expires), by: actor, sig: signature });
+    const url = `${opts.baseUrl.replace(/\/$/, '')}/documents/${document.id}/download?${query.toString()}`;
+
+    await this.log({ installationRequestId: requestId, documentId: document.id, field, variant, action: 'url_issued' }, { ...ctx, actor });
+    logger.info(`DocumentAccess: enlace ${field} (${variant}) de la solicitud ${requestId} emitido para ${actor}`);
+    return { url, expiresAt: new Date(expires * 1000), document, variant };
+  }
+
+  /**
+   * Valida firma y vigencia del enlace y devuelve el archivo a enviar. Los rechazos también se registran.
+   */
+  public async resolveDownload(link: SignedDownload, ctx: AccessContext): Promise<DownloadTarget> {
+    await this.ensureDataSource();
+    const deny = async (statusCode: number, message: string, document?: InstallationDocument | null) => {
+      await this.log({
+        installationRequestId: document?.installationRequestId ?? null,
+        documentId: link.documentId || null,
+        field: document?.field ?? null,
+        variant: link.variant,
+        action: 'denied',
+        actor: link.actor || null,
+        reason: message,
+      }, ctx);
+      logger.warn(`DocumentAccess: descarga del documento ${link.documentId} rechazada (${message}) desde ${ctx.ip ?? '?'}`);
+      return Object.assign(new Error(message), { statusCode });
+    };
+
+    if (!documentDownloadConfig.signingSecret) {
+      throw Object.assign(new Error('Descarga de documentos no configurada (DOCUMENT_URL_SECRET)'), { statusCode: 503 });
+    }
+    const expected = Buffer.from(this.sign(link.documentId, link.variant, link.expires, link.actor));
+    const given = Buffer.from(String(link.signature || ''));
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+      throw await deny(403, 'Firma inválida');
+    }
+    if (link.expires * 1000 < Date.now()) throw await deny(410, 'El enlace expiró');
+
+    const document = await AppDataSource.getRepository(InstallationDocument).findOne({ where: { id: link.documentId } });
+    const fileName = document ? variantFileName(document, link.variant) : null;
+    const stored = fileName ? await this.fileService.stat(fileName) : null;
+    if (!document || !fileName || !stored) {
+      throw await deny(404, 'Archivo no encontrado', document);
+    }
+
+    await this.log({
+      installationRequestId: document.installationRequestId,
+      documentId: document.id,
+      field: document.field,
+      variant: link.variant,
+      action: 'download',
+      actor: link.actor,
+    }, ctx);
+    logger.info(`DocumentAccess: ${document.field} (${link.variant}) de la solicitud ${document.installationRequestId} descargado con enlace de ${link.actor}`);
+
+    return {
+      stream: await this.fileService.openReadStream(fileName),
+      downloadName: `solicitud-${document.installationRequestId}-${document.field}-v${document.version}${path.extname(fileName)}`,
+      mimeType: mimeTypeForFileName(fileName),
+      size: stored.size,
+    };
+  }
+
+  public async listAccess(requestId: number): Promise<DocumentAccessLog[]> {
+    await this.ensureDataSource();
+    return AppDataSource.getRepository(DocumentAccessLog).find({
+      where: { installationRequestId: requestId },
+      order: { createdAt: 'DESC', id: 'DESC' },
+    });
+  }
+}
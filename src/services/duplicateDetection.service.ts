@@ -0,0 +1,436 @@
+import { Brackets, DeepPartial, EntityManager } from 'typeorm';
+import AppDataSource, { initializeDataSource } from '../database/data-source';
+import { DOCUMENT_FIELDS, DocumentField, InstallationRequest } from '../entities/InstallationRequest';
+import { InstallationDocument } from '../entities/InstallationDocument';
+import { duplicateConfig } from '../config';
+import { normalizeRut } from '../utils/rut';
+import { calculateSimilarityScore, normalizeText } from '../utils/text';
+import logger from '../utils/logger';
+
+// =========================================================================
+// DETECCIÓN DE SOLICITUDES DUPLICADAS (más allá del RUT exacto)
+// =========================================================================
+
+export type DuplicateReason = 'ci' | 'ci_typo' | 'email' | 'phone' | 'address' | 'name';
+
+export type DuplicateMatch = {
+  id: number;
+  score: number;
+  reasons: DuplicateReason[];
+};
+
+export type DuplicateCheckResult = {
+  action: 'none' | 'warn' | 'block';
+  matches: DuplicateMatch[];
+};
+
+export type DuplicateCluster = {
+  ids: number[];
+  maxScore: number;
+  pairs: { a: number; b: number; score: number; reasons: DuplicateReason[] }[];
+  requests: Partial<InstallationRequest>[];
+};
+
+// Peso de cada señal en el puntaje final (se satura en 1)
+const WEIGHTS: Record<DuplicateReason, number> = {
+  ci: 1,
+  ci_typo: 0.45,
+  email: 0.45,
+  phone: 0.35,
+  address: 0.3,
+  name: 0.25,
+};
+
+// Columnas necesarias para comparar; nunca se cargan los documentos
+const COMPARE_COLUMNS = [
+  'id',
+  'firstName',
+  'lastName',
+  'ci',
+  'ciNormalized',
+  'email',
+  'phone',
+  'additionalPhone',
+  'address',
+  'city',
+  'neighborhood',
+  'status',
+  'createdAt',
+] as const;
+
+// Bloques más grandes que esto (apellidos muy comunes) se comparan solo por otras claves
+const MAX_BLOCK_SIZE = 500;
+
+// Campos que se copian desde la solicitud absorbida cuando la que se conserva no los tiene
+const MERGEABLE_FIELDS = [
+  'coordinates',
+  'latitude',
+  'longitude',
+  'neighborhood',
+  'city',
+  'postalCode',
+  'phone',
+  'additionalPhone',
+  'timeFrom',
+  'timeTo',
+  'idFront',
+  'idBack',
+  'addressProof',
+  'coupon',
+  'plan',
+  'agreedInstallationDate',
+  'agreedTimeFrom',
+  'agreedTimeTo',
+  'technicianNotes',
+  'geonetClientId',
+] as const;
+
+type Comparable = Pick<
+  InstallationRequest,
+  'firstName' | 'lastName' | 'ci' | 'email' | 'phone' | 'additionalPhone' | 'address'
+> & { id?: number; ciNormalized?: string | null };
+
+type Normalized = {
+  id: number;
+  rut: string | null;
+  email: string;
+  phones: string[];
+  address: string;
+  addressNumbers: string[];
+  name: string;
+  surname: string;
+};
+
+export function normalizeEmail(value: string | null | undefined): string {
+  return String(value ?? '').trim().toLowerCase();
+}
+
+/**
+ * Últimos 8 dígitos: iguala "+56 9 1234 5678", "912345678" y "12345678".
+ */
+export function normalizePhone(value: string | null | undefined): string {
+  const digits = String(value ?? '').replace(/\D/g, '');
+  return digits.length >= 8 ? digits.slice(-8) : '';
+}
+
+export function normalizeAddress(value: string | null | undefined): string {
+  return normalizeText(String(value ?? ''))
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\b(calle|pasaje|psje|avenida|av|depto|dpto|casa|n|nro|numero)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Distancia de edición acotada a 1 (sustitución, inserción, borrado o transposición)
+function isOneEditApart(a: string, b: string): boolean {
+  if (a === b || Math.abs(a.length - b.length) > 1) return false;
+  if (a.length === b.length) {
+    const diffs: number[] = [];
+    for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) diffs.push(i);
+    if (diffs.length === 1) return true;
+    return diffs.length === 2 && diffs[1] === diffs[0] + 1 && a[diffs[0]] === b[diffs[1]] && a[diffs[1]] === b[diffs[0]];
+  }
+  const [short, long] = a.length < b.length ? [a, b] : [b, a];
+  let i = 0;
+  while (i < short.length && short[i] === long[i]) i++;
+  return short.slice(i) === long.slice(i + 1);
+}
+
+function normalize(request: Comparable): Normalized {
+  const address = normalizeAddress(request.address);
+  const name = normalizeText(`${request.firstName ?? ''} ${request.lastName ?? ''}`);
+  return {
+    id: request.id ?? 0,
+    rut: request.ciNormalized ?? normalizeRut(request.ci),
+    email: normalizeEmail(request.email),
+    phones: [normalizePhone(request.phone), normalizePhone(request.additionalPhone)].filter(Boolean),
+    address,
+    addressNumbers: address.match(/\d+/g) ?? [],
+    name,
+    surname: normalizeText(String(request.lastName ?? '')).split(' ')[0] ?? '',
+  };
+}
+
+function scorePair(a: Normalized, b: Normalized): { score: number; reasons: DuplicateReason[] } {
+  const reasons: DuplicateReason[] = [];
+  let score = 0;
+
+  if (a.rut && b.rut) {
+    if (a.rut === b.rut) {
+      reasons.push('ci');
+      score += WEIGHTS.ci;
+    } else if (isOneEditApart(a.rut, b.rut)) {
+      reasons.push('ci_typo');
+      score += WEIGHTS.ci_typo;
+    }
+  }
+
+  if (a.email && a.email === b.email) {
+    reasons.push('email');
+    score += WEIGHTS.email;
+  }
+
+  if (a.phones.some((p) => b.phones.includes(p))) {
+    reasons.push('phone');
+    score += WEIGHTS.phone;
+  }
+
+  if (a.address && b.address) {
+    let similarity = Math.max(calculateSimilarityScore(a.address, b.address), calculateSimilarityScore(b.address, a.address));
+    // Misma calle con otra numeración no es la misma casa
+    if (a.addressNumbers.length && b.addressNumbers.length && !a.addressNumbers.some((n) => b.addressNumbers.includes(n))) {
+      similarity /= 2;
+    }
+    if (similarity >= 0.6) {
+      reasons.push('address');
+      score += WEIGHTS.address * similarity;
+    }
+  }
+
+  if (a.name && b.name) {
+    const similarity = Math.max(calculateSimilarityScore(a.name, b.name), calculateSimilarityScore(b.name, a.name));
+    if (similarity >= 0.5) {
+      reasons.push('name');
+      score += WEIGHTS.name * similarity;
+    }
+  }
+
+  return { score: Math.round(Math.min(score, 1) * 100) / 100, reasons };
+}
+
+/**
+ * Puntúa solicitudes parecidas comparando RUT (incluido un error de tipeo), email,
+ * teléfonos, dirección y nombre normalizados. Sirve para avisar o bloquear al crear,
+ * listar grupos de duplicados y fusionar dos solicitudes.
+ */
+export class DuplicateDetectionService {
+  private async ensureDataSource(): Promise<void> {
+    if (!AppDataSource.isInitialized) {
+      await initializeDataSource();
+    }
+  }
+
+  private classify(score: number): DuplicateCheckResult['action'] {
+    if (score >= duplicateConfig.blockScore) return 'block';
+    if (score >= duplicateConfig.warnScore) return 'warn';
+    return 'none';
+  }
+
+  /**
+   * Compara una solicitud nueva (o editada) contra las existentes no eliminadas.
+   * Los candidatos se prefiltran en SQL por email, teléfono, primer apellido o RUT parecido.
+   */
+  public async check(input: Comparable, excludeId?: number): Promise<DuplicateCheckResult> {
+    await this.ensureDataSource();
+    const target = normalize(input);
+
+    const qb = AppDataSource.getRepository(InstallationRequest)
+      .createQueryBuilder('r')
+      .select(COMPARE_COLUMNS.map((c) => `r.${c}`));
+
+    const conditions: [string, Record<string, string>][] = [];
+    if (target.email) conditions.push(['LOWER(r.email) = :email', { email: target.email }]);
+    target.phones.forEach((phone, i) => {
+      const param = { [`phone${i}`]: `%${phone}` };
+      conditions.push([`REPLACE(REPLACE(REPLACE(r.phone, ' ', ''), '-', ''), '+', '') LIKE :phone${i}`, param]);
+      conditions.push([`REPLACE(REPLACE(REPLACE(r.additionalPhone, ' ', ''), '-', ''), '+', '') LIKE :phone${i}`, param]);
+    });
+    if (target.surname) conditions.push(['r.lastName LIKE :surname', { surname: `${target.surname}%` }]);
+    // Un solo error de tipeo deja intactos los primeros o los últimos 4 caracteres
+    if (target.rut && target.rut.length >= 8) {
+      conditions.push(['r.ciNormalized LIKE :rutHead', { rutHead: `${target.rut.slice(0, 4)}%` }]);
+      conditions.push(['r.ciNormalized LIKE :rutTail', { rutTail: `%${target.rut.slice(-4)}` }]);
+    }
+    if (conditions.length === 0) return { action: 'none', matches: [] };
+
+    qb.where(
+      new Brackets((w) => {
+        for (const [sql, params] of conditions) w.orWhere(sql, params);
+      }),
+    );
+    if (excludeId) qb.andWhere('r.id <> :excludeId', { excludeId });
+
+    const candidates = await qb.getMany();
+    const matches = candidates
+      .map((c) => ({ id: c.id, ...scorePair(target, normalize(c)) }))
+      .filter((m) => m.score >= duplicateConfig.warnScore)
+      .sort((a, b) => b.score - a.score);
+
+    const action = matches.length ? this.classify(matches[0].score) : 'none';
+    return { action, matches };
+  }
+
+  /**
+   * Agrupa las solicitudes no eliminadas cuyo puntaje entre pares supera `minScore`.
+   * Solo se comparan pares que comparten alguna clave (email, teléfono, apellido, RUT).
+   */
+  public async findClusters(minScore = duplicateConfig.warnScore): Promise<DuplicateCluster[]> {
+    await this.ensureDataSource();
+    const rows = await AppDataSource.getRepository(InstallationRequest)
+      .createQueryBuilder('r')
+      .select(COMPARE_COLUMNS.map((c) => `r.${c}`))
+      .getMany();
+
+    const normalized = rows.map((r) => normalize(r));
+    const blocks = new Map<string, number[]>();
+    const addToBlock = (key: string, index: number) => {
+      const block = blocks.get(key) ?? [];
+      block.push(index);
+      blocks.set(key, block);
+    };
+    normalized.forEach((n, i) => {
+      if (n.email) addToBlock(`e:${n.email}`, i);
+      n.phones.forEach((p) => addToBlock(`p:${p}`, i));
+      if (n.surname) addToBlock(`s:${n.surname}`, i);
+      if (n.rut && n.rut.length >= 8) {
+        addToBlock(`rh:${n.rut.slice(0, 4)}`, i);
+        addToBlock(`rt:${n.rut.slice(-4)}`, i);
+      }
+    });
+
+    // Union-find sobre los índices de `rows`
+    const parent = rows.map((_, i) => i);
+    const find = (i: number): number => {
+      let root = i;
+      while (parent[root] !== root) root = parent[root];
+      parent[i] = root;
+      return root;
+    };
+
+    const pairs = new Map<string, DuplicateCluster['pairs'][number]>();
+    for (const block of blocks.values()) {
+      if (block.length < 2 || block.length > MAX_BLOCK_SIZE) continue;
+      for (let x = 0; x < block.length; x++) {
+        for (let y = x + 1; y < block.length; y++) {
+          const [i, j] = [block[x], block[y]];
+          const key = i < j ? `${i}:${j}` : `${j}:${i}`;
+          if (pairs.has(key)) continue;
+          const { score, reasons } = scorePair(normalized[i], normalized[j]);
+          if (score < minScore) continue;
+          pairs.set(key, { a: rows[i].id, b: rows[j].id, score, reasons });
+          parent[find(i)] = find(j);
+        }
+      }
+    }
+
+    const byRoot = new Map<number, DuplicateCluster>();
+    const indexById = new Map(rows.map((r, i) => [r.id, i]));
+    for (const pair of pairs.values()) {
+      const root = find(indexById.get(pair.a) as number);
+      const cluster = byRoot.get(root) ?? { ids: [], maxScore: 0, pairs: [], requests: [] };
+      cluster.pairs.push(pair);
+      cluster.maxScore = Math.max(cluster.maxScore, pair.score);
+      for (const id of [pair.a, pair.b]) {
+        if (!cluster.ids.includes(id)) {
+          cluster.ids.push(id);
+          cluster.requests.push(rows[indexById.get(id) as number]);
+        }
+      }
+      byRoot.set(root, cluster);
+    }
+
+    return [...byRoot.values()]
+      .map((c) => ({ ...c, ids: c.ids.sort((a, b) => a - b) }))
+      .sort((a, b) => b.maxScore - a.maxScore);
+  }
+
+  /**
+   * Fusiona `sourceId` en `targetId`: completa los campos vacíos de la solicitud que se
+   * conserva, une fechas preferidas y comentarios, y elimina (soft-delete) la absorbida.
+   */
+  public async merge(targetId: number, sourceId: number, actor: string): Promise<InstallationRequest> {
+    if (targetId === sourceId) {
+      throw Object.assign(new Error('No se puede fusionar una solicitud consigo misma'), { statusCode: 400 });
+    }
+    await this.ensureDataSource();
+
+    return AppDataSource.transaction(async (m) => {
+      const repo = m.getRepository(InstallationRequest);
+      const [target, source] = await Promise.all([
+        repo.findOne({ where: { id: targetId }, lock: { mode: 'pessimistic_write' } }),
+        repo.findOne({ where: { id: sourceId }, lock: { mode: 'pessimistic_write' } }),
+      ]);
+      if (!target || !source) {
+        throw Object.assign(new Error('InstallationRequest no encontrada'), { statusCode: 404 });
+      }
+      if (source.geonetActivated && !target.geonetActivated) {
+        throw Object.assign(
+          new Error(`La solicitud ${source.id} ya fue activada en Geonet; fusione la ${target.id} en ella`),
+          { statusCode: 409 },
+        );
+      }
+
+      const filled: string[] = [];
+      for (const field of MERGEABLE_FIELDS) {
+        const current = target[field];
+        const incoming = source[field];
+        if ((current === null || current === undefined || current === '') && incoming !== null && incoming !== undefined && incoming !== '') {
+          (target as any)[field] = incoming;
+          filled.push(field);
+        }
+      }
+
+      const adoptedDocuments = DOCUMENT_FIELDS.filter((f) => filled.includes(f));
+      if (adoptedDocuments.length) {
+        target.documentSources = {
+          ...(target.documentSources ?? {}),
+          ...Object.fromEntries(adoptedDocuments.map((f) => [f, 'real'])),
+        };
+        await this.copyCurrentDocuments(m, source.id, target.id, adoptedDocuments);
+      }
+
+      const dates = [...new Set([...(target.installationDates ?? []), ...(source.installationDates ?? [])])];
+      if (dates.length) target.installationDates = dates;
+
+      const sourceComments = String(source.comments ?? '').trim();
+      if (sourceComments && !String(target.comments ?? '').includes(sourceComments)) {
+        target.comments = [String(target.comments ?? '').trim(), `[Fusionada #${source.id}] ${sourceComments}`]
+          .filter(Boolean)
+          .join('\n');
+      }
+
+      if (target.suspectedDuplicateOfId === source.id) {
+        target.suspectedDuplicateOfId = null;
+        target.duplicateScore = null;
+      }
+      const saved = await repo.save(target);
+
+      await repo.update(source.id, {
+        activeCi: null,
+        mergedIntoId: target.id,
+        suspectedDuplicateOfId: null,
+        duplicateScore: null,
+        deletionReason: `Fusionada con la solicitud #${target.id}`,
+        deletedBy: actor,
+      } as DeepPartial<InstallationRequest>);
+      await repo.softDelete(source.id);
+      // Otras solicitudes marcadas como duplicado de la absorbida pasan a apuntar a la conservada
+      await repo.update({ suspectedDuplicateOfId: source.id }, { suspectedDuplicateOfId: target.id });
+
+      logger.info(`DuplicateDetection: solicitud ${source.id} fusionada en ${target.id} por ${actor}`, { filled });
+      return saved;
+    });
+  }
+
+  /**
+   * Copia como versión vigente de la solicitud conservada el documento vigente de la absorbida
+   * para cada campo adoptado; la absorbida conserva su historial.
+   */
+  private async copyCurrentDocuments(m: EntityManager, sourceId: number, targetId: number, fields: DocumentField[]): Promise<void> {
+    const documentRepo = m.getRepository(InstallationDocument);
+    for (const field of fields) {
+      const current = await documentRepo.findOne({ where: { installationRequestId: sourceId, field, isCurrent: true } });
+      if (!current) continue;
+
+      const last = await documentRepo.findOne({ where: { installationRequestId: targetId, field }, order: { version: 'DESC' } });
+      await documentRepo.update({ installationRequestId: targetId, field, isCurrent: true }, { isCurrent: false });
+      const { id: _id, createdAt: _createdAt, ...copy } = current;
+      await documentRepo.save(documentRepo.create({
+        ...copy,
+        installationRequestId: targetId,
+        version: (last?.version ?? 0) + 1,
+        isCurrent: true,
+      }));
+    }
+  }
+}
@@ -1,57 +1,105 @@
-import fs from 'fs';
 import path from 'path';
+import { Readable } from 'stream';
 import { randomUUID } from 'crypto';
 import logger from '../utils/logger';
+import { imageConfig } from '../config';
+import { normalizeImage } from '../utils/image';
+import { detectFileType, mimeTypeForFileName } from '../utils/fileType';
+import { StorageDriver, StoredObject, getStorageDriver } from './storage.service';
 
+export type StoredImage = {
+  // Versión que se referencia en la solicitud y se envía a Wisphub (JPEG normalizado, o el original si no es imagen)
+  fileName: string;
+  originalFileName: string;
+  thumbnailFileName: string | null;
+  // Nombre con el que se subió el archivo
+  originalName: string;
+  mimeType: string | null;
+  size: number;
+  normalized: boolean;
+};
+
+// La limpieza de archivos vencidos la hace FileRetentionService (según referencias en la BD)
 export class FileService {
-  private uploadsDir = path.join(__dirname, '../../uploads');
-  private expirationDays = 30;
+  constructor(private readonly storage: StorageDriver = getStorageDriver()) {}
 
-  constructor() {
-    if (!fs.existsSync(this.uploadsDir)) {
-      fs.mkdirSync(this.uploadsDir, { recursive: true });
-      logger.info(`FileService: created uploads dir at ${this.uploadsDir}`);
-    }
-    this.cleanExpiredFiles();
+  public get driverName(): string {
+    return this.storage.name;
   }
 
-  public saveFile(buffer: Buffer, originalFileName: string): string {
+  public async saveFile(buffer: Buffer, originalFileName: string): Promise<string> {
     const fileExtension = path.extname(originalFileName);
     const fileName = `${randomUUID()}${fileExtension}`;
-    const filePath = path.join(this.uploadsDir, fileName);
 
-    fs.writeFileSync(filePath, buffer);
-    logger.info(`FileService: saved file ${fileName}`);
+    await this.storage.save(fileName, buffer, { contentType: mimeTypeForFileName(fileName) });
+    logger.info(`FileService: saved file ${fileName} (${this.storage.name})`);
     return fileName;
   }
 
-  public deleteFile(fileName: string): void {
+  /**
+   * Guarda la foto original junto a una versión JPEG normalizada y una miniatura
+   * (`<uuid>.orig.<ext>`, `<uuid>.jpg`, `<uuid>.thumb.jpg`). Si el archivo no se puede
+   * procesar como imagen se guarda tal cual y fileName apunta al original.
+   */
+  public async saveImage(buffer: Buffer, originalFileName: string, mimeType: string | null = null): Promise<StoredImage> {
+    const id = randomUUID();
+    // La extensión sale del contenido, no del nombre enviado por el cliente
+    const detected = detectFileType(buffer);
+    const fileExtension = detected?.extensions[0] ?? path.extname(originalFileName);
+    const originalName = `${id}.orig${fileExtension}`;
+
+    let processed: Awaited<ReturnType<typeof normalizeImage>> = null;
+    try {
+      processed = await normalizeImage(buffer, imageConfig);
+    } catch (err: any) {
+      logger.warn(`FileService: could not normalize ${originalFileName}: ${err?.message || err}`);
+    }
+    // Un HEIC sin convertir llevaría su EXIF/GPS a Wisphub y no se ve en la mayoría de los navegadores
+    if (!processed && detected?.kind === 'heic') {
+      throw Object.assign(new Error(`No se pudo convertir la imagen HEIC ${originalFileName}`), { statusCode: 400 });
+    }
+
+    await this.storage.save(originalName, buffer, { contentType: detected?.mimeType ?? mimeType });
+    if (!processed) {
+      logger.info(`FileService: saved file ${originalName} without normalization (${this.storage.name})`);
+      return { fileName: originalName, originalFileName: originalName, thumbnailFileName: null, originalName: originalFileName, mimeType: detected?.mimeType ?? mimeType, size: buffer.length, normalized: false };
+    }
+
+    const fileName = `${id}.jpg`;
+    const thumbnailFileName = `${id}.thumb.jpg`;
+    await this.storage.save(fileName, processed.normalized, { contentType: 'image/jpeg' });
+    await this.storage.save(thumbnailFileName, processed.thumbnail, { contentType: 'image/jpeg' });
+    logger.info(
+      `FileService: saved image ${fileName} (${processed.sourceFormat} ${buffer.length}B → jpeg ${processed.width}x${processed.height} ${processed.normalized.length}B)`,
+    );
+    return { fileName, originalFileName: originalName, thumbnailFileName, originalName: originalFileName, mimeType: 'image/jpeg', size: processed.normalized.length, normalized: true };
+  }
+
+  public async deleteImage(image: StoredImage): Promise<void> {
+    for (const name of new Set([image.fileName, image.originalFileName, image.thumbnailFileName])) {
+      if (name) await this.deleteFile(name);
+    }
+  }
+
+  public async deleteFile(fileName: string): Promise<void> {
     if (!fileName) return;
-    const filePath = path.join(this.uploadsDir, fileName);
-    if (fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath);
+    if (await this.storage.stat(fileName)) {
+      await this.storage.delete(fileName);
       logger.info(`FileService: deleted file ${fileName}`);
     }
   }
 
-  public getFilePath(fileName: string): string {
-    return path.join(this.uploadsDir, fileName);
+  // null si el archivo no existe
+  public async stat(fileName: string): Promise<StoredObject | null> {
+    if (!fileName) return null;
+    return this.storage.stat(fileName);
   }
 
-  private cleanExpiredFiles(): void {
-    const files = fs.readdirSync(this.uploadsDir);
-    const now = Date.now();
-    const expirationTime = this.expirationDays * 24 * 60 * 60 * 1000;
-
-    files.forEach((file) => {
-      const filePath = path.join(this.uploadsDir, file);
-      const stats = fs.statSync(filePath);
-      const fileAge = now - stats.mtimeMs;
+  public async openReadStream(fileName: string): Promise<Readable> {
+    return this.storage.readStream(fileName);
+  }
 
-      if (fileAge > expirationTime) {
-        fs.unlinkSync(filePath);
-        logger.info(`FileService: expired file removed: ${file}`);
-      }
-    });
+  public async listFiles(): Promise<StoredObject[]> {
+    return this.storage.list();
   }
-}
\ No newline at end of file
+}
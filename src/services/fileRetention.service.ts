@@ -0,0 +1,221 @@
+import fs from 'fs';
+import path from 'path';
+import { In } from 'typeorm';
+import AppDataSource, { initializeDataSource } from '../database/data-source';
+import { DOCUMENT_FIELDS, InstallationRequest } from '../entities/InstallationRequest';
+import { InstallationDocument } from '../entities/InstallationDocument';
+import { InstallationStatusHistory } from '../entities/InstallationStatusHistory';
+import { retentionConfig } from '../config';
+import { FileService } from './file.service';
+import logger from '../utils/logger';
+
+// =========================================================================
+// RETENCIÓN DE DOCUMENTOS SEGÚN EL ESTADO DE LA SOLICITUD
+// =========================================================================
+
+export type PurgeReason = 'retention' | 'orphan' | 'placeholder';
+
+export type PurgedFile = {
+  key: string;
+  size: number;
+  reason: PurgeReason;
+  requestIds: number[];
+};
+
+export type RetentionReport = {
+  dryRun: boolean;
+  storage: string;
+  startedAt: string;
+  finishedAt: string | null;
+  policy: { activatedDays: number; cancelledDays: number; orphanGraceHours: number };
+  scannedFiles: number;
+  kept: { openRequest: number; withinRetention: number; recentOrphan: number };
+  purged: PurgedFile[];
+  bytesFreed: number;
+  purgedRequestIds: number[];
+  errors: Array<{ key: string; error: string }>;
+  reportPath: string | null;
+};
+
+type RequestRetention = {
+  id: number;
+  // null = solicitud abierta (se conservan sus documentos)
+  purgeAfter: Date | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CLOSED_STATUSES = ['activated', 'cancelled', 'rejected'];
+
+/**
+ * Elimina del almacenamiento los documentos de solicitudes cerradas una vez vencido el plazo
+ * de retención, los archivos que ninguna solicitud referencia y los placeholders fake_*.
+ * Un archivo compartido (p. ej. copiado al fusionar duplicados) se conserva mientras alguna
+ * de sus solicitudes lo necesite. Cada ejecución deja un reporte JSON.
+ */
+export class FileRetentionService {
+  private fileService = new FileService();
+
+  private async ensureDataSource(): Promise<void> {
+    if (!AppDataSource.isInitialized) {
+      await initializeDataSource();
+    }
+  }
+
+  // Fecha de cierre: último cambio al estado actual en el historial; updatedAt para filas antiguas sin historial
+  private async loadClosedAt(requests: InstallationRequest[]): Promise<Map<number, Date>> {
+    const closed = requests.filter((r) => CLOSED_STATUSES.includes(r.status));
+    const closedAt = new Map<number, Date>(closed.map((r) => [r.id, new Date(r.updatedAt)]));
+    if (!closed.length) return closedAt;
+
+    const rows: Array<{ installationRequestId: number; toStatus: string; closedAt: Date }> = await AppDataSource
+      .getRepository(InstallationStatusHistory)
+      .createQueryBuilder('h')
+      .select('h.installationRequestId', 'installationRequestId')
+      .addSelect('h.toStatus', 'toStatus')
+      .addSelect('MAX(h.createdAt)', 'closedAt')
+      .where('h.toStatus IN (:...statuses)', { statuses: CLOSED_STATUSES })
+      .groupBy('h.installationRequestId')
+      .addGroupBy('h.toStatus')
+      .getRawMany();
+
+    const statusById = new Map(closed.map((r) => [r.id, r.status]));
+    for (const row of rows) {
+      const id = Number(row.installationRequestId);
+      if (statusById.get(id) === row.toStatus) closedAt.set(id, new Date(row.closedAt));
+    }
+    return closedAt;
+  }
+
+  private async loadRetention(): Promise<{ byFile: Map<string, RequestRetention[]>; documents: InstallationDocument[] }> {
+    const requests = await AppDataSource.getRepository(InstallationRequest).find({
+      select: ['id', 'status', 'updatedAt', 'deletedAt', ...DOCUMENT_FIELDS],
+      withDeleted: true,
+    });
+    const closedAt = await this.loadClosedAt(requests);
+
+    const retentionById = new Map<number, RequestRetention>();
+    for (const r of requests) {
+      let purgeAfter: Date | null = null;
+      if (r.deletedAt) {
+        purgeAfter = new Date(new Date(r.deletedAt).getTime() + retentionConfig.cancelledDays * DAY_MS);
+      } else if (closedAt.has(r.id)) {
+        const days = r.status === 'activated' ? retentionConfig.activatedDays : retentionConfig.cancelledDays;
+        purgeAfter = new Date((closedAt.get(r.id) as Date).getTime() + days * DAY_MS);
+      }
+      retentionById.set(r.id, { id: r.id, purgeAfter });
+    }
+
+    const byFile = new Map<string, RequestRetention[]>();
+    const reference = (key: string | null | undefined, requestId: number) => {
+      const retention = retentionById.get(requestId);
+      // Documento de una solicitud que ya no existe: sin dueño, no protege el archivo
+      if (!key || !retention) return;
+      const refs = byFile.get(key) ?? [];
+      if (!refs.some((ref) => ref.id === requestId)) refs.push(retention);
+      byFile.set(key, refs);
+    };
+
+    for (const r of requests) {
+      for (const field of DOCUMENT_FIELDS) reference(r[field] as string | null, r.id);
+    }
+    const documents = await AppDataSource.getRepository(InstallationDocument).find();
+    for (const doc of documents) {
+      reference(doc.fileName, doc.installationRequestId);
+      reference(doc.originalFileName, doc.installationRequestId);
+      reference(doc.thumbnailFileName, doc.installationRequestId);
+    }
+    return { byFile, documents };
+  }
+
+  private writeReport(report: RetentionReport): string | null {
+    try {
+      const dir = retentionConfig.reportDir || path.join(__dirname, '../../reports/retention');
+      fs.mkdirSync(dir, { recursive: true });
+      const file = path.join(dir, `retention-${report.startedAt.replace(/[:.]/g, '-')}.json`);
+      fs.writeFileSync(file, JSON.stringify(report, null, 2));
+      return file;
+    } catch (err: any) {
+      logger.error(`FileRetention: no se pudo escribir el reporte: ${err?.message || err}`);
+      return null;
+    }
+  }
+
+  public async run(opts: { dryRun?: boolean; now?: Date } = {}): Promise<RetentionReport> {
+    const dryRun = opts.dryRun ?? retentionConfig.dryRun;
+    const now = opts.now ?? new Date();
+    await this.ensureDataSource();
+
+    const report: RetentionReport = {
+      dryRun,
+      storage: this.fileService.driverName,
+      startedAt: now.toISOString(),
+      finishedAt: null,
+      policy: {
+        activatedDays: retentionConfig.activatedDays,
+        cancelledDays: retentionConfig.cancelledDays,
+        orphanGraceHours: retentionConfig.orphanGraceHours,
+      },
+      scannedFiles: 0,
+      kept: { openRequest: 0, withinRetention: 0, recentOrphan: 0 },
+      purged: [],
+      bytesFreed: 0,
+      purgedRequestIds: [],
+      errors: [],
+      reportPath: null,
+    };
+
+    const { byFile, documents } = await this.loadRetention();
+    const files = await this.fileService.listFiles();
+    report.scannedFiles = files.length;
+    const orphanCutoff = now.getTime() - retentionConfig.orphanGraceHours * 60 * 60 * 1000;
+    const purgedRequests = new Set<number>();
+
+    for (const file of files) {
+      const refs = byFile.get(file.key);
+      let reason: PurgeReason;
+      if (refs?.length) {
+        if (refs.some((ref) => !ref.purgeAfter)) {
+          report.kept.openRequest += 1;
+          continue;
+        }
+        if (refs.some((ref) => (ref.purgeAfter as Date).getTime() > now.getTime())) {
+          report.kept.withinRetention += 1;
+          continue;
+        }
+        reason = 'retention';
+      } else {
+        // Sin referencia: puede ser una carga en curso (se guarda antes de la transacción)
+        if (file.modifiedAt.getTime() > orphanCutoff) {
+          report.kept.recentOrphan += 1;
+          continue;
+        }
+        reason = file.key.startsWith('fake_') ? 'placeholder' : 'orphan';
+      }
+
+      const requestIds = (refs ?? []).map((ref) => ref.id);
+      try {
+        if (!dryRun) await this.fileService.deleteFile(file.key);
+        report.purged.push({ key: file.key, size: file.size, reason, requestIds });
+        report.bytesFreed += file.size;
+        requestIds.forEach((id) => purgedRequests.add(id));
+      } catch (err: any) {
+        report.errors.push({ key: file.key, error: String(err?.message || err) });
+      }
+    }
+
+    report.purgedRequestIds = Array.from(purgedRequests).sort((a, b) => a - b);
+    if (!dryRun && report.purgedRequestIds.length) {
+      await AppDataSource.getRepository(InstallationRequest).update({ id: In(report.purgedRequestIds) }, { documentsPurgedAt: now });
+      const purgedKeys = new Set(report.purged.map((p) => p.key));
+      const docIds = documents.filter((d) => d.fileName && purgedKeys.has(d.fileName)).map((d) => d.id);
+      if (docIds.length) await AppDataSource.getRepository(InstallationDocument).update({ id: In(docIds) }, { purgedAt: now });
+    }
+
+    report.finishedAt = new Date().toISOString();
+    report.reportPath = this.writeReport(report);
+    logger.info(
+      `FileRetention: ${report.purged.length}/${report.scannedFiles} archivos ${dryRun ? 'a eliminar (dry-run)' : 'eliminados'}, ${report.bytesFreed} bytes, ${report.errors.length} errores`,
+    );
+    return report;
+  }
+}
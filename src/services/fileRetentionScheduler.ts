@@ -0,0 +1,32 @@
+import cron from 'node-cron';
+import { FileRetentionService } from './fileRetention.service';
+import { retentionConfig } from '../config';
+import logger from '../utils/logger';
+
+export function startFileRetentionScheduler() {
+  if (!retentionConfig.enabled) {
+    logger.warn('FileRetentionScheduler: RETENTION_ENABLED=false — scheduler disabled');
+    return;
+  }
+
+  const service = new FileRetentionService();
+  let running = false;
+
+  const job = cron.schedule(retentionConfig.cron, async () => {
+    // Evita ejecuciones superpuestas si una corrida tarda más que el intervalo
+    if (running) return;
+    running = true;
+    try {
+      const report = await service.run();
+      logger.info(`FileRetentionScheduler: run finished, report at ${report.reportPath ?? '(not written)'}`);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      logger.error(`FileRetentionScheduler: run error: ${errorMsg}`);
+    } finally {
+      running = false;
+    }
+  });
+
+  logger.info(`FileRetentionScheduler: scheduled with "${retentionConfig.cron}"${retentionConfig.dryRun ? ' (dry-run)' : ''}`);
+  return job;
+}
@@ -0,0 +1,54 @@
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { BoundingBox, LatLng, boundingBoxAround } from '../utils/geo';
+
+// =========================================================================
+// CONSULTAS POR UBICACIÓN (entidades con columnas `latitude` / `longitude`)
+// =========================================================================
+
+export function applyBoundingBox<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  box: BoundingBox,
+  alias: string,
+): SelectQueryBuilder<T> {
+  return qb
+    .andWhere(`${alias}.latitude BETWEEN :bboxMinLat AND :bboxMaxLat`, { bboxMinLat: box.minLat, bboxMaxLat: box.maxLat })
+    .andWhere(`${alias}.longitude BETWEEN :bboxMinLng AND :bboxMaxLng`, { bboxMinLng: box.minLng, bboxMaxLng: box.maxLng });
+}
+
+// Distancia en metros calculada por MySQL (ST_Distance_Sphere espera POINT(lng, lat))
+export function distanceSql(alias: string): string {
+  return `ST_Distance_Sphere(POINT(${alias}.longitude, ${alias}.latitude), POINT(:centerLng, :centerLat))`;
+}
+
+/**
+ * Filtra a `radiusMeters` de `center`: primero por la caja que contiene el círculo
+ * (usa el índice lat/lng) y luego por la distancia exacta.
+ */
+export function applyWithinRadius<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  center: LatLng,
+  radiusMeters: number,
+  alias: string,
+): SelectQueryBuilder<T> {
+  applyBoundingBox(qb, boundingBoxAround(center, radiusMeters), alias);
+  return qb.andWhere(`${distanceSql(alias)} <= :radiusMeters`, {
+    centerLat: center.lat,
+    centerLng: center.lng,
+    radiusMeters,
+  });
+}
+
+/**
+ * Ordena por cercanía a `center` (las filas sin posición quedan fuera).
+ */
+export function orderByDistance<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  center: LatLng,
+  alias: string,
+): SelectQueryBuilder<T> {
+  return qb
+    .andWhere(`${alias}.latitude IS NOT NULL AND ${alias}.longitude IS NOT NULL`)
+    .addSelect(distanceSql(alias), 'distance_meters')
+    .setParameters({ centerLat: center.lat, centerLng: center.lng })
+    .orderBy('distance_meters', 'ASC');
+}
@@ -0,0 +1,215 @@
+import fs from 'fs';
+import axios from 'axios';
+import AppDataSource, { initializeDataSource } from '../database/data-source';
+import { InstallationRequest } from '../entities/InstallationRequest';
+import { geocodingConfig } from '../config';
+import { LatLng, formatCoordinates, isWithinChile } from '../utils/geo';
+import { normalizeText } from '../utils/text';
+import logger from '../utils/logger';
+
+// =========================================================================
+// GEOCODIFICACIÓN DE DIRECCIONES DE CLIENTES
+// =========================================================================
+
+export type GeocodeQuery = {
+  address: string;
+  neighborhood?: string | null;
+  city?: string | null;
+};
+
+export type GeocodeResult = LatLng & {
+  // 0..1 según la precisión del resultado (casa, calle, barrio, ciudad)
+  confidence: number;
+  displayName?: string | null;
+};
+
+export interface GeocodingProvider {
+  readonly name: string;
+  geocode(query: GeocodeQuery): Promise<GeocodeResult | null>;
+}
+
+export function formatGeocodeQuery(query: GeocodeQuery): string {
+  return [query.address, query.neighborhood, query.city, 'Chile']
+    .map((part) => String(part ?? '').trim())
+    .filter(Boolean)
+    .join(', ');
+}
+
+// place_rank de Nominatim: 30 = casa/edificio, 26-27 = calle, 16-25 = barrio/localidad, <16 = ciudad o más
+function confidenceFromPlaceRank(rank: number): number {
+  if (rank >= 30) return 0.9;
+  if (rank >= 26) return 0.6;
+  if (rank >= 16) return 0.35;
+  return 0.15;
+}
+
+/**
+ * Proveedor compatible con la API /search de Nominatim (OpenStreetMap o instancia propia).
+ * Las llamadas se serializan respetando `minIntervalMs` (la instancia pública admite 1 req/s).
+ */
+export class NominatimGeocodingProvider implements GeocodingProvider {
+  public readonly name = 'nominatim';
+  private queue: Promise<unknown> = Promise.resolve();
+  private lastCallAt = 0;
+
+  constructor(
+    private readonly baseUrl = geocodingConfig.nominatimUrl,
+    private readonly minIntervalMs = geocodingConfig.minIntervalMs,
+  ) {}
+
+  private throttle<T>(fn: () => Promise<T>): Promise<T> {
+    const run = async () => {
+      const wait = this.lastCallAt + this.minIntervalMs - Date.now();
+      if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+      this.lastCallAt = Date.now();
+      return fn();
+    };
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  public async geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+    const { data } = await this.throttle(() =>
+      axios.get(`${this.baseUrl.replace(/\/$/, '')}/search`, {
+        params: {
+          q: formatGeocodeQuery(query),
+          format: 'jsonv2',
+          countrycodes: 'cl',
+          limit: 1,
+          ...(geocodingConfig.email ? { email: geocodingConfig.email } : {}),
+        },
+        headers: { 'User-Agent': geocodingConfig.userAgent, Accept: 'application/json' },
+        timeout: geocodingConfig.timeoutMs,
+      }),
+    );
+
+    const first = Array.isArray(data) ? data[0] : null;
+    if (!first) return null;
+    const lat = Number(first.lat);
+    const lng = Number(first.lon);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+
+    return {
+      lat,
+      lng,
+      confidence: confidenceFromPlaceRank(Number(first.place_rank ?? 0)),
+      displayName: first.display_name ?? null,
+    };
+  }
+}
+
+/**
+ * Proveedor local para desarrollo y pruebas: responde desde un mapa fijo indexado por la
+ * consulta normalizada ("los aromos 123, temuco, chile"). Sin coincidencia devuelve null.
+ */
+export class FixtureGeocodingProvider implements GeocodingProvider {
+  public readonly name = 'fixture';
+  private fixtures: Map<string, GeocodeResult>;
+
+  constructor(fixtures: Record<string, GeocodeResult> = {}) {
+    this.fixtures = new Map(Object.entries(fixtures).map(([k, v]) => [normalizeText(k), v]));
+  }
+
+  public static fromFile(filePath: string): FixtureGeocodingProvider {
+    if (!filePath || !fs.existsSync(filePath)) {
+      logger.warn(`Geocoding: archivo de fixtures no encontrado (${filePath || 'sin configurar'})`);
+      return new FixtureGeocodingProvider();
+    }
+    return new FixtureGeocodingProvider(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+  }
+
+  public async geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+    return this.fixtures.get(normalizeText(formatGeocodeQuery(query))) ?? this.fixtures.get(normalizeText(query.address)) ?? null;
+  }
+}
+
+export function createGeocodingProvider(): GeocodingProvider | null {
+  switch (geocodingConfig.provider) {
+    case 'nominatim':
+      return new NominatimGeocodingProvider();
+    case 'fixture':
+      return FixtureGeocodingProvider.fromFile(geocodingConfig.fixturePath);
+    case 'none':
+    case '':
+      return null;
+    default:
+      logger.warn(`Geocoding: proveedor desconocido "${geocodingConfig.provider}", geocodificación desactivada`);
+      return null;
+  }
+}
+
+// Un solo proveedor por proceso para que el límite de frecuencia sea global
+let defaultProvider: GeocodingProvider | null | undefined;
+
+export function getDefaultGeocodingProvider(): GeocodingProvider | null {
+  if (defaultProvider === undefined) defaultProvider = createGeocodingProvider();
+  return defaultProvider;
+}
+
+/**
+ * Completa latitude/longitude de las solicitudes que llegaron solo con dirección.
+ */
+export class GeocodingService {
+  constructor(private readonly provider: GeocodingProvider | null = getDefaultGeocodingProvider()) {}
+
+  private async ensureDataSource(): Promise<void> {
+    if (!AppDataSource.isInitialized) {
+      await initializeDataSource();
+    }
+  }
+
+  /**
+   * Geocodifica la solicitud. Sin `force` no toca solicitudes que ya tienen posición (409).
+   * Lanza 422 si el proveedor no encuentra la dirección o la ubica fuera de Chile.
+   */
+  public async geocodeRequest(id: number, opts: { force?: boolean } = {}): Promise<InstallationRequest> {
+    if (!this.provider) {
+      throw Object.assign(new Error('Geocodificación desactivada (GEOCODING_PROVIDER=none)'), { statusCode: 503 });
+    }
+    await this.ensureDataSource();
+    const repo = AppDataSource.getRepository(InstallationRequest);
+    const request = await repo.findOne({ where: { id } });
+    if (!request) throw Object.assign(new Error('InstallationRequest no encontrada'), { statusCode: 404 });
+
+    if (request.latitude !== null && request.longitude !== null && !opts.force) {
+      throw Object.assign(new Error('La solicitud ya tiene coordenadas; use force=true para volver a geocodificar'), { statusCode: 409 });
+    }
+    if (!request.address?.trim()) {
+      throw Object.assign(new Error('La solicitud no tiene dirección'), { statusCode: 422 });
+    }
+
+    const result = await this.provider.geocode({ address: request.address, neighborhood: request.neighborhood, city: request.city });
+    if (!result || !isWithinChile(result)) {
+      logger.warn(`Geocoding: sin resultado para la solicitud ${id} (${request.address}, ${request.city ?? ''})`);
+      throw Object.assign(new Error('No se pudo geocodificar la dirección'), { statusCode: 422 });
+    }
+
+    // Solo se escriben los campos de posición para no pisar ediciones concurrentes
+    const position = {
+      coordinates: formatCoordinates(result),
+      latitude: result.lat,
+      longitude: result.lng,
+      geocodeSource: this.provider.name,
+      geocodeConfidence: result.confidence,
+      geocodedAt: new Date(),
+    };
+    await repo.update(id, position);
+    const saved = Object.assign(request, position);
+
+    logger.info(`Geocoding: solicitud ${id} ubicada en ${position.coordinates} (${this.provider.name}, confianza ${result.confidence})`);
+    return saved;
+  }
+
+  /**
+   * Geocodificación en segundo plano después de crear la solicitud; los errores solo se registran.
+   */
+  public schedule(id: number, opts: { force?: boolean } = {}): void {
+    if (!this.provider) return;
+    setImmediate(() => {
+      this.geocodeRequest(id, opts).catch((err: any) => {
+        logger.warn(`Geocoding: no se pudo geocodificar la solicitud ${id}: ${err?.message || err}`);
+      });
+    });
+  }
+}
@@ -2,6 +2,7 @@ import AppDataSource, { initializeDataSource } from '../database/data-source';
 import { SectorialNode } from '../entities/SectorialNode';
 import * as cheerio from 'cheerio';
 import logger from '../utils/logger';
+import { parseChileanCoordinates } from '../utils/geo';
 import { In, Not } from 'typeorm';
 import puppeteer, { Browser, Page } from 'puppeteer-core';
 
@@ -302,6 +303,12 @@ private async ensureSession(page: Page, opts?: { force?: boolean }): Promise<boo
         entity.password = clean(getVal('Password'));
         entity.zona = clean(getVal('Zona')); 
         entity.coordenadas = clean(getVal('Coordenadas')); 
+        const position = parseChileanCoordinates(entity.coordenadas);
+        if (entity.coordenadas && !position.ok) {
+            logger.warn(`Sectorial "${clean(getVal('Nombre'))}": coordenadas descartadas (${entity.coordenadas})`);
+        }
+        entity.latitude = position.ok ? position.point.lat : null;
+        entity.longitude = position.ok ? position.point.lng : null;
         entity.totalClientes = cleanNum(getVal('Total de Clientes'));
         entity.ssid = clean(getVal('SSID'));
         entity.frecuencias = clean(getVal('Frecuencia'));
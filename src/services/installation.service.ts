@@ -1,11 +1,28 @@
 import AppDataSource, { initializeDataSource } from '../database/data-source';
-import { InstallationRequest } from '../entities/InstallationRequest';
+import { DocumentField, DocumentSource, InstallationRequest } from '../entities/InstallationRequest';
 import { SmartoltOnuDetail } from '../entities/SmartOltDetail';
 import { SectorialNode } from '../entities/SectorialNode';
-import { FileService } from './file.service';
+import { StoredImage } from './file.service';
+import { InstallationStatusService } from './installationStatus.service';
+import { DuplicateDetectionService } from './duplicateDetection.service';
+import { GeocodingService } from './geocoding.service';
+import { InstallationDocumentService } from './installationDocument.service';
+import { NotificationService } from './notification.service';
+import { PublicStatusService } from './publicStatus.service';
+import { WisphubOutboxOutcome, WisphubOutboxService, isWisphubConfigured } from './wisphubOutbox.service';
+import { EditableField, coordinatesErrorMessage, validationError } from './installationValidation';
+import { formatRut, isValidRut, normalizeRut } from '../utils/rut';
+import { calculateSimilarityScore, normalizeText } from '../utils/text';
+import { LatLng, formatCoordinates, parseChileanCoordinates, parseCoordinates } from '../utils/geo';
+import { formatDateTimeCL } from '../utils/date';
+import {
+  InstallationRequestListQuery,
+  PaginatedResult,
+  buildPaginatedResult,
+  createInstallationListQueryBuilder,
+} from './installationQuery';
 import { DeepPartial, In, Not } from 'typeorm';
 import fs from 'fs';
-import FormData from 'form-data';
 import axios from 'axios';
 import * as cheerio from 'cheerio';
 import puppeteer, { Browser, Page } from 'puppeteer-core';
@@ -13,7 +30,6 @@ import logger from '../utils/logger';
 import { wisphubConfig } from '../config';
 import sharp from 'sharp'; // o import sharp from 'sharp';
 import * as path from 'path';
-import jpeg from 'jpeg-js';
 
 // =========================================================================
 // VARIABLES GLOBALES Y CONFIGURACIÓN (Compartidas por todos los servicios)
@@ -673,6 +689,12 @@ export class GeonetImportService extends GeonetBaseService {
       entity.password = this.clean(getVal('Password'));
       entity.zona = this.clean(getVal('Zona'));
       entity.coordenadas = this.clean(getVal('Coordenadas'));
+      const position = parseChileanCoordinates(entity.coordenadas);
+      if (entity.coordenadas && !position.ok) {
+        logger.warn(`Sectorial "${this.clean(getVal('Nombre'))}": coordenadas descartadas (${entity.coordenadas})`);
+      }
+      entity.latitude = position.ok ? position.point.lat : null;
+      entity.longitude = position.ok ? position.point.lng : null;
       entity.totalClientes = this.cleanNum(getVal('Total de Clientes'));
       entity.ssid = this.clean(getVal('SSID'));
       entity.frecuencias = this.clean(getVal('Frecuencia'));
@@ -724,7 +746,13 @@ export class GeonetImportService extends GeonetBaseService {
 // 2. SERVICIO DE INSTALACIÓN Y TICKETS (Hereda de GeonetBaseService)
 // =========================================================================
 export class InstallationService extends GeonetBaseService {
-  private fileService = new FileService();
+  private statusService = new InstallationStatusService();
+  private duplicateService = new DuplicateDetectionService();
+  private geocodingService = new GeocodingService();
+  private documentService = new InstallationDocumentService();
+  private wisphubOutbox = new WisphubOutboxService();
+  private notificationService = new NotificationService();
+  private publicStatusService = new PublicStatusService();
 
   private async extractSelectOptions(page: Page, selector: string): Promise<SelectOption[]> {
     return page.evaluate((sel) => {
@@ -786,6 +814,12 @@ export class InstallationService extends GeonetBaseService {
         if (!Number.isNaN(parsed.getTime())) {
           resolvedRequest.agreedInstallationDate = parsed;
           await repo.save(resolvedRequest as any);
+          if (resolvedRequest.status === 'received') {
+            await this.statusService.tryTransition(resolvedRequest.id, 'scheduled', {
+              changedBy: technicianName,
+              reason: 'Fecha de instalación acordada en preinstalación',
+            });
+          }
         }
       } catch (e) { }
     }
@@ -798,6 +832,13 @@ export class InstallationService extends GeonetBaseService {
       throw Object.assign(new Error('planName no encontrado'), { statusCode: 400 });
     }
 
+    if (resolvedRequest.status === 'cancelled' || resolvedRequest.status === 'rejected') {
+      throw Object.assign(
+        new Error(`La solicitud ${resolvedRequest.id} está en estado "${resolvedRequest.status}" y no puede activarse`),
+        { statusCode: 409 }
+      );
+    }
+
     // --- Guardia de idempotencia: si ya fue activado en Geonet, no repetir ---
     if (resolvedRequest.geonetActivated) {
       logger.warn(`lookupPreinstallationActivation: cliente ${resolvedRequest.ci} ya fue activado en Geonet (geonetClientId=${resolvedRequest.geonetClientId}). Retornando sin acción.`);
@@ -829,7 +870,7 @@ export class InstallationService extends GeonetBaseService {
         // --- Fallback: scraping de la lista de preinstalaciones ---
         await this.safeGoto(page, `${GEONET_BASE_URL}/preinstalaciones/`);
 
-        const targetTokens = this.normalizeText(clientName).split(' ').filter(Boolean);
+        const targetTokens = normalizeText(clientName).split(' ').filter(Boolean);
         const normalizedCi = rawCi.replace(/\./g, '').toLowerCase().trim();
         const ciDigits = normalizedCi.replace(/[^0-9k]/g, '');
 
@@ -962,17 +1003,30 @@ export class InstallationService extends GeonetBaseService {
       });
 
 
-      const { status: activationPostStatus, ip: firstAvailableIp } = await this.submitGeonetActivation({
-        ...params,
-        page,
-        activationLink,
-        technicianId,
-        planId,
-        installationRequestId: resolvedRequestId,
-        zonaName: zonaValue,
-        routerName: routerValue,
-        apName: apValue
-      });
+      let activationResult: { status: number; ip: string | null };
+      try {
+        activationResult = await this.submitGeonetActivation({
+          ...params,
+          page,
+          activationLink,
+          technicianId,
+          planId,
+          installationRequestId: resolvedRequestId,
+          zonaName: zonaValue,
+          routerName: routerValue,
+          apName: apValue
+        });
+      } catch (activationErr: any) {
+        // Solo el rechazo del formulario por Geonet cuenta como activación fallida
+        if (activationErr?.statusCode === 422) {
+          await this.statusService.tryTransition(resolvedRequestId, 'failed', {
+            changedBy: technicianName,
+            reason: activationErr.message,
+          });
+        }
+        throw activationErr;
+      }
+      const { status: activationPostStatus, ip: firstAvailableIp } = activationResult;
 
       // --- Marcar como activado para evitar duplicados ---
       try {
@@ -981,11 +1035,25 @@ export class InstallationService extends GeonetBaseService {
         await repo.update(resolvedRequestId, {
           geonetActivated: true,
           geonetClientId: geonetClientId ? String(geonetClientId) : null,
+          technicianName: technicianName || null,
         } as any);
         logger.info(`[Activación] marcado geonetActivated=true, geonetClientId=${geonetClientId} para request ${resolvedRequestId}`);
       } catch (saveErr: any) {
         logger.error(`[Activación] no se pudo guardar geonetActivated: ${saveErr?.message}`);
       }
+      // Reintento tras una activación fallida: se reabre antes de completar el ciclo
+      const current = await AppDataSource.getRepository(InstallationRequest).findOne({ where: { id: resolvedRequestId } });
+      if (current?.status === 'failed') {
+        await this.statusService.tryReopen(resolvedRequestId, 'confirmed', {
+          changedBy: technicianName,
+          reason: 'Reintento de activación en Geonet',
+        });
+      }
+      await this.statusService.tryAdvance(resolvedRequestId, 'activated', {
+        changedBy: technicianName,
+        reason: 'Activado en Geonet',
+        metadata: { activationLink, firstAvailableIp },
+      });
 
       logger.info('[Activación] Proceso completado', {
         activationLink,
@@ -1062,29 +1130,10 @@ export class InstallationService extends GeonetBaseService {
   }
 
   private async findInstallationRequestIdByClientCi(clientCi: string): Promise<number | undefined> {
-    await this.ensureDataSource();
-    const repo = AppDataSource.getRepository(InstallationRequest);
-
-    const input = String(clientCi || '').trim();
-    const variants = this.formatRutVariants(input);
-    if (!variants) return undefined;
-
-    logger.info('findInstallationRequestIdByClientCi: candidate/variants', variants);
+    const normalized = normalizeRut(clientCi);
+    if (!normalized) return undefined;
 
-    // Primero intentamos match exacto con el formato preferido (20.954.516-0) y luego sin puntos.
-    for (const exact of [variants.dotted, variants.dashed]) {
-      if (!exact) continue;
-      const direct = await repo.findOne({ where: { ci: exact } });
-      if (direct) {
-        logger.info('findInstallationRequestIdByClientCi: matched direct format', { id: direct.id, dbCi: direct.ci });
-        return direct.id;
-      }
-    }
-
-    // Fallback: comparar normalizando (sin puntos/guiones) para soportar entradas antiguas o inconsistentes.
-    const matches = await repo.createQueryBuilder('r')
-      .where('LOWER(REPLACE(REPLACE(r.ci, ".", ""), "-", "")) = :ci', { ci: `${variants.normalized}` })
-      .getMany();
+    const matches = await this.findRequestsByNormalizedCi(normalized);
 
     if (matches.length === 1) {
       const req = matches[0];
@@ -1093,27 +1142,24 @@ export class InstallationService extends GeonetBaseService {
     }
 
     if (matches.length > 1) {
-      logger.error('findInstallationRequestIdByClientCi: multiple rows matched same CI', { cleanCi: variants.normalized, matches: matches.map(m => ({ id: m.id, ci: m.ci })) });
+      logger.error('findInstallationRequestIdByClientCi: multiple rows matched same CI', { cleanCi: normalized, matches: matches.map(m => ({ id: m.id, ci: m.ci })) });
       throw Object.assign(new Error('Se encontraron múltiples InstallationRequest con el mismo RUT'), { statusCode: 409 });
     }
 
-    logger.info('findInstallationRequestIdByClientCi: no match in DB', { cleanCi: variants.normalized });
+    logger.info('findInstallationRequestIdByClientCi: no match in DB', { cleanCi: normalized });
     return undefined;
   }
 
-  private formatRutVariants(raw: string): { dotted: string; dashed: string; normalized: string } | null {
-    const normalized = raw.replace(/[^0-9kK]/g, '').toLowerCase().trim();
-    if (!normalized) return null;
-
-    const body = normalized.slice(0, -1);
-    const dv = normalized.slice(-1);
-    if (!body) return null;
-
-    const dashed = `${body}-${dv}`;
-    const dottedBody = body.replace(/\B(?=(\d{3})+(?!\d))/g, '.');
-    const dotted = `${dottedBody}-${dv}`;
-
-    return { dotted, dashed, normalized };
+  /**
+   * Solicitudes no eliminadas con el RUT dado (normalizado, ej: "12345678K").
+   * Las filas anteriores al backfill (`ciNormalized` NULL) se comparan limpiando el `ci` guardado.
+   */
+  private async findRequestsByNormalizedCi(normalized: string): Promise<InstallationRequest[]> {
+    await this.ensureDataSource();
+    return AppDataSource.getRepository(InstallationRequest).createQueryBuilder('r')
+      .where('r.ciNormalized = :ci', { ci: normalized })
+      .orWhere('(r.ciNormalized IS NULL AND UPPER(REPLACE(REPLACE(r.ci, ".", ""), "-", "")) = :ci)', { ci: normalized })
+      .getMany();
   }
 
   private async submitGeonetActivation(params: {
@@ -1312,8 +1358,8 @@ export class InstallationService extends GeonetBaseService {
         'perfil-localidad': request.neighborhood || '',
         'perfil-ciudad': request.city || '',
         'perfil-telefono': phoneValue,
-        'cliente-fecha_registro': this.formatDateTimeCL(request.createdAt),
-        'cliente-fecha_instalacion': this.formatDateTimeCL(request.agreedInstallationDate),
+        'cliente-fecha_registro': formatDateTimeCL(request.createdAt),
+        'cliente-fecha_instalacion': formatDateTimeCL(request.agreedInstallationDate),
         'cliente-costo_instalacion': '0',
         'cliente-comentarios': commentsToSend,
         'cliente-cliente_rb': externalIdBase,
@@ -1420,6 +1466,17 @@ export class InstallationService extends GeonetBaseService {
       const isSuccess = !finalUrl.includes('/agregar/');
 
       logger.info(`[Puppeteer] Ticket creado, isSuccess: ${isSuccess}, URL final: ${finalUrl}, t: ${Date.now() - start}ms`);
+      if (isSuccess) {
+        void this.notificationService.emit('ticket.created', {
+          ticketCategoryId: params.ticketCategoryId,
+          tecnicoId: effectiveTecnicoId ?? null,
+          tecnicoName: params.tecnicoName ?? null,
+          fechaInicio: effectiveInicio ?? null,
+          fechaFinal: effectiveFinal ?? null,
+          asunto: params.asunto || asuntoDefaultStr,
+          location: finalUrl,
+        });
+      }
       return { status: isSuccess ? 200 : 400, location: finalUrl };
 
     } catch (error: any) {
@@ -1442,11 +1499,14 @@ export class InstallationService extends GeonetBaseService {
       ]);
 
       const finalUrl = page.url();
-      if (!finalUrl || finalUrl.includes('/eliminar/')) {
+      const deleted = !!finalUrl && !finalUrl.includes('/eliminar/');
+      if (!deleted) {
         const snippet = await page.evaluate(() => document.body.innerText?.substring(0, 400) || '');
         logger.warn(`[Puppeteer][eliminarTicketGeonet] Navegación no completada o URL esperada no alcanzada. URL:${finalUrl} SNIPPET:${snippet}`);
+      } else {
+        void this.notificationService.emit('ticket.deleted', { ticketId: String(params.ticketId), location: finalUrl });
       }
-      return { status: 200, location: finalUrl };
+      return { status: 200, location: finalUrl, deleted };
     } finally {
       await page.close();
     }
@@ -1708,9 +1768,89 @@ public async eliminarInstalacionGeonet(params: { externalId: string }): Promise<
   // API WISPHUB Y AXIOS (Mantenido con API de Axios original)
   // =========================================================================
 
-  public async getAllRequests(): Promise<InstallationRequest[]> {
+  public async listRequests(query: InstallationRequestListQuery): Promise<PaginatedResult<InstallationRequest>> {
+    await this.ensureDataSource();
+    const repo = AppDataSource.getRepository(InstallationRequest);
+    const [rows, total] = await createInstallationListQueryBuilder(repo, query).getManyAndCount();
+    return buildPaginatedResult(rows, total, query);
+  }
+
+  public async getRequestById(id: number): Promise<InstallationRequest> {
+    const request = await this.findInstallationRequestById(id);
+    if (!request) throw Object.assign(new Error('InstallationRequest no encontrada'), { statusCode: 404 });
+    return request;
+  }
+
+  public async getRequestByCi(ci: string): Promise<InstallationRequest> {
+    const id = await this.findInstallationRequestIdByClientCi(ci);
+    if (id === undefined) {
+      throw Object.assign(new Error('No se encontró la InstallationRequest para el RUT proporcionado'), { statusCode: 404 });
+    }
+    return this.getRequestById(id);
+  }
+
+  /**
+   * Aplica cambios ya validados (ver validateInstallationUpdate). Si cambia el RUT se
+   * verifica que no choque con otra solicitud activa.
+   */
+  public async updateRequest(id: number, changes: Partial<Record<EditableField, any>>, actor: string): Promise<InstallationRequest> {
     await this.ensureDataSource();
-    return await AppDataSource.getRepository(InstallationRequest).find();
+    const repo = AppDataSource.getRepository(InstallationRequest);
+    const request = await this.getRequestById(id);
+
+    const ciNormalized = changes.ci !== undefined ? normalizeRut(changes.ci) : null;
+    if (ciNormalized && ciNormalized !== request.ciNormalized) {
+      const duplicates = await this.findRequestsByNormalizedCi(ciNormalized);
+      if (duplicates.some((d) => d.id !== id)) {
+        throw Object.assign(validationError({ ci: [`Ya existe una solicitud registrada con el RUT ${changes.ci}`] }), { statusCode: 409 });
+      }
+    }
+
+    repo.merge(request, changes as DeepPartial<InstallationRequest>);
+    if (changes.coordinates !== undefined) {
+      // Ya validadas y normalizadas por validateInstallationUpdate
+      const position = parseCoordinates(changes.coordinates);
+      request.latitude = position?.lat ?? null;
+      request.longitude = position?.lng ?? null;
+      request.geocodeSource = position ? 'manual' : null;
+      request.geocodeConfidence = position ? 1 : null;
+      request.geocodedAt = null;
+    }
+    // Si la posición vino de un geocodificador y cambió la dirección, se vuelve a calcular
+    const addressChanged = (['address', 'neighborhood', 'city'] as const).some((f) => changes[f] !== undefined);
+    const regeocode = addressChanged && changes.coordinates === undefined
+      && (request.latitude === null || (request.geocodeSource !== 'form' && request.geocodeSource !== 'manual'));
+    if (ciNormalized) {
+      request.ciNormalized = ciNormalized;
+      request.activeCi = ciNormalized;
+    }
+    const saved = await repo.save(request);
+    logger.info(`updateRequest: solicitud ${id} actualizada por ${actor}`, { fields: Object.keys(changes) });
+    if (regeocode) this.geocodingService.schedule(id, { force: true });
+    void this.notificationService.emit('installation.updated', {
+      installationId: id,
+      status: saved.status,
+      changedBy: actor,
+      changes,
+    });
+    return saved;
+  }
+
+  /**
+   * Soft-delete: la fila deja de aparecer en listados y búsquedas, y libera el RUT
+   * (activeCi = NULL) para que el cliente pueda volver a postular.
+   */
+  public async softDeleteRequest(id: number, reason: string, actor: string): Promise<void> {
+    await this.ensureDataSource();
+    const request = await this.getRequestById(id);
+
+    // Motivo y borrado juntos: si falla el segundo no queda una solicitud a medio eliminar
+    await AppDataSource.transaction(async (m) => {
+      const repo = m.getRepository(InstallationRequest);
+      await repo.update(request.id, { activeCi: null, deletionReason: reason, deletedBy: actor });
+      await repo.softDelete(request.id);
+    });
+    logger.info(`softDeleteRequest: solicitud ${id} (RUT ${request.ci}) eliminada por ${actor}: ${reason}`);
   }
 
   private async withRetry<T>(fn: () => Promise<T>, attempts = 3, baseDelayMs = 1000): Promise<T> {
@@ -1742,9 +1882,21 @@ public async createRequest(data: InstallationRequestInput): Promise<Installation
   await this.ensureDataSource();
   const repo = AppDataSource.getRepository(InstallationRequest);
 
-  // --- Validar duplicado de RUT antes de llamar a Wisphub ---
-  if (data.ci) {
-    const existing = await repo.findOne({ where: { ci: data.ci as string } });
+  // --- Validar RUT (módulo 11) y guardarlo en formato canónico ---
+  if (!isValidRut(data.ci as string)) {
+    logger.error(`Invalid CI received: ${data.ci}`);
+    throw Object.assign(new Error('RUT inválido'), {
+      isWisphubError: true,
+      status: 400,
+      data: { ci: [`El RUT ${data.ci ?? ''} no es válido`] },
+    });
+  }
+  data.ci = formatRut(data.ci as string) as string;
+  const ciNormalized = normalizeRut(data.ci) as string;
+
+  // --- Validar duplicado de RUT antes de llamar a Wisphub (solo solicitudes no eliminadas) ---
+  {
+    const [existing] = await this.findRequestsByNormalizedCi(ciNormalized);
     if (existing) {
       logger.error(`Duplicate CI detected: ${data.ci}`);
       throw Object.assign(new Error('RUT duplicado'), {
@@ -1755,105 +1907,135 @@ public async createRequest(data: InstallationRequestInput): Promise<Installation
     }
   }
 
-  // --- Generar imágenes falsas para campos faltantes ---
-  const imageFields = ['idFront', 'idBack', 'addressProof', 'coupon'];
-  const fakeImagePaths: string[] = [];
-
-  // Crear una copia del data para el payload de Wisphub
-  const wisphubPayload = { ...data };
-
-  for (const field of imageFields) {
-    if (!data[field]) { // Si no hay imagen real
-      // Generar una imagen falsa
-      const fakeBuffer = await this.generateFakeImage(field); // método que genera buffer
-      // Guardar temporalmente y obtener la ruta
-      const fakeFilename = `fake_${field}_${Date.now()}.jpg`;
-      const fakePath = this.fileService.saveFile(fakeBuffer, fakeFilename); // asumo que saveFile guarda y retorna la ruta/nombre
-      // Asignar al payload
-      wisphubPayload[field] = fakePath;
-      fakeImagePaths.push(fakePath);
-    }
-  }
-
-  try {
-    // Enviar a Wisphub con el payload que incluye rutas a imágenes falsas o reales
-    const wisphubResult = await this.notifyWisphub(wisphubPayload as any);
-    if (!wisphubResult || (wisphubResult.status !== null && wisphubResult.status >= 400)) {
-      logger.error('Wisphub response:', wisphubResult);
-      throw Object.assign(new Error('Wisphub error'), {
+  // --- Coordenadas: validar que estén en Chile y guardarlas también como latitude/longitude ---
+  let position: LatLng | null = null;
+  if (typeof data.coordinates === 'string' && data.coordinates.trim()) {
+    const parsed = parseChileanCoordinates(data.coordinates);
+    if (!parsed.ok) {
+      logger.error(`Invalid coordinates received: ${data.coordinates}`);
+      throw Object.assign(new Error('Coordenadas inválidas'), {
         isWisphubError: true,
-        status: wisphubResult?.status ?? 400,
-        data: wisphubResult?.data ?? { message: 'Error en Wisphub' },
+        status: 400,
+        data: { coordinates: [coordinatesErrorMessage(parsed.reason)] },
       });
     }
+    position = parsed.point;
+    data.coordinates = formatCoordinates(position);
+  } else {
+    data.coordinates = null;
+  }
 
-    // Guardar en BD con los datos originales (sin las rutas falsas)
-    const saved = await repo.save(repo.create(data as any) as any);
-    return saved;
-  } finally {
-    // Limpiar archivos falsos después de enviar (si ya no son necesarios)
-    await Promise.all(fakeImagePaths.map(async (p) => {
-      try {
-        await fs.promises.unlink(p);
-      } catch (e) {
-        // ignorar error
-      }
-    }));
+  // --- Duplicados aproximados (email, teléfono, dirección, nombre, RUT con error de tipeo) ---
+  const allowDuplicate = data.allowDuplicate === true || String(data.allowDuplicate ?? '').toLowerCase() === 'true';
+  delete data.allowDuplicate;
+  const duplicateCheck = await this.duplicateService.check(data as any);
+  if (duplicateCheck.action === 'block' && !allowDuplicate) {
+    logger.error(`Suspected duplicate blocked for CI ${data.ci}`, { matches: duplicateCheck.matches });
+    throw Object.assign(new Error('Posible solicitud duplicada'), {
+      isWisphubError: true,
+      status: 409,
+      data: {
+        message: 'La solicitud parece duplicada de una existente; reenvíe con allowDuplicate=true para crearla igualmente',
+        duplicates: duplicateCheck.matches,
+      },
+    });
+  }
+  const [topMatch] = duplicateCheck.matches;
+  if (topMatch) {
+    logger.warn(`Suspected duplicate for CI ${data.ci}: request ${topMatch.id} (score ${topMatch.score})`, { reasons: topMatch.reasons });
   }
-}
 
-private async generateFakeImage(fieldName: string): Promise<Buffer> {
-  // Crea una imagen RGB 100x50 blanca
-  const width = 500, height = 500;
-  const frameData = Buffer.alloc(width * height * 4, 0xFF); // RGBA blanco
-  const rawImageData = {
-    data: frameData,
-    width,
-    height,
+  // Original y miniatura de las fotos subidas (solo para el historial de documentos)
+  const documentFiles = data.documentFiles as Partial<Record<DocumentField, StoredImage>> | undefined;
+  delete data.documentFiles;
+
+  const documentSources: Record<DocumentField, DocumentSource> = {
+    idFront: data.idFront ? 'real' : 'placeholder',
+    idBack: data.idBack ? 'real' : 'placeholder',
+    addressProof: data.addressProof ? 'real' : 'placeholder',
+    coupon: data.coupon ? 'real' : 'placeholder',
   };
-  const jpegImageData = jpeg.encode(rawImageData, 80); // calidad 80
-  return jpegImageData.data;
-}
 
-  private appendFile(form: FormData, field: string, fileName: string | null): void {
-    if (!fileName) return;
-    const filePath = this.fileService.getFilePath(fileName);
-    if (fs.existsSync(filePath)) {
-      form.append(field, fs.createReadStream(filePath) as any, fileName);
+  // --- Guardar primero y encolar el envío a Wisphub en la misma transacción ---
+  const wisphubEnabled = isWisphubConfigured();
+  const { saved, outboxEntryId } = await AppDataSource.transaction(async (manager) => {
+    const created = await manager.getRepository(InstallationRequest).save(
+      repo.create({
+        ...(data as any),
+        status: 'received',
+        ciNormalized,
+        activeCi: ciNormalized,
+        latitude: position?.lat ?? null,
+        longitude: position?.lng ?? null,
+        geocodeSource: position ? 'form' : null,
+        geocodeConfidence: position ? 1 : null,
+        suspectedDuplicateOfId: topMatch?.id ?? null,
+        duplicateScore: topMatch?.score ?? null,
+        documentSources,
+        wisphubSyncStatus: wisphubEnabled ? 'pending' : 'skipped',
+      }) as any
+    ) as InstallationRequest;
+    await this.statusService.recordInitial(created, { manager });
+    await this.documentService.recordInitial(created, { manager, files: documentFiles });
+    const entry = wisphubEnabled ? await this.wisphubOutbox.enqueue(created.id, { manager, inline: true }) : null;
+    return { saved: created, outboxEntryId: entry?.id ?? null };
+  });
+
+  // --- Primer intento en línea: los errores de validación de Wisphub (4xx) se devuelven al cliente ---
+  if (outboxEntryId !== null) {
+    let outcome: WisphubOutboxOutcome | null = null;
+    try {
+      outcome = await this.wisphubOutbox.processEntry(outboxEntryId, { rejectOnClientError: true });
+    } catch (err: any) {
+      // La entrada sigue pendiente; el worker la reintenta
+      logger.error(`createRequest: error enviando la solicitud ${saved.id} a Wisphub: ${err?.message || err}`);
+    }
+
+    if (outcome?.entry.status === 'rejected') {
+      logger.error('Wisphub response:', outcome.result);
+      // Se conserva la fila (eliminada) para auditoría y se libera el RUT
+      await this.softDeleteRequest(saved.id, `Rechazada por Wisphub (${outcome.result?.status ?? 'sin estado'})`, 'wisphub');
+      throw Object.assign(new Error('Wisphub error'), {
+        isWisphubError: true,
+        status: outcome.result?.status ?? 400,
+        data: outcome.result?.data ?? { message: 'Error en Wisphub' },
+      });
+    }
+    if (outcome?.request) {
+      Object.assign(saved, {
+        wisphubSyncStatus: outcome.request.wisphubSyncStatus,
+        wisphubRequestId: outcome.request.wisphubRequestId,
+        wisphubSyncedAt: outcome.request.wisphubSyncedAt,
+        wisphubSyncError: outcome.request.wisphubSyncError,
+      });
     }
   }
 
-  private async notifyWisphub(request: InstallationRequest): Promise<{ status: number | null; data: any; skipped?: boolean }> {
-    const { apiUrl, apiKey } = wisphubConfig;
-    if (!apiUrl || !apiKey) return { status: null, data: null, skipped: true };
-
-    const form = new FormData();
-    form.append('firstname', request.firstName || '');
-    form.append('lastname', request.lastName || '');
-    form.append('dni', request.ci || '');
-    form.append('address', request.address || '');
-    form.append('phone_number', request.phone || '');
-    form.append('email', request.email || '');
-    form.append('location', request.neighborhood || '');
-    form.append('city', request.city || '');
-    form.append('postal_code', request.postalCode || '');
-    form.append('aditional_phone_number', request.additionalPhone || '');
-    form.append('commentaries', request.comments || '');
-    form.append('coordenadas', request.coordinates || '');
-
-    this.appendFile(form, 'front_dni_proof', request.idFront as string | null);
-    this.appendFile(form, 'back_dni_proof', request.idBack as string | null);
-    this.appendFile(form, 'proof_of_address', request.addressProof as string | null);
-    this.appendFile(form, 'discount_coupon', request.coupon as string | null);
+  // Sin coordenadas del formulario: ubicar la dirección en segundo plano
+  if (!position) this.geocodingService.schedule(saved.id);
+  return saved;
+}
 
+  /**
+   * Pasos posteriores a createRequest, comunes al formulario y a la importación: código para la consulta
+   * pública de estado y evento `installation.created` (n8n se lo envía al cliente por correo).
+   */
+  public async announceCreated(request: InstallationRequest, extra: Record<string, unknown> = {}): Promise<string | null> {
+    let statusToken: string | null = null;
     try {
-      const response = await axios.post(apiUrl, form, {
-        headers: { ...form.getHeaders(), Authorization: `Api-Key ${apiKey}` },
-      });
-      return { status: response.status, data: response.data };
-    } catch (err: any) {
-      return { status: err?.response?.status ?? null, data: err?.response?.data };
+      statusToken = await this.publicStatusService.issueToken(request.id);
+    } catch (tokenErr) {
+      logger.error(`Error emitiendo el código de consulta de la solicitud ${request.id}: ${String(tokenErr)}`);
     }
+
+    void this.notificationService.emit('installation.created', {
+      installationId: request.id,
+      statusToken,
+      status: request.status,
+      wisphubSyncStatus: request.wisphubSyncStatus,
+      ...extra,
+    });
+    return statusToken;
   }
 
   private getWisphubTicketsUrl(): string {
@@ -1875,7 +2057,7 @@ private async generateFakeImage(fieldName: string): Promise<Buffer> {
 
   private async resolveWisphubStaffByName(params: { staffName: string; apiKey: string; maxPages?: number; limit?: number; }): Promise<{ id: string; nombre: string; email?: string } | null> {
     const { staffName, apiKey, maxPages = 20, limit = 50 } = params;
-    const target = this.normalizeText(String(staffName || ''));
+    const target = normalizeText(String(staffName || ''));
     if (!target) return null;
 
     let nextUrl: string | null = `https://api.wisphub.app/api/staff/?limit=${limit}&offset=0`;
@@ -1894,8 +2076,8 @@ private async generateFakeImage(fieldName: string): Promise<Buffer> {
         const nombre = item?.nombre ? String(item.nombre).trim() : '';
         if (!id || !nombre) continue;
 
-        const normalized = this.normalizeText(nombre);
-        const score = this.calculateSimilarityScore(target, normalized);
+        const normalized = normalizeText(nombre);
+        const score = calculateSimilarityScore(target, normalized);
         if (normalized === target) return { id, nombre, email: item.email };
         if (!best || score > best.score) best = { id, nombre, email: item.email, score };
       }
@@ -1912,7 +2094,7 @@ private async generateFakeImage(fieldName: string): Promise<Buffer> {
   public async findWisphubTicketIdByClientFullName(params: { clientFullName: string; maxPages?: number; }): Promise<{ idTicket: string | null; matches: Array<{ idTicket: string; servicioNombre: string }>; scanned: number; pages: number; }> {
     const { clientFullName, maxPages = 10 } = params;
     const { apiKey } = wisphubConfig;
-    const target = this.normalizeText(String(clientFullName || ''));
+    const target = normalizeText(String(clientFullName || ''));
 
     if (!target) throw Object.assign(new Error('clientFullName es requerido'), { statusCode: 400 });
     if (!apiKey) throw Object.assign(new Error('Wisphub API config missing'), { statusCode: 500 });
@@ -1934,7 +2116,7 @@ private async generateFakeImage(fieldName: string): Promise<Buffer> {
       for (const item of results) {
         const servicioNombre = String(item?.servicio?.nombre || '');
         if (!servicioNombre) continue;
-        const normalized = this.normalizeText(servicioNombre);
+        const normalized = normalizeText(servicioNombre);
 
         if (normalized.includes(target) || target.includes(normalized)) {
           const idCandidate = item?.id_ticket ?? item?.idTicket ?? item?.id ?? null;
@@ -2031,6 +2213,17 @@ private async generateFakeImage(fieldName: string): Promise<Buffer> {
       const isSuccess = !finalUrl.includes('/editar/');
 
       logger.info(`[Puppeteer] Ticket ${params.ticketId} editado, isSuccess: ${isSuccess}, URL final: ${finalUrl}, t: ${Date.now() - start}ms`);
+      if (isSuccess) {
+        void this.notificationService.emit('ticket.edited', {
+          ticketId: String(params.ticketId),
+          tecnicoId: params.tecnicoId ?? null,
+          tecnicoName: params.tecnicoName ?? null,
+          fechaInicio: params.fechaInicio ?? null,
+          fechaFinal: params.fechaFinal ?? null,
+          estado: params.estado ?? null,
+          location: finalUrl,
+        });
+      }
 
       return { status: isSuccess ? 200 : 400, location: finalUrl };
 
@@ -2071,11 +2264,9 @@ private async generateFakeImage(fieldName: string): Promise<Buffer> {
     }
   }
 
-  private normalizeText(value: string): string {
-    return value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ').trim();
-  }
-
   private normalizeCedula(value: string): string {
+    const formatted = formatRut(value, { dots: false });
+    if (formatted) return formatted;
     let s = String(value || '').replace(/\./g, '').trim();
     if (/-k$/i.test(s)) s = s.replace(/-k$/i, '-K');
     return s;
@@ -2085,23 +2276,8 @@ private async generateFakeImage(fieldName: string): Promise<Buffer> {
     return value ? (value.match(/\d+/g) || []) : [];
   }
 
-  private calculateSimilarityScore(target: string, candidate: string): number {
-    if (!target || !candidate) return 0;
-    if (candidate.includes(target)) return 1;
-
-    const targetTokens = new Set(target.split(' ').filter(Boolean));
-    const candidateTokens = new Set(candidate.split(' ').filter(Boolean));
-    if (targetTokens.size === 0 || candidateTokens.size === 0) return 0;
-
-    let overlap = 0;
-    for (const token of targetTokens) {
-      if (candidateTokens.has(token)) overlap += 1;
-    }
-    return overlap / new Set([...targetTokens, ...candidateTokens]).size;
-  }
-
   private findOptionIdObj(options: SelectOption[], optionName: string): string {
-    const target = this.normalizeText(optionName);
+    const target = normalizeText(optionName);
     const targetNumbers = this.extractNumericTokens(target);
     let bestValue = '';
     let bestScore = 0;
@@ -2112,13 +2288,13 @@ private async generateFakeImage(fieldName: string): Promise<Buffer> {
     const locationTokens = ['mirador', 'condominio', 'brisas', 'edificio', 'spliter'];
 
     for (const opt of options) {
-      const normalizedText = this.normalizeText(opt.text);
+      const normalizedText = normalizeText(opt.text);
       if (targetIsEmail) {
         const combined = `${normalizedText} ${opt.title} ${opt.dataEmail} ${opt.value}`.toLowerCase();
         if (combined.includes(target)) return opt.value;
       }
 
-      let score = this.calculateSimilarityScore(target, normalizedText);
+      let score = calculateSimilarityScore(target, normalizedText);
       if (targetNumbers.length > 0) {
         const candidateNumbers = this.extractNumericTokens(normalizedText);
         if (targetNumbers.filter((n) => candidateNumbers.includes(n)).length > 0) score += 0.4;
@@ -2141,28 +2317,6 @@ private async generateFakeImage(fieldName: string): Promise<Buffer> {
     return bestValue;
   }
 
-  private formatDateTimeCL(value: Date | null | undefined): string {
-    if (!value) return '';
-    const date = new Date(value);
-    if (Number.isNaN(date.getTime())) return '';
-
-    try {
-      const opts: Intl.DateTimeFormatOptions = { timeZone: 'America/Santiago', day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false };
-      const parts = new Intl.DateTimeFormat('en-GB', opts).formatToParts(date);
-      const get = (type: string) => parts.find(p => p.type === type)?.value || '';
-      const day = get('day');
-      const month = get('month');
-      const year = get('year');
-      const hour = get('hour');
-      const minute = get('minute');
-      if (!day || !month || !year) return '';
-      return `${day}/${month}/${year} ${hour}:${minute}`;
-    } catch (e) {
-      const pad = (n: number) => String(n).padStart(2, '0');
-      return `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
-    }
-  }
-
   private getActivationIdFromUrl(url: string): string | null {
     return url.match(/\/activar\/[^/]+\/(\d+)\/?$/)?.[1] ?? null;
   }
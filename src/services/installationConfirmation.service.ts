@@ -0,0 +1,187 @@
+import AppDataSource, { initializeDataSource } from '../database/data-source';
+import { InstallationRequest } from '../entities/InstallationRequest';
+import { InstallationStatusService, canReopen } from './installationStatus.service';
+import { NotificationService } from './notification.service';
+import { FieldErrors, validationError } from './installationValidation';
+import { minutesToTime, parseDateKey, parseTimeToMinutes, zonedDateTimeToUtc } from '../utils/date';
+import logger from '../utils/logger';
+
+export type ConfirmationAction = 'confirm' | 'propose';
+
+export type ConfirmationInput = {
+  action: ConfirmationAction;
+  agreedInstallationDate: string;
+  agreedTimeFrom: string;
+  agreedTimeTo: string;
+  technicianNotes?: string | null;
+  technicianName?: string | null;
+  // Solo para propuestas: permite ofrecer una fecha fuera de las preferencias del cliente
+  allowOutsidePreferences?: boolean;
+};
+
+/**
+ * Confirmación o propuesta de fecha/ventana horaria por parte del técnico.
+ * Actualiza los campos `agreed*` de la solicitud, mueve el estado y avisa a n8n.
+ */
+export class InstallationConfirmationService {
+  private statusService = new InstallationStatusService();
+  private notificationService = new NotificationService();
+
+  private async ensureDataSource(): Promise<void> {
+    if (!AppDataSource.isInitialized) {
+      await initializeDataSource();
+    }
+  }
+
+  private async getRequest(id: number): Promise<InstallationRequest> {
+    await this.ensureDataSource();
+    const request = await AppDataSource.getRepository(InstallationRequest).findOne({ where: { id } });
+    if (!request) throw Object.assign(new Error('InstallationRequest no encontrada'), { statusCode: 404 });
+    return request;
+  }
+
+  /**
+   * Valida la ventana contra las preferencias del cliente (`installationDates`, `timeFrom`, `timeTo`).
+   * Las preferencias vacías o ilegibles no restringen.
+   */
+  private validateAgainstPreferences(request: InstallationRequest, dateKey: string, from: number, to: number): FieldErrors {
+    const errors: FieldErrors = {};
+
+    const preferredDates = (request.installationDates ?? [])
+      .map((d) => parseDateKey(d))
+      .filter((d): d is string => !!d);
+    if (preferredDates.length > 0 && !preferredDates.includes(dateKey)) {
+      errors.agreedInstallationDate = [
+        `La fecha no está entre las preferidas por el cliente (${preferredDates.join(', ')})`,
+      ];
+    }
+
+    const prefFrom = parseTimeToMinutes(request.timeFrom);
+    const prefTo = parseTimeToMinutes(request.timeTo);
+    if (prefFrom !== null && from < prefFrom) {
+      errors.agreedTimeFrom = [`La hora de inicio es anterior a la preferida por el cliente (${minutesToTime(prefFrom)})`];
+    }
+    if (prefTo !== null && to > prefTo) {
+      errors.agreedTimeTo = [`La hora de término es posterior a la preferida por el cliente (${minutesToTime(prefTo)})`];
+    }
+
+    return errors;
+  }
+
+  private buildNotificationPayload(request: InstallationRequest, technicianName?: string | null) {
+    return {
+      installationId: request.id,
+      status: request.status,
+      customer: {
+        firstName: request.firstName,
+        lastName: request.lastName,
+        phone: request.phone,
+        email: request.email,
+      },
+      agreedInstallationDate: request.agreedInstallationDate,
+      agreedTimeFrom: request.agreedTimeFrom,
+      agreedTimeTo: request.agreedTimeTo,
+      confirmedByTechnician: request.confirmedByTechnician,
+      technicianName: technicianName ?? null,
+      technicianNotes: request.technicianNotes,
+    };
+  }
+
+  public async confirm(id: number, input: ConfirmationInput): Promise<InstallationRequest> {
+    const errors: FieldErrors = {};
+    const dateKey = parseDateKey(input.agreedInstallationDate);
+    const from = parseTimeToMinutes(input.agreedTimeFrom);
+    const to = parseTimeToMinutes(input.agreedTimeTo);
+
+    if (!dateKey) errors.agreedInstallationDate = ['Fecha inválida (YYYY-MM-DD o DD/MM/YYYY)'];
+    if (from === null) errors.agreedTimeFrom = ['Hora inválida (HH:mm)'];
+    if (to === null) errors.agreedTimeTo = ['Hora inválida (HH:mm)'];
+    if (from !== null && to !== null && from >= to) {
+      errors.agreedTimeTo = ['La hora de término debe ser posterior a la de inicio'];
+    }
+    if (Object.keys(errors).length > 0) throw validationError(errors);
+
+    const request = await this.getRequest(id);
+    if (request.status === 'activated' || request.status === 'cancelled' || request.status === 'rejected') {
+      throw Object.assign(new Error(`La solicitud está en estado "${request.status}" y no admite confirmación`), { statusCode: 409 });
+    }
+
+    const skipPreferences = input.action === 'propose' && input.allowOutsidePreferences === true;
+    if (!skipPreferences) {
+      const prefErrors = this.validateAgainstPreferences(request, dateKey as string, from as number, to as number);
+      if (Object.keys(prefErrors).length > 0) {
+        throw Object.assign(validationError(prefErrors, 'La ventana no coincide con las preferencias del cliente'), { statusCode: 422 });
+      }
+    }
+
+    const repo = AppDataSource.getRepository(InstallationRequest);
+    request.agreedInstallationDate = zonedDateTimeToUtc(dateKey as string, input.agreedTimeFrom);
+    request.agreedTimeFrom = minutesToTime(from as number);
+    request.agreedTimeTo = minutesToTime(to as number);
+    request.confirmedByTechnician = input.action === 'confirm';
+    if (input.technicianNotes !== undefined) request.technicianNotes = input.technicianNotes;
+    if (input.technicianName) request.technicianName = input.technicianName;
+    await repo.save(request);
+
+    const actor = input.technicianName || 'technician';
+    const target = input.action === 'confirm' ? 'confirmed' : 'scheduled';
+    const statusOpts = {
+      changedBy: actor,
+      reason: input.action === 'confirm' ? 'Confirmado por el técnico' : 'Fecha propuesta por el técnico',
+      metadata: { agreedInstallationDate: dateKey, agreedTimeFrom: request.agreedTimeFrom, agreedTimeTo: request.agreedTimeTo },
+    };
+    // Una propuesta sobre una fecha ya confirmada (o tras `failed`) vuelve un paso atrás
+    const moved = canReopen(request.status, target)
+      ? await this.statusService.tryReopen(request.id, target, statusOpts)
+      : await this.statusService.tryAdvance(request.id, target, statusOpts);
+    if (moved) request.status = moved.status;
+
+    logger.info(`InstallationConfirmation: ${input.action} solicitud ${request.id} por ${actor}`, { dateKey, from: request.agreedTimeFrom, to: request.agreedTimeTo });
+    void this.notificationService.emit(
+      input.action === 'confirm' ? 'installation.confirmed' : 'installation.proposed',
+      this.buildNotificationPayload(request, input.technicianName),
+    );
+
+    return request;
+  }
+
+  public async updateNotes(id: number, technicianNotes: string | null, technicianName?: string | null): Promise<InstallationRequest> {
+    const request = await this.getRequest(id);
+    request.technicianNotes = technicianNotes;
+    await AppDataSource.getRepository(InstallationRequest).save(request);
+    logger.info(`InstallationConfirmation: notas de la solicitud ${request.id} actualizadas por ${technicianName || 'technician'}`);
+    return request;
+  }
+
+  /**
+   * Anula la confirmación del técnico. Se mantiene la fecha acordada como propuesta
+   * (estado `scheduled`) para que el operador decida si la reprograma.
+   */
+  public async unconfirm(id: number, opts: { technicianName?: string | null; reason?: string | null; technicianNotes?: string | null }): Promise<InstallationRequest> {
+    const request = await this.getRequest(id);
+    if (request.status === 'activated') {
+      throw Object.assign(new Error('La solicitud ya fue activada y no puede des-confirmarse'), { statusCode: 409 });
+    }
+
+    request.confirmedByTechnician = false;
+    if (opts.technicianNotes !== undefined) request.technicianNotes = opts.technicianNotes;
+    await AppDataSource.getRepository(InstallationRequest).save(request);
+
+    const actor = opts.technicianName || 'technician';
+    if (request.status === 'confirmed') {
+      const moved = await this.statusService.tryReopen(request.id, 'scheduled', {
+        changedBy: actor,
+        reason: opts.reason || 'Confirmación anulada por el técnico',
+      });
+      if (moved) request.status = moved.status;
+    }
+
+    logger.info(`InstallationConfirmation: solicitud ${request.id} des-confirmada por ${actor}`);
+    void this.notificationService.emit('installation.unconfirmed', {
+      ...this.buildNotificationPayload(request, opts.technicianName),
+      reason: opts.reason ?? null,
+    });
+
+    return request;
+  }
+}
@@ -0,0 +1,195 @@
+import axios from 'axios';
+import FormData from 'form-data';
+import { EntityManager } from 'typeorm';
+import AppDataSource, { initializeDataSource } from '../database/data-source';
+import { DOCUMENT_FIELDS, DocumentField, InstallationRequest } from '../entities/InstallationRequest';
+import { InstallationDocument } from '../entities/InstallationDocument';
+import { FileService, StoredImage } from './file.service';
+import { UploadSafetyService } from './uploadSafety.service';
+import { wisphubConfig } from '../config';
+import logger from '../utils/logger';
+
+// Nombre de cada documento en el formulario multipart de Wisphub
+export const WISPHUB_DOCUMENT_FIELDS: Record<DocumentField, string> = {
+  idFront: 'front_dni_proof',
+  idBack: 'back_dni_proof',
+  addressProof: 'proof_of_address',
+  coupon: 'discount_coupon',
+};
+
+export type UploadedDocument = {
+  buffer: Buffer;
+  originalName: string;
+  mimeType?: string | null;
+  size?: number | null;
+};
+
+export type WisphubDocumentSync = {
+  synced: boolean;
+  status: number | null;
+  error: string | null;
+};
+
+export function isDocumentField(value: unknown): value is DocumentField {
+  return typeof value === 'string' && (DOCUMENT_FIELDS as readonly string[]).includes(value);
+}
+
+/**
+ * Id de la solicitud en la respuesta de solicitar-instalacion (el nombre del campo varía entre versiones de la API).
+ */
+export function extractWisphubRequestId(data: any): string | null {
+  const id = data?.id ?? data?.id_solicitud ?? data?.pk ?? data?.solicitud?.id ?? null;
+  return id !== null && id !== undefined && String(id).trim() !== '' ? String(id) : null;
+}
+
+/**
+ * Documentos de la solicitud con historial de versiones: registro inicial al crear,
+ * reemplazo posterior (conservando la versión anterior) y envío del archivo a Wisphub.
+ */
+export class InstallationDocumentService {
+  private fileService = new FileService();
+  private uploadSafetyService = new UploadSafetyService();
+
+  private async ensureDataSource(): Promise<void> {
+    if (!AppDataSource.isInitialized) {
+      await initializeDataSource();
+    }
+  }
+
+  /**
+   * Versión 1 de cada documento al crear la solicitud; los que faltaban quedan como placeholder.
+   * `files` trae el original y la miniatura de las fotos procesadas por FileService.saveImage.
+   */
+  public async recordInitial(
+    request: InstallationRequest,
+    opts: { manager?: EntityManager; uploadedBy?: string | null; files?: Partial<Record<DocumentField, StoredImage>> } = {},
+  ): Promise<void> {
+    const manager = opts.manager ?? AppDataSource.manager;
+    const rows = DOCUMENT_FIELDS.map((field) => {
+      const fileName = request[field] as string | null;
+      const stored = fileName && opts.files?.[field]?.fileName === fileName ? opts.files[field] : null;
+      return manager.getRepository(InstallationDocument).create({
+        installationRequestId: request.id,
+        field,
+        version: 1,
+        isPlaceholder: !fileName,
+        isCurrent: true,
+        fileName: fileName || null,
+        originalFileName: stored?.originalFileName ?? (fileName || null),
+        thumbnailFileName: stored?.thumbnailFileName ?? null,
+        originalName: stored?.originalName ?? null,
+        mimeType: stored?.mimeType ?? null,
+        size: stored?.size ?? null,
+        uploadedBy: opts.uploadedBy ?? 'form',
+        // Lo marca WisphubOutboxService cuando solicitar-instalacion responde bien
+        wisphubSyncedAt: null,
+      });
+    });
+    await manager.getRepository(InstallationDocument).save(rows);
+  }
+
+  public async list(requestId: number): Promise<InstallationDocument[]> {
+    await this.ensureDataSource();
+    return AppDataSource.getRepository(InstallationDocument).find({
+      where: { installationRequestId: requestId },
+      order: { field: 'ASC', version: 'DESC' },
+    });
+  }
+
+  /**
+   * Adjunta o reemplaza un documento. La versión anterior se conserva (isCurrent = false)
+   * y la versión normalizada del archivo nuevo se envía a Wisphub; un fallo en Wisphub no revierte la carga local.
+   */
+  public async replace(
+    requestId: number,
+    field: DocumentField,
+    upload: UploadedDocument,
+    actor: string,
+  ): Promise<{ request: InstallationRequest; document: InstallationDocument; wisphub: WisphubDocumentSync }> {
+    await this.uploadSafetyService.assertSafe([{ field, buffer: upload.buffer, originalName: upload.originalName || '' }]);
+    await this.ensureDataSource();
+    const stored = await this.fileService.saveImage(upload.buffer, upload.originalName || `${field}.jpg`, upload.mimeType ?? null);
+    const { fileName } = stored;
+
+    let request: InstallationRequest;
+    let document: InstallationDocument;
+    try {
+      ({ request, document } = await AppDataSource.transaction(async (m) => {
+        const requestRepo = m.getRepository(InstallationRequest);
+        const documentRepo = m.getRepository(InstallationDocument);
+        const current = await requestRepo.findOne({ where: { id: requestId }, lock: { mode: 'pessimistic_write' } });
+        if (!current) throw Object.assign(new Error('InstallationRequest no encontrada'), { statusCode: 404 });
+
+        const last = await documentRepo.findOne({ where: { installationRequestId: requestId, field }, order: { version: 'DESC' } });
+        await documentRepo.update({ installationRequestId: requestId, field, isCurrent: true }, { isCurrent: false });
+        const created = await documentRepo.save(documentRepo.create({
+          installationRequestId: requestId,
+          field,
+          version: (last?.version ?? 0) + 1,
+          isPlaceholder: false,
+          isCurrent: true,
+          fileName,
+          originalFileName: stored.originalFileName,
+          thumbnailFileName: stored.thumbnailFileName,
+          originalName: upload.originalName || null,
+          mimeType: stored.mimeType,
+          size: stored.size,
+          uploadedBy: actor,
+        }));
+
+        current[field] = fileName;
+        current.documentSources = { ...(current.documentSources ?? {}), [field]: 'real' };
+        await requestRepo.save(current);
+        return { request: current, document: created };
+      }));
+    } catch (err) {
+      await this.fileService.deleteImage(stored);
+      throw err;
+    }
+
+    logger.info(`InstallationDocument: ${field} v${document.version} de la solicitud ${requestId} cargado por ${actor}`);
+    const wisphub = await this.pushToWisphub(request, field, fileName);
+    await AppDataSource.getRepository(InstallationDocument).update(document.id, {
+      wisphubSyncedAt: wisphub.synced ? new Date() : null,
+      wisphubSyncError: wisphub.error,
+    });
+    document.wisphubSyncedAt = wisphub.synced ? new Date() : null;
+    document.wisphubSyncError = wisphub.error;
+
+    return { request, document, wisphub };
+  }
+
+  /**
+   * Actualiza el documento en la solicitud de Wisphub (PATCH multipart sobre solicitar-instalacion/{id}/).
+   */
+  private async pushToWisphub(request: InstallationRequest, field: DocumentField, fileName: string): Promise<WisphubDocumentSync> {
+    const { apiUrl, apiKey } = wisphubConfig;
+    if (!apiUrl || !apiKey) return { synced: false, status: null, error: 'Wisphub no configurado' };
+    if (!request.wisphubRequestId) {
+      return { synced: false, status: null, error: 'La solicitud no tiene id de Wisphub' };
+    }
+
+    const stored = await this.fileService.stat(fileName);
+    if (!stored) return { synced: false, status: null, error: `Archivo ${fileName} no encontrado` };
+
+    const form = new FormData();
+    form.append(WISPHUB_DOCUMENT_FIELDS[field], (await this.fileService.openReadStream(fileName)) as any, {
+      filename: fileName,
+      knownLength: stored.size,
+    });
+    const url = `${apiUrl.replace(/\/$/, '')}/${encodeURIComponent(request.wisphubRequestId)}/`;
+
+    try {
+      const response = await axios.patch(url, form, {
+        headers: { ...form.getHeaders(), Authorization: `Api-Key ${apiKey}` },
+      });
+      logger.info(`InstallationDocument: ${field} de la solicitud ${request.id} enviado a Wisphub (${response.status})`);
+      return { synced: true, status: response.status, error: null };
+    } catch (err: any) {
+      const status = err?.response?.status ?? null;
+      const detail = err?.response?.data ? JSON.stringify(err.response.data) : err?.message;
+      logger.error(`InstallationDocument: error enviando ${field} de la solicitud ${request.id} a Wisphub (${status}): ${detail}`);
+      return { synced: false, status, error: String(detail ?? 'Error en Wisphub') };
+    }
+  }
+}
@@ -0,0 +1,248 @@
+import { Writable } from 'stream';
+import { once } from 'events';
+import AppDataSource, { initializeDataSource } from '../database/data-source';
+import { InstallationRequest } from '../entities/InstallationRequest';
+import { InstallationRequestFilters, applyInstallationFilters, parseInstallationFilters } from './installationQuery';
+import { exportConfig } from '../config';
+import { formatDateTimeCL, toDateKeyCL } from '../utils/date';
+import { XlsxCell, writeXlsx } from '../utils/xlsx';
+import logger from '../utils/logger';
+
+// =========================================================================
+// EXPORTACIÓN DE SOLICITUDES A CSV / XLSX
+// =========================================================================
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const MASKABLE_FIELDS = ['ci', 'phone', 'email'] as const;
+type MaskableField = (typeof MASKABLE_FIELDS)[number];
+
+type ExportColumn = {
+  header: string;
+  value: (r: InstallationRequest, mask: Set<MaskableField>) => XlsxCell;
+};
+
+const yesNo = (value: boolean | null | undefined) => (value ? 'Sí' : 'No');
+
+// RUT: solo los últimos 3 dígitos y el DV ("**.***.678-K")
+function maskRut(value: string | null | undefined): string {
+  if (!value) return '';
+  let visible = 0;
+  return Array.from(value)
+    .reverse()
+    .map((ch) => {
+      if (!/[0-9kK]/.test(ch)) return ch;
+      visible += 1;
+      return visible <= 4 ? ch : '*';
+    })
+    .reverse()
+    .join('');
+}
+
+function maskPhone(value: string | null | undefined): string {
+  if (!value) return '';
+  const digits = value.replace(/\D/g, '');
+  return digits.length <= 4 ? '*'.repeat(digits.length) : `${'*'.repeat(digits.length - 4)}${digits.slice(-4)}`;
+}
+
+function maskEmail(value: string | null | undefined): string {
+  if (!value) return '';
+  const [user, domain] = value.split('@');
+  if (!domain) return '***';
+  return `${user.slice(0, 1)}***@${domain}`;
+}
+
+const pick = (field: MaskableField, mask: Set<MaskableField>, value: string | null | undefined, masker: (v: string | null | undefined) => string) =>
+  mask.has(field) ? masker(value) : value ?? '';
+
+/**
+ * Columnas disponibles (clave usada en `columns=`). Las fechas van en hora de Chile.
+ */
+export const EXPORT_COLUMNS: Record<string, ExportColumn> = {
+  id: { header: 'ID', value: (r) => r.id },
+  createdAt: { header: 'Fecha de registro', value: (r) => formatDateTimeCL(r.createdAt) },
+  updatedAt: { header: 'Última modificación', value: (r) => formatDateTimeCL(r.updatedAt) },
+  firstName: { header: 'Nombre', value: (r) => r.firstName },
+  lastName: { header: 'Apellido', value: (r) => r.lastName },
+  ci: { header: 'RUT', value: (r, mask) => pick('ci', mask, r.ci, maskRut) },
+  email: { header: 'Email', value: (r, mask) => pick('email', mask, r.email, maskEmail) },
+  phone: { header: 'Teléfono', value: (r, mask) => pick('phone', mask, r.phone, maskPhone) },
+  additionalPhone: { header: 'Teléfono adicional', value: (r, mask) => pick('phone', mask, r.additionalPhone, maskPhone) },
+  address: { header: 'Dirección', value: (r) => r.address },
+  neighborhood: { header: 'Localidad', value: (r) => r.neighborhood },
+  city: { header: 'Ciudad', value: (r) => r.city },
+  coordinates: { header: 'Coordenadas', value: (r) => r.coordinates },
+  plan: { header: 'Plan', value: (r) => r.plan },
+  status: { header: 'Estado', value: (r) => r.status },
+  installationDates: { header: 'Fechas preferidas', value: (r) => (r.installationDates ?? []).join(', ') },
+  timeFrom: { header: 'Horario desde', value: (r) => r.timeFrom },
+  timeTo: { header: 'Horario hasta', value: (r) => r.timeTo },
+  agreedInstallationDate: {
+    header: 'Fecha acordada',
+    value: (r) => (r.agreedInstallationDate ? formatDateTimeCL(r.agreedInstallationDate).slice(0, 10) : ''),
+  },
+  agreedTimeFrom: { header: 'Hora acordada desde', value: (r) => r.agreedTimeFrom },
+  agreedTimeTo: { header: 'Hora acordada hasta', value: (r) => r.agreedTimeTo },
+  confirmedByTechnician: { header: 'Confirmada por técnico', value: (r) => yesNo(r.confirmedByTechnician) },
+  technicianName: { header: 'Técnico', value: (r) => r.technicianName },
+  geonetActivated: { header: 'Activada en Geonet', value: (r) => yesNo(r.geonetActivated) },
+  geonetClientId: { header: 'ID cliente Geonet', value: (r) => r.geonetClientId },
+  wisphubRequestId: { header: 'ID solicitud Wisphub', value: (r) => r.wisphubRequestId },
+  wisphubSyncStatus: { header: 'Envío a Wisphub', value: (r) => r.wisphubSyncStatus },
+  comments: { header: 'Comentarios', value: (r) => r.comments },
+};
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  'id',
+  'createdAt',
+  'firstName',
+  'lastName',
+  'ci',
+  'phone',
+  'email',
+  'plan',
+  'city',
+  'neighborhood',
+  'agreedInstallationDate',
+  'technicianName',
+  'status',
+  'geonetActivated',
+];
+
+export type InstallationExportQuery = {
+  filters: InstallationRequestFilters;
+  format: ExportFormat;
+  columns: string[];
+  mask: Set<MaskableField>;
+};
+
+function badRequest(message: string): Error {
+  return Object.assign(new Error(message), { statusCode: 400 });
+}
+
+/**
+ * Mismos filtros que GET /installations, más `format` (csv|xlsx), `columns` (lista separada por coma)
+ * y `mask` (true/false, o los campos a enmascarar: ci, phone, email).
+ */
+export function parseInstallationExportQuery(raw: Record<string, any>): InstallationExportQuery {
+  const q = raw ?? {};
+  const filters = parseInstallationFilters(q);
+
+  const format = String(q.format ?? 'csv').trim().toLowerCase();
+  if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+    throw badRequest(`format debe ser uno de: ${EXPORT_FORMATS.join(', ')}`);
+  }
+
+  const columnsRaw = String(Array.isArray(q.columns) ? q.columns.join(',') : q.columns ?? '').trim();
+  const columns = columnsRaw
+    ? Array.from(new Set(columnsRaw.split(',').map((c) => c.trim()).filter(Boolean)))
+    : DEFAULT_EXPORT_COLUMNS;
+  const unknown = columns.filter((c) => !EXPORT_COLUMNS[c]);
+  if (unknown.length) {
+    throw badRequest(`Columnas desconocidas: ${unknown.join(', ')}. Disponibles: ${Object.keys(EXPORT_COLUMNS).join(', ')}`);
+  }
+
+  const maskRaw = String(q.mask ?? '').trim().toLowerCase();
+  let mask: Set<MaskableField>;
+  if (!maskRaw) mask = new Set(exportConfig.maskByDefault ? MASKABLE_FIELDS : []);
+  else if (['true', '1', 'yes', 'si', 'sí'].includes(maskRaw)) mask = new Set(MASKABLE_FIELDS);
+  else if (['false', '0', 'no', 'none'].includes(maskRaw)) mask = new Set();
+  else {
+    const fields = maskRaw.split(',').map((f) => f.trim()).filter(Boolean);
+    const invalid = fields.filter((f) => !(MASKABLE_FIELDS as readonly string[]).includes(f));
+    if (invalid.length) throw badRequest(`mask debe ser true, false o una lista de: ${MASKABLE_FIELDS.join(', ')}`);
+    mask = new Set(fields as MaskableField[]);
+  }
+
+  return { filters, format: format as ExportFormat, columns, mask };
+}
+
+// Comillas según RFC 4180; las celdas que Excel evaluaría como fórmula se prefijan con '
+// (un teléfono "+56 9..." queda igual)
+function csvCell(value: XlsxCell, delimiter: string): string {
+  if (value === null || value === undefined) return '';
+  let s = String(value);
+  if (typeof value === 'string' && (/^[=@\t\r]/.test(s) || /^[+-][^\d\s]/.test(s))) s = `'${s}`;
+  return s.includes(delimiter) || /["\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/**
+ * Recorre las solicitudes filtradas por id ascendente en lotes, sin cargar todo en memoria,
+ * y las escribe como CSV o XLSX en el stream de respuesta.
+ */
+export class InstallationExportService {
+  private async ensureDataSource(): Promise<void> {
+    if (!AppDataSource.isInitialized) {
+      await initializeDataSource();
+    }
+  }
+
+  private baseQuery(filters: InstallationRequestFilters) {
+    return applyInstallationFilters(AppDataSource.getRepository(InstallationRequest).createQueryBuilder('r'), filters);
+  }
+
+  /**
+   * Cuenta las filas antes de empezar a escribir: 400 si superan EXPORT_MAX_ROWS.
+   */
+  public async count(query: InstallationExportQuery): Promise<number> {
+    await this.ensureDataSource();
+    const total = await this.baseQuery(query.filters).getCount();
+    if (total > exportConfig.maxRows) {
+      throw badRequest(`La exportación tiene ${total} filas (máximo ${exportConfig.maxRows}); acote los filtros`);
+    }
+    return total;
+  }
+
+  private async *requests(filters: InstallationRequestFilters): AsyncGenerator<InstallationRequest> {
+    let lastId = 0;
+    for (;;) {
+      const batch = await this.baseQuery(filters)
+        .andWhere('r.id > :lastId', { lastId })
+        .orderBy('r.id', 'ASC')
+        .take(exportConfig.batchSize)
+        .getMany();
+      for (const request of batch) yield request;
+      if (batch.length < exportConfig.batchSize) return;
+      lastId = batch[batch.length - 1].id;
+    }
+  }
+
+  private async *rows(query: InstallationExportQuery): AsyncGenerator<XlsxCell[]> {
+    const columns = query.columns.map((key) => EXPORT_COLUMNS[key]);
+    for await (const request of this.requests(query.filters)) {
+      yield columns.map((column) => column.value(request, query.mask) ?? '');
+    }
+  }
+
+  public fileName(format: ExportFormat, now = new Date()): string {
+    return `solicitudes-${toDateKeyCL(now)}.${format}`;
+  }
+
+  public async write(query: InstallationExportQuery, out: Writable): Promise<number> {
+    await this.ensureDataSource();
+    const headers = query.columns.map((key) => EXPORT_COLUMNS[key].header);
+    let count = 0;
+    const counted = async function* (rows: AsyncIterable<XlsxCell[]>) {
+      for await (const row of rows) {
+        count += 1;
+        yield row;
+      }
+    };
+
+    if (query.format === 'xlsx') {
+      await writeXlsx(out, { sheetName: 'Solicitudes', headers, rows: counted(this.rows(query)) });
+    } else {
+      const delimiter = exportConfig.csvDelimiter;
+      const line = (cells: XlsxCell[]) => `${cells.map((c) => csvCell(c, delimiter)).join(delimiter)}\r\n`;
+      // BOM para que Excel detecte UTF-8 (tildes y ñ)
+      out.write(`\uFEFF${line(headers)}`);
+      for await (const row of counted(this.rows(query))) {
+        if (!out.write(line(row))) await once(out, 'drain');
+      }
+    }
+
+    logger.info(`InstallationExport: ${count} solicitudes exportadas (${query.format})`, { columns: query.columns, masked: Array.from(query.mask) });
+    return count;
+  }
+}
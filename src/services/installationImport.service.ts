@@ -0,0 +1,366 @@
+import { parse, CsvError, Info } from 'csv-parse/sync';
+import AppDataSource, { initializeDataSource } from '../database/data-source';
+import { InstallationRequest } from '../entities/InstallationRequest';
+import { InstallationService } from './installation.service';
+import { DuplicateDetectionService } from './duplicateDetection.service';
+import { EDITABLE_FIELDS, EditableField, FieldErrors, REQUIRED_FIELDS, validateInstallationUpdate } from './installationValidation';
+import { importConfig } from '../config';
+import { normalizeRut } from '../utils/rut';
+import logger from '../utils/logger';
+
+// =========================================================================
+// IMPORTACIÓN MASIVA DE SOLICITUDES DESDE CSV
+// =========================================================================
+
+export type ImportRowStatus = 'valid' | 'created' | 'duplicate' | 'invalid' | 'failed';
+
+export type ImportRowResult = {
+  // Número de línea en el archivo (el encabezado es la 1)
+  row: number;
+  status: ImportRowStatus;
+  ci: string | null;
+  id?: number;
+  duplicateOf?: number | null;
+  wisphubSyncStatus?: string | null;
+  errors?: FieldErrors;
+  warnings?: string[];
+};
+
+export type InstallationImportReport = {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  created: number;
+  duplicates: number;
+  invalid: number;
+  failed: number;
+  ignoredColumns: string[];
+  rows: ImportRowResult[];
+};
+
+export type InstallationImportOptions = {
+  dryRun: boolean;
+  allowDuplicates?: boolean;
+  actor?: string;
+};
+
+type ParsedRow = {
+  row: number;
+  input: Record<string, string>;
+};
+
+// Encabezados aceptados (sin tildes, espacios ni mayúsculas); incluye los de GET /installations/export
+const HEADER_ALIASES: Record<string, EditableField> = {
+  firstname: 'firstName',
+  nombre: 'firstName',
+  nombres: 'firstName',
+  lastname: 'lastName',
+  apellido: 'lastName',
+  apellidos: 'lastName',
+  ci: 'ci',
+  rut: 'ci',
+  dni: 'ci',
+  email: 'email',
+  correo: 'email',
+  correoelectronico: 'email',
+  phone: 'phone',
+  telefono: 'phone',
+  celular: 'phone',
+  additionalphone: 'additionalPhone',
+  telefonoadicional: 'additionalPhone',
+  telefono2: 'additionalPhone',
+  address: 'address',
+  direccion: 'address',
+  neighborhood: 'neighborhood',
+  localidad: 'neighborhood',
+  sector: 'neighborhood',
+  city: 'city',
+  ciudad: 'city',
+  comuna: 'city',
+  postalcode: 'postalCode',
+  codigopostal: 'postalCode',
+  coordinates: 'coordinates',
+  coordenadas: 'coordinates',
+  plan: 'plan',
+  comments: 'comments',
+  comentarios: 'comments',
+  observaciones: 'comments',
+  installationdates: 'installationDates',
+  fechas: 'installationDates',
+  fechaspreferidas: 'installationDates',
+  timefrom: 'timeFrom',
+  horariodesde: 'timeFrom',
+  horadesde: 'timeFrom',
+  timeto: 'timeTo',
+  horariohasta: 'timeTo',
+  horahasta: 'timeTo',
+};
+
+// Además de los requeridos al editar: sin teléfono ni plan no se puede agendar la instalación
+const IMPORT_REQUIRED_FIELDS: EditableField[] = [...REQUIRED_FIELDS, 'phone', 'plan'];
+
+const normalizeHeader = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]/g, '')
+    .toLowerCase();
+
+function badRequest(message: string): Error {
+  return Object.assign(new Error(message), { statusCode: 400 });
+}
+
+function addError(errors: FieldErrors, field: string, message: string): void {
+  if (!errors[field]) errors[field] = [];
+  errors[field].push(message);
+}
+
+// Separador más frecuente en la primera línea fuera de comillas (Excel en español usa ';')
+function detectDelimiter(text: string): string {
+  const counts: Record<string, number> = { ';': 0, ',': 0, '\t': 0 };
+  let quoted = false;
+  for (const ch of text) {
+    if (ch === '"') quoted = !quoted;
+    else if (!quoted && (ch === '\n' || ch === '\r')) break;
+    else if (!quoted && ch in counts) counts[ch] += 1;
+  }
+  return Object.keys(counts).reduce((best, d) => (counts[d] > counts[best] ? d : best), ',');
+}
+
+// Errores de createRequest / Wisphub: { campo: [mensajes] } o { message }
+function toFieldErrors(data: any, fallback: string): FieldErrors {
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    const errors: FieldErrors = {};
+    for (const [key, value] of Object.entries(data)) {
+      if (Array.isArray(value)) errors[key] = value.map((v) => String(v));
+      else if (typeof value === 'string') errors[key] = [value];
+    }
+    if (Object.keys(errors).length) return errors;
+  }
+  return { general: [fallback] };
+}
+
+/**
+ * Valida e importa solicitudes desde un CSV. Cada fila válida pasa por
+ * InstallationService.createRequest (RUT, coordenadas, duplicados aproximados y envío a Wisphub),
+ * de a una, y el reporte indica el resultado por fila. Con `dryRun` solo se valida.
+ */
+export class InstallationImportService {
+  private installationService = new InstallationService();
+  private duplicateService = new DuplicateDetectionService();
+
+  private async ensureDataSource(): Promise<void> {
+    if (!AppDataSource.isInitialized) {
+      await initializeDataSource();
+    }
+  }
+
+  /**
+   * Lee el CSV (UTF-8 con o sin BOM; separador ';', ',' o tabulación) y asocia las columnas
+   * conocidas a los campos de la solicitud. Lanza 400 si el archivo no se puede leer.
+   */
+  public parse(content: Buffer | string): { rows: ParsedRow[]; ignoredColumns: string[] } {
+    const text = (Buffer.isBuffer(content) ? content.toString('utf8') : content).replace(/^\uFEFF/, '');
+    if (!text.trim()) throw badRequest('El archivo está vacío');
+
+    let records: { record: string[]; info: Info }[];
+    try {
+      records = parse(text, {
+        delimiter: detectDelimiter(text),
+        info: true,
+        trim: true,
+        skip_empty_lines: true,
+        relax_column_count: true,
+      }) as unknown as { record: string[]; info: Info }[];
+    } catch (err) {
+      const message = err instanceof CsvError ? err.message : String(err);
+      throw badRequest(`No se pudo leer el CSV: ${message}`);
+    }
+
+    const [header, ...data] = records;
+    if (!header) throw badRequest('El archivo está vacío');
+
+    const columns = header.record.map((name) => HEADER_ALIASES[normalizeHeader(name)] ?? null);
+    const ignoredColumns = header.record.filter((name, i) => name && !columns[i]);
+    const missing = IMPORT_REQUIRED_FIELDS.filter((field) => !columns.includes(field));
+    if (missing.length) {
+      throw badRequest(`Faltan columnas obligatorias: ${missing.join(', ')}`);
+    }
+    if (data.length > importConfig.maxRows) {
+      throw badRequest(`El archivo tiene ${data.length} filas (máximo ${importConfig.maxRows}); divídalo en varios`);
+    }
+
+    const rows = data.map(({ record, info }) => {
+      const input: Record<string, string> = {};
+      columns.forEach((field, i) => {
+        // Si una columna aparece dos veces gana la primera con valor
+        if (field && record[i] && !input[field]) input[field] = record[i];
+      });
+      return { row: info.lines, input };
+    });
+    return { rows, ignoredColumns };
+  }
+
+  // Mismas reglas que PATCH /installations/:id, más teléfono y plan obligatorios y el catálogo de planes
+  private validateRow(input: Record<string, string>): { changes: Partial<Record<EditableField, any>>; errors: FieldErrors } {
+    const errors: FieldErrors = {};
+    let changes: Partial<Record<EditableField, any>> = {};
+    const complete: Record<string, string> = { ...input };
+    for (const field of REQUIRED_FIELDS) complete[field] = complete[field] ?? '';
+
+    try {
+      changes = validateInstallationUpdate(complete);
+    } catch (err: any) {
+      Object.assign(errors, err?.data?.errors ?? { general: [String(err?.message || err)] });
+    }
+
+    if (!input.phone && !errors.phone) addError(errors, 'phone', 'Campo requerido');
+    if (!input.plan) {
+      if (!errors.plan) addError(errors, 'plan', 'Campo requerido');
+    } else if (importConfig.allowedPlans.length) {
+      const plan = importConfig.allowedPlans.find((p) => p.toLowerCase() === input.plan.trim().toLowerCase());
+      if (plan) changes.plan = plan;
+      else addError(errors, 'plan', `Plan desconocido; permitidos: ${importConfig.allowedPlans.join(', ')}`);
+    }
+    return { changes, errors };
+  }
+
+  // Solicitudes no eliminadas por RUT normalizado (incluye filas anteriores al backfill de `ciNormalized`)
+  private async findExistingByCi(normalized: string[]): Promise<Map<string, number>> {
+    const existing = new Map<string, number>();
+    for (let i = 0; i < normalized.length; i += 500) {
+      const chunk = normalized.slice(i, i + 500);
+      const matches = await AppDataSource.getRepository(InstallationRequest)
+        .createQueryBuilder('r')
+        .select(['r.id', 'r.ci', 'r.ciNormalized'])
+        .where('r.ciNormalized IN (:...cis)', { cis: chunk })
+        .orWhere('(r.ciNormalized IS NULL AND UPPER(REPLACE(REPLACE(r.ci, ".", ""), "-", "")) IN (:...cis))', { cis: chunk })
+        .getMany();
+      for (const match of matches) {
+        const key = match.ciNormalized ?? normalizeRut(match.ci);
+        if (key && !existing.has(key)) existing.set(key, match.id);
+      }
+    }
+    return existing;
+  }
+
+  public async import(content: Buffer | string, options: InstallationImportOptions): Promise<InstallationImportReport> {
+    await this.ensureDataSource();
+    const { rows, ignoredColumns } = this.parse(content);
+    const allowDuplicates = options.allowDuplicates === true;
+
+    // --- Validación de todas las filas antes de crear ninguna ---
+    const validated = rows.map(({ row, input }) => {
+      const { changes, errors } = this.validateRow(input);
+      const ci: string | null = changes.ci ?? input.ci ?? null;
+      return { row, changes, errors, ci, ciNormalized: normalizeRut(ci) };
+    });
+
+    // --- RUT repetido dentro del archivo o ya registrado ---
+    const firstRowByCi = new Map<string, number>();
+    const candidates = validated.filter((v) => !Object.keys(v.errors).length && v.ciNormalized);
+    const existing = await this.findExistingByCi(Array.from(new Set(candidates.map((v) => v.ciNormalized as string))));
+
+    const results: ImportRowResult[] = [];
+    for (const entry of validated) {
+      const { row, changes, errors, ci, ciNormalized } = entry;
+      if (Object.keys(errors).length || !ciNormalized) {
+        results.push({ row, status: 'invalid', ci, errors });
+        continue;
+      }
+
+      const firstRow = firstRowByCi.get(ciNormalized);
+      if (firstRow !== undefined) {
+        results.push({ row, status: 'duplicate', ci, errors: { ci: [`RUT repetido en la fila ${firstRow}`] } });
+        continue;
+      }
+      firstRowByCi.set(ciNormalized, row);
+
+      const existingId = existing.get(ciNormalized);
+      if (existingId !== undefined) {
+        results.push({
+          row,
+          status: 'duplicate',
+          ci,
+          duplicateOf: existingId,
+          errors: { ci: [`Ya existe una solicitud registrada con el RUT ${ci}`] },
+        });
+        continue;
+      }
+
+      results.push(options.dryRun ? await this.checkRow(row, changes, allowDuplicates) : await this.createRow(row, changes, allowDuplicates));
+    }
+
+    const count = (status: ImportRowStatus) => results.filter((r) => r.status === status).length;
+    const report: InstallationImportReport = {
+      dryRun: options.dryRun,
+      total: results.length,
+      valid: count('valid'),
+      created: count('created'),
+      duplicates: count('duplicate'),
+      invalid: count('invalid'),
+      failed: count('failed'),
+      ignoredColumns,
+      rows: results,
+    };
+
+    logger.info(`InstallationImport: ${report.total} filas${options.dryRun ? ' (simulación)' : ''} por ${options.actor ?? 'api'}`, {
+      created: report.created,
+      valid: report.valid,
+      duplicates: report.duplicates,
+      invalid: report.invalid,
+      failed: report.failed,
+    });
+    return report;
+  }
+
+  // Simulación: anticipa el bloqueo por duplicado aproximado que aplicaría createRequest
+  private async checkRow(row: number, changes: Partial<Record<EditableField, any>>, allowDuplicates: boolean): Promise<ImportRowResult> {
+    const ci = changes.ci ?? null;
+    const check = await this.duplicateService.check(changes as any);
+    const [top] = check.matches;
+    if (check.action === 'block' && !allowDuplicates) {
+      return {
+        row,
+        status: 'duplicate',
+        ci,
+        duplicateOf: top?.id ?? null,
+        errors: { general: [`Parece duplicada de la solicitud ${top?.id} (${top?.reasons.join(', ')})`] },
+      };
+    }
+    const warnings = top ? [`Posible duplicado de la solicitud ${top.id} (puntaje ${top.score})`] : undefined;
+    return { row, status: 'valid', ci, ...(warnings ? { warnings } : {}) };
+  }
+
+  private async createRow(row: number, changes: Partial<Record<EditableField, any>>, allowDuplicates: boolean): Promise<ImportRowResult> {
+    const ci = changes.ci ?? null;
+    const data: Record<string, any> = { comments: '', ...changes, allowDuplicate: allowDuplicates };
+    for (const field of EDITABLE_FIELDS) {
+      if (data[field] === null) delete data[field];
+    }
+
+    let created: InstallationRequest;
+    try {
+      created = await this.installationService.createRequest(data);
+    } catch (err: any) {
+      const status = err?.isWisphubError ? err.status : err?.statusCode;
+      if (status === 409 && Array.isArray(err?.data?.duplicates)) {
+        const [top] = err.data.duplicates;
+        return {
+          row,
+          status: 'duplicate',
+          ci,
+          duplicateOf: top?.id ?? null,
+          errors: { general: [err.data.message ?? 'Posible solicitud duplicada'] },
+        };
+      }
+      logger.error(`InstallationImport: fila ${row} (${ci}) no se pudo crear: ${String(err?.message || err)}`);
+      return { row, status: 'failed', ci, errors: toFieldErrors(err?.data, String(err?.message || 'Error creando la solicitud')) };
+    }
+
+    // Igual que POST /installations: código de consulta y evento para que n8n avise al cliente
+    await this.installationService.announceCreated(created, { source: 'import' });
+
+    return { row, status: 'created', ci: created.ci, id: created.id, wisphubSyncStatus: created.wisphubSyncStatus };
+  }
+}
@@ -0,0 +1,316 @@
+import { Brackets, Repository, SelectQueryBuilder } from 'typeorm';
+import { DOCUMENT_FIELDS, INSTALLATION_STATUSES, InstallationRequest, InstallationStatus } from '../entities/InstallationRequest';
+import { BoundingBox, LatLng, parseBoundingBox, parseCoordinates } from '../utils/geo';
+import { applyBoundingBox, applyWithinRadius } from './geoQuery';
+
+// =========================================================================
+// LISTADO DE SOLICITUDES: PAGINACIÓN, FILTROS, ORDEN Y BÚSQUEDA
+// =========================================================================
+
+const SORTABLE_FIELDS = [
+  'id',
+  'createdAt',
+  'updatedAt',
+  'agreedInstallationDate',
+  'firstName',
+  'lastName',
+  'city',
+  'neighborhood',
+  'plan',
+] as const;
+
+type SortableField = (typeof SORTABLE_FIELDS)[number];
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 200;
+
+export type InstallationRequestFilters = {
+  city?: string;
+  neighborhood?: string;
+  plan?: string;
+  status?: InstallationStatus[];
+  geonetActivated?: boolean;
+  confirmedByTechnician?: boolean;
+  createdFrom?: Date;
+  createdTo?: Date;
+  agreedFrom?: Date;
+  agreedTo?: Date;
+  search?: string;
+  bbox?: BoundingBox;
+  near?: LatLng;
+  radiusMeters?: number;
+};
+
+export type InstallationRequestListQuery = InstallationRequestFilters & {
+  page: number;
+  limit: number;
+  offset: number;
+  sortBy: SortableField;
+  sortOrder: 'ASC' | 'DESC';
+  includeDocuments: boolean;
+};
+
+export type PaginatedResult<T> = {
+  data: T[];
+  meta: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPrevPage: boolean;
+    nextCursor: string | null;
+    prevCursor: string | null;
+  };
+};
+
+/**
+ * El cursor es opaco para el cliente (n8n / front office): codifica el offset
+ * de la siguiente página para que puedan iterar sin calcular páginas.
+ */
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ o: offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const offset = Number(parsed?.o);
+    return Number.isInteger(offset) && offset >= 0 ? offset : null;
+  } catch {
+    return null;
+  }
+}
+
+function badRequest(message: string): Error {
+  return Object.assign(new Error(message), { statusCode: 400 });
+}
+
+function pickString(value: unknown): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  if (first === undefined || first === null) return undefined;
+  const s = String(first).trim();
+  return s === '' ? undefined : s;
+}
+
+function parseBoolean(value: unknown, name: string): boolean | undefined {
+  const s = pickString(value);
+  if (s === undefined) return undefined;
+  const lower = s.toLowerCase();
+  if (['1', 'true', 'yes', 'si', 'sí'].includes(lower)) return true;
+  if (['0', 'false', 'no'].includes(lower)) return false;
+  throw badRequest(`${name} debe ser booleano (true/false)`);
+}
+
+function parseDate(value: unknown, name: string, endOfDay = false): Date | undefined {
+  const s = pickString(value);
+  if (s === undefined) return undefined;
+  // Fechas sin hora (YYYY-MM-DD) cubren el día completo cuando son límite superior
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(s);
+  const d = new Date(dateOnly ? `${s}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}` : s);
+  if (Number.isNaN(d.getTime())) throw badRequest(`${name} no es una fecha válida`);
+  return d;
+}
+
+function parsePositiveInt(value: unknown, name: string): number | undefined {
+  const s = pickString(value);
+  if (s === undefined) return undefined;
+  const n = Number(s);
+  if (!Number.isInteger(n) || n < 1) throw badRequest(`${name} debe ser un entero positivo`);
+  return n;
+}
+
+function parseStatuses(value: unknown): InstallationStatus[] | undefined {
+  const s = pickString(Array.isArray(value) ? value.join(',') : value);
+  if (s === undefined) return undefined;
+  const statuses = s.split(',').map((v) => v.trim()).filter(Boolean);
+  const invalid = statuses.filter((v) => !(INSTALLATION_STATUSES as readonly string[]).includes(v));
+  if (invalid.length) throw badRequest(`status inválido: ${invalid.join(', ')}`);
+  return statuses as InstallationStatus[];
+}
+
+const DEFAULT_NEAR_RADIUS_METERS = 1000;
+
+// bbox=minLat,minLng,maxLat,maxLng  |  near=lat,lng&radius=metros
+function parseLocationFilters(q: Record<string, any>): Pick<InstallationRequestFilters, 'bbox' | 'near' | 'radiusMeters'> {
+  const bboxRaw = pickString(q.bbox);
+  const bbox = bboxRaw ? parseBoundingBox(bboxRaw) : undefined;
+  if (bbox === null) throw badRequest('bbox debe ser minLat,minLng,maxLat,maxLng');
+
+  const nearRaw = pickString(q.near);
+  const near = nearRaw ? parseCoordinates(nearRaw) : undefined;
+  if (near === null) throw badRequest('near debe ser "lat,lng"');
+  const radius = parsePositiveInt(q.radius ?? q.radiusMeters, 'radius');
+
+  return {
+    bbox,
+    near,
+    radiusMeters: near ? (radius ?? DEFAULT_NEAR_RADIUS_METERS) : undefined,
+  };
+}
+
+/**
+ * Filtros compartidos por el listado y cualquier otra consulta sobre solicitudes.
+ * Acepta tanto camelCase como snake_case, igual que el resto de endpoints usados por n8n.
+ */
+export function parseInstallationFilters(raw: Record<string, any>): InstallationRequestFilters {
+  const q = raw ?? {};
+  return {
+    city: pickString(q.city ?? q.ciudad),
+    neighborhood: pickString(q.neighborhood ?? q.localidad),
+    plan: pickString(q.plan),
+    status: parseStatuses(q.status),
+    geonetActivated: parseBoolean(q.geonetActivated ?? q.geonet_activated, 'geonetActivated'),
+    confirmedByTechnician: parseBoolean(
+      q.confirmedByTechnician ?? q.confirmed_by_technician,
+      'confirmedByTechnician',
+    ),
+    createdFrom: parseDate(q.createdFrom ?? q.created_from, 'createdFrom'),
+    createdTo: parseDate(q.createdTo ?? q.created_to, 'createdTo', true),
+    agreedFrom: parseDate(q.agreedFrom ?? q.agreed_from, 'agreedFrom'),
+    agreedTo: parseDate(q.agreedTo ?? q.agreed_to, 'agreedTo', true),
+    search: pickString(q.search ?? q.q),
+    ...parseLocationFilters(q),
+  };
+}
+
+export function parseInstallationListQuery(raw: Record<string, any>): InstallationRequestListQuery {
+  const q = raw ?? {};
+  const filters = parseInstallationFilters(q);
+
+  const limit = Math.min(parsePositiveInt(q.limit, 'limit') ?? DEFAULT_LIMIT, MAX_LIMIT);
+
+  let page = parsePositiveInt(q.page, 'page') ?? 1;
+  let offset = (page - 1) * limit;
+  const cursor = pickString(q.cursor);
+  if (cursor) {
+    const decoded = decodeCursor(cursor);
+    if (decoded === null) throw badRequest('cursor inválido');
+    offset = decoded;
+    page = Math.floor(offset / limit) + 1;
+  }
+
+  const sortByRaw = pickString(q.sortBy ?? q.sort_by) ?? 'createdAt';
+  if (!(SORTABLE_FIELDS as readonly string[]).includes(sortByRaw)) {
+    throw badRequest(`sortBy debe ser uno de: ${SORTABLE_FIELDS.join(', ')}`);
+  }
+  const sortOrderRaw = (pickString(q.sortOrder ?? q.sort_order) ?? 'DESC').toUpperCase();
+  if (sortOrderRaw !== 'ASC' && sortOrderRaw !== 'DESC') {
+    throw badRequest('sortOrder debe ser ASC o DESC');
+  }
+
+  return {
+    ...filters,
+    page,
+    limit,
+    offset,
+    sortBy: sortByRaw as SortableField,
+    sortOrder: sortOrderRaw,
+    includeDocuments: parseBoolean(q.includeDocuments ?? q.include_documents, 'includeDocuments') ?? false,
+  };
+}
+
+export function applyInstallationFilters(
+  qb: SelectQueryBuilder<InstallationRequest>,
+  filters: InstallationRequestFilters,
+  alias = 'r',
+): SelectQueryBuilder<InstallationRequest> {
+  if (filters.city) qb.andWhere(`${alias}.city = :city`, { city: filters.city });
+  if (filters.neighborhood) {
+    qb.andWhere(`${alias}.neighborhood = :neighborhood`, { neighborhood: filters.neighborhood });
+  }
+  if (filters.plan) qb.andWhere(`${alias}.plan = :plan`, { plan: filters.plan });
+  if (filters.status?.length) qb.andWhere(`${alias}.status IN (:...statuses)`, { statuses: filters.status });
+
+  // Los booleanos son nullable en BD: NULL cuenta como "no"
+  if (filters.geonetActivated !== undefined) {
+    qb.andWhere(
+      filters.geonetActivated
+        ? `${alias}.geonetActivated = 1`
+        : `(${alias}.geonetActivated = 0 OR ${alias}.geonetActivated IS NULL)`,
+    );
+  }
+  if (filters.confirmedByTechnician !== undefined) {
+    qb.andWhere(
+      filters.confirmedByTechnician
+        ? `${alias}.confirmedByTechnician = 1`
+        : `(${alias}.confirmedByTechnician = 0 OR ${alias}.confirmedByTechnician IS NULL)`,
+    );
+  }
+
+  if (filters.createdFrom) qb.andWhere(`${alias}.createdAt >= :createdFrom`, { createdFrom: filters.createdFrom });
+  if (filters.createdTo) qb.andWhere(`${alias}.createdAt <= :createdTo`, { createdTo: filters.createdTo });
+  if (filters.agreedFrom) {
+    qb.andWhere(`${alias}.agreedInstallationDate >= :agreedFrom`, { agreedFrom: filters.agreedFrom });
+  }
+  if (filters.agreedTo) qb.andWhere(`${alias}.agreedInstallationDate <= :agreedTo`, { agreedTo: filters.agreedTo });
+
+  if (filters.bbox) applyBoundingBox(qb, filters.bbox, alias);
+  if (filters.near && filters.radiusMeters) applyWithinRadius(qb, filters.near, filters.radiusMeters, alias);
+
+  if (filters.search) {
+    const term = `%${filters.search.toLowerCase()}%`;
+    const ciTerm = `%${filters.search.replace(/[^0-9kK]/g, '').toLowerCase()}%`;
+    qb.andWhere(
+      new Brackets((w) => {
+        w.where(`LOWER(CONCAT(${alias}.firstName, ' ', ${alias}.lastName)) LIKE :term`, { term })
+          .orWhere(`LOWER(${alias}.ci) LIKE :term`, { term })
+          .orWhere(`LOWER(${alias}.email) LIKE :term`, { term })
+          .orWhere(`${alias}.phone LIKE :term`, { term })
+          .orWhere(`${alias}.additionalPhone LIKE :term`, { term })
+          .orWhere(`LOWER(${alias}.address) LIKE :term`, { term });
+        // RUT escrito con o sin puntos/guión
+        if (ciTerm !== '%%') {
+          w.orWhere(`LOWER(REPLACE(REPLACE(${alias}.ci, '.', ''), '-', '')) LIKE :ciTerm`, { ciTerm });
+        }
+      }),
+    );
+  }
+
+  return qb;
+}
+
+export function createInstallationListQueryBuilder(
+  repo: Repository<InstallationRequest>,
+  query: InstallationRequestListQuery,
+): SelectQueryBuilder<InstallationRequest> {
+  const qb = repo.createQueryBuilder('r');
+
+  if (!query.includeDocuments) {
+    const columns = repo.metadata.columns
+      .map((c) => c.propertyName)
+      .filter((name) => !(DOCUMENT_FIELDS as readonly string[]).includes(name));
+    qb.select(columns.map((c) => `r.${c}`));
+  }
+
+  applyInstallationFilters(qb, query);
+
+  // Desempate por id para que el orden sea estable entre páginas
+  qb.orderBy(`r.${query.sortBy}`, query.sortOrder);
+  if (query.sortBy !== 'id') qb.addOrderBy('r.id', query.sortOrder);
+
+  return qb.skip(query.offset).take(query.limit);
+}
+
+export function buildPaginatedResult<T>(
+  data: T[],
+  total: number,
+  query: Pick<InstallationRequestListQuery, 'page' | 'limit' | 'offset'>,
+): PaginatedResult<T> {
+  const { limit, offset, page } = query;
+  const hasNextPage = offset + data.length < total;
+  const hasPrevPage = offset > 0;
+  return {
+    data,
+    meta: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      hasNextPage,
+      hasPrevPage,
+      nextCursor: hasNextPage ? encodeCursor(offset + limit) : null,
+      prevCursor: hasPrevPage ? encodeCursor(Math.max(0, offset - limit)) : null,
+    },
+  };
+}
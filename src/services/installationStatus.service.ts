@@ -0,0 +1,286 @@
+import { EntityManager } from 'typeorm';
+import AppDataSource, { initializeDataSource } from '../database/data-source';
+import { INSTALLATION_STATUSES, InstallationRequest, InstallationStatus } from '../entities/InstallationRequest';
+import { InstallationStatusHistory } from '../entities/InstallationStatusHistory';
+import { NotificationService } from './notification.service';
+import logger from '../utils/logger';
+
+// Ciclo de vida: received → scheduled → confirmed → activated, más las salidas a cancelled/rejected/failed.
+// `activated` y `rejected` son terminales.
+const LIFECYCLE: InstallationStatus[] = ['received', 'scheduled', 'confirmed', 'activated'];
+
+const ALLOWED_TRANSITIONS: Record<InstallationStatus, InstallationStatus[]> = {
+  received: ['scheduled', 'cancelled', 'rejected', 'failed'],
+  scheduled: ['confirmed', 'cancelled', 'rejected', 'failed'],
+  confirmed: ['activated', 'cancelled', 'failed'],
+  failed: ['cancelled'],
+  cancelled: [],
+  rejected: [],
+  activated: [],
+};
+
+// Reaperturas: vuelven a un paso anterior (cita cancelada, confirmación anulada, reintento tras `failed`).
+// Solo con `reopen`, que exige motivo y queda marcado en el historial.
+const REOPEN_TRANSITIONS: Record<InstallationStatus, InstallationStatus[]> = {
+  received: [],
+  scheduled: ['received'],
+  confirmed: ['received', 'scheduled'],
+  failed: ['received', 'scheduled', 'confirmed'],
+  cancelled: ['received'],
+  rejected: [],
+  activated: [],
+};
+
+export type StatusTransitionOptions = {
+  changedBy?: string | null;
+  reason?: string | null;
+  metadata?: Record<string, any> | null;
+  manager?: EntityManager;
+};
+
+export function isInstallationStatus(value: unknown): value is InstallationStatus {
+  return typeof value === 'string' && (INSTALLATION_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransition(from: InstallationStatus, to: InstallationStatus): boolean {
+  return ALLOWED_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function getAllowedTransitions(from: InstallationStatus): InstallationStatus[] {
+  return [...(ALLOWED_TRANSITIONS[from] ?? [])];
+}
+
+export function canReopen(from: InstallationStatus, to: InstallationStatus): boolean {
+  return REOPEN_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function getReopenTransitions(from: InstallationStatus): InstallationStatus[] {
+  return [...(REOPEN_TRANSITIONS[from] ?? [])];
+}
+
+/**
+ * Pasos del ciclo de vida entre `from` y `to` (sin incluir `from`); vacío si `to` no está más adelante.
+ */
+export function lifecyclePath(from: InstallationStatus, to: InstallationStatus): InstallationStatus[] {
+  const start = LIFECYCLE.indexOf(from);
+  const end = LIFECYCLE.indexOf(to);
+  return start >= 0 && end > start ? LIFECYCLE.slice(start + 1, end + 1) : [];
+}
+
+type TransitionMode = 'forward' | 'reopen';
+
+export class InstallationStatusService {
+  private notificationService = new NotificationService();
+
+  private async ensureDataSource(): Promise<void> {
+    if (!AppDataSource.isInitialized) {
+      await initializeDataSource();
+    }
+  }
+
+  private async run<T>(manager: EntityManager | undefined, fn: (m: EntityManager) => Promise<T>): Promise<T> {
+    if (manager) return fn(manager);
+    await this.ensureDataSource();
+    return AppDataSource.transaction(fn);
+  }
+
+  /**
+   * Registra el estado inicial de una solicitud recién creada.
+   */
+  public async recordInitial(request: InstallationRequest, opts: StatusTransitionOptions = {}): Promise<void> {
+    await this.run(opts.manager, async (m) => {
+      await m.getRepository(InstallationStatusHistory).save({
+        installationRequestId: request.id,
+        fromStatus: null,
+        toStatus: request.status ?? 'received',
+        changedBy: opts.changedBy ?? 'system',
+        reason: opts.reason ?? 'Solicitud recibida',
+        metadata: opts.metadata ?? null,
+      });
+    });
+  }
+
+  // Aplica un paso sobre la fila ya bloqueada y lo registra en el historial
+  private async applyStep(
+    m: EntityManager,
+    request: InstallationRequest,
+    to: InstallationStatus,
+    mode: TransitionMode,
+    opts: StatusTransitionOptions,
+  ): Promise<void> {
+    const from = request.status ?? 'received';
+    const allowed = mode === 'reopen' ? canReopen(from, to) : canTransition(from, to);
+    if (!allowed) {
+      throw Object.assign(new Error(`${mode === 'reopen' ? 'Reapertura' : 'Transición'} no permitida: ${from} → ${to}`), {
+        statusCode: 409,
+        data: { from, to, allowed: getAllowedTransitions(from), reopen: getReopenTransitions(from) },
+      });
+    }
+
+    await m.getRepository(InstallationRequest).update(request.id, { status: to });
+    await m.getRepository(InstallationStatusHistory).save({
+      installationRequestId: request.id,
+      fromStatus: from,
+      toStatus: to,
+      changedBy: opts.changedBy ?? 'system',
+      reason: opts.reason ?? null,
+      metadata: mode === 'reopen' ? { ...(opts.metadata ?? {}), reopen: true } : opts.metadata ?? null,
+    });
+
+    logger.info(`InstallationStatus: request ${request.id} ${from} → ${to}${mode === 'reopen' ? ' (reapertura)' : ''}`, {
+      changedBy: opts.changedBy ?? 'system',
+    });
+    request.status = to;
+  }
+
+  /**
+   * Bloquea la fila mientras se aplican los pasos para que dos procesos (n8n, técnico, operador)
+   * no registren transiciones cruzadas. `steps` recibe el estado actual y devuelve los estados a recorrer.
+   */
+  private async move(
+    requestId: number,
+    mode: TransitionMode,
+    steps: (from: InstallationStatus) => InstallationStatus[],
+    opts: StatusTransitionOptions,
+  ): Promise<InstallationRequest> {
+    // Se asigna dentro de la transacción; el evento se publica después del commit
+    let activatedFrom = null as InstallationStatus | null;
+    const updated = await this.run(opts.manager, async (m) => {
+      const request = await m.getRepository(InstallationRequest).findOne({ where: { id: requestId }, lock: { mode: 'pessimistic_write' } });
+      if (!request) {
+        throw Object.assign(new Error('InstallationRequest no encontrada'), { statusCode: 404 });
+      }
+
+      for (const to of steps(request.status ?? 'received')) {
+        const from = request.status ?? 'received';
+        await this.applyStep(m, request, to, mode, opts);
+        if (to === 'activated') activatedFrom = from;
+      }
+      return request;
+    });
+
+    if (activatedFrom) {
+      void this.notificationService.emit('installation.activated', {
+        installationId: updated.id,
+        status: updated.status,
+        previousStatus: activatedFrom,
+        changedBy: opts.changedBy ?? 'system',
+        geonetClientId: updated.geonetClientId ?? null,
+      });
+    }
+    return updated;
+  }
+
+  /**
+   * Mueve la solicitud a `to` validando la transición (solo hacia adelante o a cancelled/rejected/failed).
+   * Lanza 404 si no existe y 409 si la transición no está permitida.
+   */
+  public async transition(
+    requestId: number,
+    to: InstallationStatus,
+    opts: StatusTransitionOptions = {},
+  ): Promise<InstallationRequest> {
+    if (!isInstallationStatus(to)) {
+      throw Object.assign(new Error(`Estado inválido: ${String(to)}`), { statusCode: 400 });
+    }
+    return this.move(requestId, 'forward', (from) => (from === to ? [] : [to]), opts);
+  }
+
+  /**
+   * Vuelve a un paso anterior del ciclo (ver REOPEN_TRANSITIONS). Exige motivo (400) y lanza 409 si no aplica.
+   */
+  public async reopen(
+    requestId: number,
+    to: InstallationStatus,
+    opts: StatusTransitionOptions = {},
+  ): Promise<InstallationRequest> {
+    if (!isInstallationStatus(to)) {
+      throw Object.assign(new Error(`Estado inválido: ${String(to)}`), { statusCode: 400 });
+    }
+    if (!opts.reason || !String(opts.reason).trim()) {
+      throw Object.assign(new Error('La reapertura requiere un motivo'), { statusCode: 400 });
+    }
+    return this.move(requestId, 'reopen', (from) => (from === to ? [] : [to]), opts);
+  }
+
+  /**
+   * Avanza por cada paso del ciclo hasta `to` (p. ej. received → scheduled → confirmed al agendar una
+   * cita ya confirmada), registrando cada uno. Si `to` no está más adelante, lanza 409 como `transition`.
+   */
+  public async advance(
+    requestId: number,
+    to: InstallationStatus,
+    opts: StatusTransitionOptions = {},
+  ): Promise<InstallationRequest> {
+    return this.move(requestId, 'forward', (from) => {
+      if (from === to) return [];
+      const path = lifecyclePath(from, to);
+      return path.length ? path : [to];
+    }, opts);
+  }
+
+  /**
+   * Variantes usadas por los flujos automáticos: si el cambio no aplica desde el estado
+   * actual se registra un warning en vez de interrumpir el flujo principal.
+   */
+  public async tryTransition(
+    requestId: number,
+    to: InstallationStatus,
+    opts: StatusTransitionOptions = {},
+  ): Promise<InstallationRequest | null> {
+    return this.tolerate(requestId, to, () => this.transition(requestId, to, opts));
+  }
+
+  public async tryAdvance(
+    requestId: number,
+    to: InstallationStatus,
+    opts: StatusTransitionOptions = {},
+  ): Promise<InstallationRequest | null> {
+    return this.tolerate(requestId, to, () => this.advance(requestId, to, opts));
+  }
+
+  public async tryReopen(
+    requestId: number,
+    to: InstallationStatus,
+    opts: StatusTransitionOptions = {},
+  ): Promise<InstallationRequest | null> {
+    return this.tolerate(requestId, to, () => this.reopen(requestId, to, opts));
+  }
+
+  private async tolerate(
+    requestId: number,
+    to: InstallationStatus,
+    fn: () => Promise<InstallationRequest>,
+  ): Promise<InstallationRequest | null> {
+    try {
+      return await fn();
+    } catch (err: any) {
+      logger.warn(`InstallationStatus: no se pudo mover request ${requestId} a ${to}: ${err?.message}`);
+      return null;
+    }
+  }
+
+  public async getStatusSummary(
+    requestId: number,
+  ): Promise<{ id: number; status: InstallationStatus; allowedTransitions: InstallationStatus[]; reopenTransitions: InstallationStatus[] }> {
+    await this.ensureDataSource();
+    const request = await AppDataSource.getRepository(InstallationRequest).findOne({ where: { id: requestId } });
+    if (!request) {
+      throw Object.assign(new Error('InstallationRequest no encontrada'), { statusCode: 404 });
+    }
+    return {
+      id: request.id,
+      status: request.status,
+      allowedTransitions: getAllowedTransitions(request.status),
+      reopenTransitions: getReopenTransitions(request.status),
+    };
+  }
+
+  public async getHistory(requestId: number): Promise<InstallationStatusHistory[]> {
+    await this.ensureDataSource();
+    return AppDataSource.getRepository(InstallationStatusHistory).find({
+      where: { installationRequestId: requestId },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+  }
+}
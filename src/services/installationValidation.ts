@@ -0,0 +1,166 @@
+import { formatRut, isValidRut } from '../utils/rut';
+import { formatCoordinates, parseChileanCoordinates } from '../utils/geo';
+
+// =========================================================================
+// VALIDACIÓN DE CAMPOS EDITABLES DE InstallationRequest
+// =========================================================================
+
+export type FieldErrors = Record<string, string[]>;
+
+// Campos que un operador puede corregir después de la creación
+export const EDITABLE_FIELDS = [
+  'firstName',
+  'lastName',
+  'ci',
+  'email',
+  'address',
+  'coordinates',
+  'neighborhood',
+  'city',
+  'postalCode',
+  'phone',
+  'additionalPhone',
+  'comments',
+  'installationDates',
+  'timeFrom',
+  'timeTo',
+  'plan',
+] as const;
+
+export type EditableField = (typeof EDITABLE_FIELDS)[number];
+
+const MAX_LENGTHS: Partial<Record<EditableField, number>> = {
+  firstName: 255,
+  lastName: 255,
+  ci: 255,
+  email: 255,
+  address: 255,
+  coordinates: 255,
+  neighborhood: 100,
+  city: 100,
+  postalCode: 20,
+  phone: 50,
+  additionalPhone: 50,
+  timeFrom: 50,
+  timeTo: 50,
+  plan: 100,
+};
+
+export const REQUIRED_FIELDS: EditableField[] = ['firstName', 'lastName', 'ci', 'email', 'address'];
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_RE = /^\+?[0-9\s()-]{8,20}$/;
+const TIME_RE = /^([01]?\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+export function validationError(errors: FieldErrors, message = 'Datos inválidos'): Error {
+  return Object.assign(new Error(message), { statusCode: 400, data: { message, errors } });
+}
+
+export function coordinatesErrorMessage(reason: 'format' | 'outside_chile'): string {
+  return reason === 'outside_chile' ? 'Las coordenadas están fuera de Chile' : 'Coordenadas inválidas (formato "lat,lng")';
+}
+
+function addError(errors: FieldErrors, field: string, message: string): void {
+  if (!errors[field]) errors[field] = [];
+  errors[field].push(message);
+}
+
+function parseDateList(value: unknown): string[] | null {
+  if (Array.isArray(value)) return value.map((v) => String(v).trim()).filter(Boolean);
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (trimmed.startsWith('[')) {
+      try {
+        const parsed = JSON.parse(trimmed);
+        return Array.isArray(parsed) ? parsed.map((v: unknown) => String(v).trim()).filter(Boolean) : null;
+      } catch {
+        return null;
+      }
+    }
+    return trimmed.split(',').map((s) => s.trim()).filter(Boolean);
+  }
+  return null;
+}
+
+/**
+ * Filtra el body a los campos editables y los valida. Devuelve los cambios
+ * normalizados o lanza un error 400 con `errors` por campo.
+ * Campos no editables presentes en el body se reportan como error para que el
+ * cliente sepa que fueron ignorados.
+ */
+export function validateInstallationUpdate(body: Record<string, any>): Partial<Record<EditableField, any>> {
+  const errors: FieldErrors = {};
+  const changes: Partial<Record<EditableField, any>> = {};
+  const input = body ?? {};
+
+  for (const key of Object.keys(input)) {
+    if (!(EDITABLE_FIELDS as readonly string[]).includes(key)) {
+      addError(errors, key, 'Campo no editable');
+    }
+  }
+
+  for (const field of EDITABLE_FIELDS) {
+    if (!(field in input)) continue;
+    const raw = input[field];
+
+    if (field === 'installationDates') {
+      if (raw === null) {
+        changes.installationDates = null;
+        continue;
+      }
+      const dates = parseDateList(raw);
+      if (!dates) {
+        addError(errors, field, 'Debe ser una lista de fechas');
+        continue;
+      }
+      changes.installationDates = dates;
+      continue;
+    }
+
+    const value = raw === null || raw === undefined ? null : String(raw).trim();
+    if (!value) {
+      if (REQUIRED_FIELDS.includes(field)) {
+        addError(errors, field, 'Campo requerido');
+      } else {
+        changes[field] = field === 'comments' ? '' : null;
+      }
+      continue;
+    }
+
+    const max = MAX_LENGTHS[field];
+    if (max && value.length > max) {
+      addError(errors, field, `Máximo ${max} caracteres`);
+      continue;
+    }
+
+    if (field === 'ci') {
+      if (!isValidRut(value)) {
+        addError(errors, field, 'RUT inválido');
+        continue;
+      }
+      changes.ci = formatRut(value);
+      continue;
+    }
+    if (field === 'email' && !EMAIL_RE.test(value)) addError(errors, field, 'Email inválido');
+    if ((field === 'phone' || field === 'additionalPhone') && !PHONE_RE.test(value)) {
+      addError(errors, field, 'Teléfono inválido');
+    }
+    if ((field === 'timeFrom' || field === 'timeTo') && !TIME_RE.test(value)) {
+      addError(errors, field, 'Hora inválida (HH:mm)');
+    }
+    if (field === 'coordinates') {
+      const parsed = parseChileanCoordinates(value);
+      if (!parsed.ok) {
+        addError(errors, field, coordinatesErrorMessage(parsed.reason));
+        continue;
+      }
+      changes.coordinates = formatCoordinates(parsed.point);
+      continue;
+    }
+
+    changes[field] = value;
+  }
+
+  if (Object.keys(errors).length > 0) throw validationError(errors);
+  return changes;
+}
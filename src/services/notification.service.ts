@@ -0,0 +1,23 @@
+import logger from '../utils/logger';
+import { WebhookEvent } from '../entities/WebhookSubscription';
+import { WebhookService } from './webhook.service';
+
+/**
+ * Publica eventos a las suscripciones de webhooks (n8n y otros). Es fire-and-forget:
+ * un fallo al encolar se registra pero no interrumpe la operación que lo generó;
+ * los reintentos de entrega los hace WebhookService.
+ */
+export class NotificationService {
+  private webhookService = new WebhookService();
+
+  public async emit(event: WebhookEvent, payload: Record<string, any>): Promise<void> {
+    try {
+      const deliveries = await this.webhookService.publish(event, payload);
+      if (deliveries.length) {
+        logger.info(`NotificationService: evento ${event} encolado para ${deliveries.length} suscripciones`, { installationId: payload.installationId });
+      }
+    } catch (err: any) {
+      logger.error(`NotificationService: error publicando ${event}: ${String(err?.message || err)}`);
+    }
+  }
+}
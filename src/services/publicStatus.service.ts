@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+import AppDataSource, { initializeDataSource } from '../database/data-source';
+import { InstallationRequest, InstallationStatus } from '../entities/InstallationRequest';
+import { normalizeRut } from '../utils/rut';
+import { toDateKeyCL } from '../utils/date';
+import logger from '../utils/logger';
+
+export type PublicInstallationStatus = 'received' | 'scheduled' | 'confirmed' | 'activated' | 'cancelled';
+
+export type PublicStatusView = {
+  customerFirstName: string;
+  status: PublicInstallationStatus;
+  statusLabel: string;
+  plan: string | null;
+  agreedInstallationDate: string | null;
+  agreedTimeFrom: string | null;
+  agreedTimeTo: string | null;
+  technicianFirstName: string | null;
+  updatedAt: Date;
+};
+
+const STATUS_LABELS: Record<PublicInstallationStatus, string> = {
+  received: 'Solicitud recibida',
+  scheduled: 'Instalación agendada',
+  confirmed: 'Instalación confirmada por el técnico',
+  activated: 'Servicio activado',
+  cancelled: 'Solicitud cancelada',
+};
+
+// Sin 0/O ni 1/I/L para que el cliente pueda tipearlo desde el correo
+const TOKEN_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const TOKEN_LENGTH = 10;
+
+// Mismo mensaje para RUT inexistente y código incorrecto: no revela qué RUT tienen solicitud
+const NOT_FOUND_MESSAGE = 'RUT o código incorrecto';
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token.trim().toUpperCase()).digest('hex');
+}
+
+function generateToken(): string {
+  const bytes = crypto.randomBytes(TOKEN_LENGTH);
+  return Array.from(bytes, (b) => TOKEN_ALPHABET[b % TOKEN_ALPHABET.length]).join('');
+}
+
+// `failed` es un problema interno de activación: para el cliente la instalación sigue en curso
+function toPublicStatus(request: InstallationRequest): PublicInstallationStatus {
+  const status: InstallationStatus = request.status ?? 'received';
+  if (status === 'cancelled' || status === 'rejected') return 'cancelled';
+  if (status === 'failed') return request.agreedInstallationDate ? 'scheduled' : 'received';
+  return status;
+}
+
+/**
+ * Consulta de estado para el cliente con su RUT y el código enviado al crear la solicitud.
+ * Solo expone datos de agenda; nunca documentos, notas internas ni datos de contacto.
+ */
+export class PublicStatusService {
+  private async ensureDataSource(): Promise<void> {
+    if (!AppDataSource.isInitialized) {
+      await initializeDataSource();
+    }
+  }
+
+  /**
+   * Genera un código nuevo (invalida el anterior) y devuelve el texto plano para enviarlo al cliente.
+   */
+  public async issueToken(requestId: number): Promise<string> {
+    await this.ensureDataSource();
+    const repo = AppDataSource.getRepository(InstallationRequest);
+    const exists = await repo.exists({ where: { id: requestId } });
+    if (!exists) throw Object.assign(new Error('InstallationRequest no encontrada'), { statusCode: 404 });
+
+    const token = generateToken();
+    await repo.update(requestId, { statusTokenHash: hashToken(token) });
+    logger.info(`PublicStatus: código de consulta emitido para la solicitud ${requestId}`);
+    return token;
+  }
+
+  public async lookup(rut: string, token: string): Promise<PublicStatusView> {
+    const normalized = normalizeRut(rut);
+    if (!normalized || !token?.trim()) {
+      throw Object.assign(new Error(NOT_FOUND_MESSAGE), { statusCode: 404 });
+    }
+
+    await this.ensureDataSource();
+    const candidates = await AppDataSource.getRepository(InstallationRequest)
+      .createQueryBuilder('r')
+      .addSelect('r.statusTokenHash')
+      .where('r.ciNormalized = :ci', { ci: normalized })
+      .andWhere('r.statusTokenHash IS NOT NULL')
+      .orderBy('r.id', 'DESC')
+      .getMany();
+
+    const expected = Buffer.from(hashToken(token), 'hex');
+    const request = candidates.find((c) =>
+      crypto.timingSafeEqual(Buffer.from(c.statusTokenHash as string, 'hex'), expected),
+    );
+    if (!request) {
+      logger.warn(`PublicStatus: consulta fallida para RUT ${normalized}`);
+      throw Object.assign(new Error(NOT_FOUND_MESSAGE), { statusCode: 404 });
+    }
+
+    const status = toPublicStatus(request);
+    const showSchedule = status === 'scheduled' || status === 'confirmed';
+    return {
+      customerFirstName: request.firstName,
+      status,
+      statusLabel: STATUS_LABELS[status],
+      plan: request.plan,
+      agreedInstallationDate: showSchedule && request.agreedInstallationDate ? toDateKeyCL(new Date(request.agreedInstallationDate)) : null,
+      agreedTimeFrom: showSchedule ? request.agreedTimeFrom : null,
+      agreedTimeTo: showSchedule ? request.agreedTimeTo : null,
+      technicianFirstName: showSchedule || status === 'activated' ? request.technicianName?.trim().split(/\s+/)[0] || null : null,
+      updatedAt: request.updatedAt,
+    };
+  }
+}
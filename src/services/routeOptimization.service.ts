@@ -0,0 +1,461 @@
+import axios from 'axios';
+import { In } from 'typeorm';
+import AppDataSource, { initializeDataSource } from '../database/data-source';
+import { Agenda } from '../entities/Agenda';
+import { InstallationRequest } from '../entities/InstallationRequest';
+import { Technician } from '../entities/Technician';
+import { TechnicianTicketWindow } from '../entities/TechnicianTicketWindow';
+import { technicianFullName } from './agenda.service';
+import { ACTIVE_AGENDA_STATUSES, resolveInstallationDuration, technicianCapacity } from './capacity.service';
+import { routeConfig } from '../config';
+import { addDaysToDateKey, minutesToTime, toTimeCL, zonedDateTimeToUtc } from '../utils/date';
+import { LatLng, haversineMeters, mapsDirectionsUrl, parseCoordinates, resolvePosition } from '../utils/geo';
+import { normalizeText } from '../utils/text';
+import logger from '../utils/logger';
+
+// =========================================================================
+// RUTA DEL DÍA DE UN TÉCNICO (orden de visitas con ventanas horarias)
+// =========================================================================
+
+// Tiempos en segundos y distancias en metros entre todos los puntos (fila = origen)
+export type TravelMatrix = { durations: number[][]; distances: number[][] };
+
+export interface TravelTimeRouter {
+  readonly name: string;
+  matrix(points: LatLng[]): Promise<TravelMatrix>;
+}
+
+/**
+ * Estimación local: distancia de haversine corregida por `roadFactor` (los caminos no son rectos)
+ * y recorrida a `averageSpeedKmh`.
+ */
+export class HaversineRouter implements TravelTimeRouter {
+  public readonly name = 'haversine';
+
+  constructor(
+    private readonly roadFactor = routeConfig.roadFactor,
+    private readonly averageSpeedKmh = routeConfig.averageSpeedKmh,
+  ) {}
+
+  public async matrix(points: LatLng[]): Promise<TravelMatrix> {
+    const metersPerSecond = (this.averageSpeedKmh * 1000) / 3600;
+    const distances = points.map((a) => points.map((b) => haversineMeters(a, b) * this.roadFactor));
+    return { distances, durations: distances.map((row) => row.map((d) => d / metersPerSecond)) };
+  }
+}
+
+/**
+ * Servidor compatible con el servicio /table de OSRM (OSRM propio, Valhalla con API OSRM, etc.).
+ * Los pares sin ruta (null) se completan con la estimación local.
+ */
+export class OsrmRouter implements TravelTimeRouter {
+  public readonly name = 'osrm';
+
+  constructor(
+    private readonly baseUrl = routeConfig.osrmUrl,
+    private readonly profile = routeConfig.osrmProfile,
+  ) {}
+
+  public async matrix(points: LatLng[]): Promise<TravelMatrix> {
+    const coords = points.map((p) => `${p.lng},${p.lat}`).join(';');
+    const { data } = await axios.get(`${this.baseUrl.replace(/\/$/, '')}/table/v1/${this.profile}/${coords}`, {
+      params: { annotations: 'duration,distance' },
+      timeout: routeConfig.timeoutMs,
+    });
+    if (data?.code !== 'Ok' || !Array.isArray(data.durations)) {
+      throw new Error(`OSRM respondió ${data?.code ?? 'sin código'}`);
+    }
+
+    const fallback = await new HaversineRouter().matrix(points);
+    const pick = (table: any, i: number, j: number, backup: number) => {
+      const value = Array.isArray(table?.[i]) ? table[i][j] : null;
+      return typeof value === 'number' && Number.isFinite(value) ? value : backup;
+    };
+    return {
+      durations: points.map((_, i) => points.map((__, j) => pick(data.durations, i, j, fallback.durations[i][j]))),
+      distances: points.map((_, i) => points.map((__, j) => pick(data.distances, i, j, fallback.distances[i][j]))),
+    };
+  }
+}
+
+export function createTravelTimeRouter(): TravelTimeRouter {
+  switch (routeConfig.router) {
+    case 'osrm':
+      return new OsrmRouter();
+    case 'haversine':
+    case '':
+      return new HaversineRouter();
+    default:
+      logger.warn(`Route: router desconocido "${routeConfig.router}", se usa haversine`);
+      return new HaversineRouter();
+  }
+}
+
+// ----- Heurística: vecino más cercano con ventanas horarias + 2-opt -----
+
+export type RouteJob = {
+  position: LatLng;
+  // Instantes (ms) en que puede empezar la visita y en que debería terminar
+  windowStart: number;
+  windowEnd: number;
+  serviceSeconds: number;
+};
+
+export type PlannedStop = {
+  job: number;
+  arrival: number;
+  start: number;
+  finish: number;
+  travelSeconds: number;
+  distanceMeters: number;
+  waitSeconds: number;
+  lateSeconds: number;
+};
+
+export type RoutePlan = {
+  order: number[];
+  stops: PlannedStop[];
+  travelSeconds: number;
+  distanceMeters: number;
+  waitSeconds: number;
+  lateSeconds: number;
+  finish: number;
+};
+
+// Un segundo de atraso sobre la ventana pesa como diez de viaje
+const LATE_WEIGHT = 10;
+const MAX_TWO_OPT_ROUNDS = 50;
+
+const planCost = (plan: RoutePlan) => plan.lateSeconds * LATE_WEIGHT + plan.travelSeconds;
+
+/**
+ * Recorre las visitas en `order` desde `startTime`. En la matriz, con punto de partida este es el
+ * índice 0 y las visitas van desde el 1; sin él, el técnico aparece en la primera visita.
+ */
+export function simulateRoute(order: number[], jobs: RouteJob[], matrix: TravelMatrix, startTime: number, hasStart: boolean): RoutePlan {
+  const offset = hasStart ? 1 : 0;
+  let at: number | null = hasStart ? 0 : null;
+  let time = startTime;
+  const stops: PlannedStop[] = [];
+
+  for (const index of order) {
+    const job = jobs[index];
+    const node = index + offset;
+    const travelSeconds = at === null ? 0 : matrix.durations[at][node];
+    const distanceMeters = at === null ? 0 : matrix.distances[at][node];
+    const arrival = time + travelSeconds * 1000;
+    const start = Math.max(arrival, job.windowStart);
+    const finish = start + job.serviceSeconds * 1000;
+    stops.push({
+      job: index,
+      arrival,
+      start,
+      finish,
+      travelSeconds,
+      distanceMeters,
+      waitSeconds: (start - arrival) / 1000,
+      lateSeconds: Math.max(0, finish - job.windowEnd) / 1000,
+    });
+    time = finish;
+    at = node;
+  }
+
+  const sum = (key: 'travelSeconds' | 'distanceMeters' | 'waitSeconds' | 'lateSeconds') => stops.reduce((acc, s) => acc + s[key], 0);
+  return {
+    order,
+    stops,
+    travelSeconds: sum('travelSeconds'),
+    distanceMeters: sum('distanceMeters'),
+    waitSeconds: sum('waitSeconds'),
+    lateSeconds: sum('lateSeconds'),
+    finish: time,
+  };
+}
+
+// Siguiente visita: la que se puede empezar antes (viaje + espera), castigando el atraso
+function nearestNeighborOrder(jobs: RouteJob[], matrix: TravelMatrix, startTime: number, hasStart: boolean): number[] {
+  const offset = hasStart ? 1 : 0;
+  const remaining = new Set(jobs.map((_, i) => i));
+  const order: number[] = [];
+  let at: number | null = hasStart ? 0 : null;
+  let time = startTime;
+
+  while (remaining.size > 0) {
+    let best = -1;
+    let bestScore = Infinity;
+    for (const index of remaining) {
+      const job = jobs[index];
+      const travel = at === null ? 0 : matrix.durations[at][index + offset] * 1000;
+      const start = Math.max(time + travel, job.windowStart);
+      const late = Math.max(0, start + job.serviceSeconds * 1000 - job.windowEnd);
+      const score = late * LATE_WEIGHT + (start - time);
+      if (score < bestScore || (score === bestScore && job.windowEnd < jobs[best].windowEnd)) {
+        best = index;
+        bestScore = score;
+      }
+    }
+    order.push(best);
+    remaining.delete(best);
+    const job = jobs[best];
+    time = Math.max(time + (at === null ? 0 : matrix.durations[at][best + offset] * 1000), job.windowStart) + job.serviceSeconds * 1000;
+    at = best + offset;
+  }
+  return order;
+}
+
+// 2-opt: invierte tramos mientras baje el costo (atraso ponderado + tiempo de viaje)
+function twoOpt(order: number[], evaluate: (order: number[]) => RoutePlan): RoutePlan {
+  let best = evaluate(order);
+  for (let round = 0; round < MAX_TWO_OPT_ROUNDS; round++) {
+    let improved = false;
+    for (let i = 0; i < best.order.length - 1; i++) {
+      for (let k = i + 1; k < best.order.length; k++) {
+        const candidate = [...best.order.slice(0, i), ...best.order.slice(i, k + 1).reverse(), ...best.order.slice(k + 1)];
+        const plan = evaluate(candidate);
+        if (planCost(plan) < planCost(best) - 1e-6) {
+          best = plan;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return best;
+}
+
+/**
+ * Mejor orden encontrado partiendo del vecino más cercano y del orden por ventana, cada uno afinado con 2-opt.
+ */
+export function optimizeRoute(jobs: RouteJob[], matrix: TravelMatrix, startTime: number, hasStart: boolean): RoutePlan {
+  const evaluate = (order: number[]) => simulateRoute(order, jobs, matrix, startTime, hasStart);
+  const byWindow = jobs.map((_, i) => i).sort((a, b) => jobs[a].windowStart - jobs[b].windowStart || jobs[a].windowEnd - jobs[b].windowEnd);
+  const candidates = [twoOpt(nearestNeighborOrder(jobs, matrix, startTime, hasStart), evaluate), twoOpt(byWindow, evaluate)];
+  return candidates.reduce((best, plan) => (planCost(plan) < planCost(best) ? plan : best));
+}
+
+// ----- Servicio -----
+
+export type RouteDayQuery = {
+  technicianId: number;
+  date: string;
+  // Punto de partida; sin él ROUTE_DEPOT y, si tampoco hay, la primera visita
+  start?: LatLng | null;
+  // "HH:mm" en Chile; por defecto el inicio del horario del técnico
+  startTime?: string | null;
+};
+
+type DayJob = {
+  kind: 'agenda' | 'ticket';
+  agendaId: number | null;
+  ticketId: string | null;
+  request: InstallationRequest | null;
+  startAt: Date;
+  endAt: Date;
+};
+
+export type RouteStopView = {
+  order: number;
+  kind: 'agenda' | 'ticket';
+  agendaId: number | null;
+  ticketId: string | null;
+  installationRequestId: number | null;
+  customerName: string | null;
+  address: string | null;
+  phone: string | null;
+  plan: string | null;
+  position: LatLng;
+  windowFrom: string;
+  windowTo: string;
+  travelMinutes: number;
+  distanceKm: number;
+  eta: Date;
+  etaTime: string;
+  startTime: string;
+  finishTime: string;
+  waitMinutes: number;
+  lateMinutes: number;
+  serviceMinutes: number;
+};
+
+export type RouteTotals = { distanceKm: number; travelMinutes: number; waitMinutes: number; lateMinutes: number; finishTime: string | null };
+
+export type RouteDayView = {
+  technicianId: number;
+  technicianName: string;
+  date: string;
+  router: string;
+  start: LatLng | null;
+  startTime: string;
+  stops: RouteStopView[];
+  // Visitas sin coordenadas: no entran en la ruta
+  unrouted: Array<Omit<RouteStopView, 'order' | 'position' | 'travelMinutes' | 'distanceKm' | 'eta' | 'etaTime' | 'startTime' | 'finishTime' | 'waitMinutes' | 'lateMinutes' | 'serviceMinutes'> & { reason: string }>;
+  totals: RouteTotals;
+  // Mismas visitas en el orden de sus ventanas, para comparar
+  baseline: RouteTotals;
+  mapUrl: string | null;
+};
+
+const minutes = (seconds: number) => Math.round(seconds / 60);
+const km = (meters: number) => Math.round(meters / 100) / 10;
+
+/**
+ * Ordena las visitas de un técnico en un día (citas de /agenda y tickets de Geonet con coordenadas)
+ * respetando sus ventanas y devuelve la secuencia con horas estimadas de llegada y un enlace al mapa.
+ */
+export class RouteOptimizationService {
+  constructor(private readonly router: TravelTimeRouter = createTravelTimeRouter()) {}
+
+  private async ensureDataSource(): Promise<void> {
+    if (!AppDataSource.isInitialized) {
+      await initializeDataSource();
+    }
+  }
+
+  // Citas vigentes del día y tickets activos que no repiten una solicitud ya agendada
+  private async dayJobs(technician: Technician, date: string): Promise<DayJob[]> {
+    const dayStart = zonedDateTimeToUtc(date, '00:00');
+    const dayEnd = zonedDateTimeToUtc(addDaysToDateKey(date, 1), '00:00');
+
+    const entries = await AppDataSource.getRepository(Agenda)
+      .createQueryBuilder('a')
+      .innerJoinAndSelect('a.installationRequest', 'r')
+      .where({ technicianId: technician.id, status: In(ACTIVE_AGENDA_STATUSES) })
+      .andWhere('a.startAt >= :dayStart AND a.startAt < :dayEnd', { dayStart, dayEnd })
+      .getMany();
+
+    const windows = await AppDataSource.getRepository(TechnicianTicketWindow)
+      .createQueryBuilder('w')
+      .leftJoinAndSelect('w.installationRequest', 'r')
+      .where("w.status = 'active'")
+      .andWhere('(w.technicianId = :id OR (w.technicianId IS NULL AND w.technicianKey = :key))', {
+        id: technician.id,
+        key: normalizeText(technicianFullName(technician)),
+      })
+      .andWhere('w.startAt >= :dayStart AND w.startAt < :dayEnd', { dayStart, dayEnd })
+      .getMany();
+
+    const scheduled = new Set(entries.map((e) => e.installationRequestId));
+    return [
+      ...entries.map((e) => ({
+        kind: 'agenda' as const,
+        agendaId: e.id,
+        ticketId: null,
+        request: e.installationRequest ?? null,
+        startAt: new Date(e.startAt),
+        endAt: new Date(e.endAt),
+      })),
+      ...windows
+        .filter((w) => !w.installationRequestId || !scheduled.has(w.installationRequestId))
+        .map((w) => ({
+          kind: 'ticket' as const,
+          agendaId: null,
+          ticketId: w.ticketId,
+          request: w.installationRequest ?? null,
+          startAt: new Date(w.startAt),
+          endAt: new Date(w.endAt),
+        })),
+    ].sort((a, b) => a.startAt.getTime() - b.startAt.getTime());
+  }
+
+  // Con OSRM caído la ruta se calcula igual con la estimación local
+  private async travelMatrix(points: LatLng[]): Promise<{ matrix: TravelMatrix; router: string }> {
+    try {
+      return { matrix: await this.router.matrix(points), router: this.router.name };
+    } catch (err: any) {
+      if (this.router.name === 'haversine') throw err;
+      logger.warn(`Route: ${this.router.name} no respondió (${err?.message ?? err}); se usa haversine`);
+      return { matrix: await new HaversineRouter().matrix(points), router: 'haversine' };
+    }
+  }
+
+  public async planDay(query: RouteDayQuery): Promise<RouteDayView> {
+    await this.ensureDataSource();
+    const technician = await AppDataSource.getRepository(Technician).findOne({ where: { id: query.technicianId } });
+    if (!technician) throw Object.assign(new Error('Técnico no encontrado'), { statusCode: 404 });
+
+    const startTime = query.startTime ?? minutesToTime(technicianCapacity(technician).workStart);
+    const startAt = zonedDateTimeToUtc(query.date, startTime).getTime();
+    const start = query.start ?? parseCoordinates(routeConfig.depot);
+
+    const describe = (job: DayJob) => ({
+      kind: job.kind,
+      agendaId: job.agendaId,
+      ticketId: job.ticketId,
+      installationRequestId: job.request?.id ?? null,
+      customerName: job.request ? `${job.request.firstName} ${job.request.lastName}`.trim() : null,
+      address: job.request ? [job.request.address, job.request.neighborhood, job.request.city].filter(Boolean).join(', ') : null,
+      phone: job.request?.phone ?? null,
+      plan: job.request?.plan ?? null,
+      windowFrom: toTimeCL(job.startAt),
+      windowTo: toTimeCL(job.endAt),
+    });
+
+    const unrouted: RouteDayView['unrouted'] = [];
+    const routable: Array<{ job: DayJob; route: RouteJob }> = [];
+    for (const job of await this.dayJobs(technician, query.date)) {
+      const position = job.request ? resolvePosition(job.request) : null;
+      if (!position) {
+        unrouted.push({ ...describe(job), reason: job.request ? 'La solicitud no tiene coordenadas' : 'El ticket no está vinculado a una solicitud' });
+        continue;
+      }
+      // La ventana acotada a la duración estimada: una cita justa no se puede mover, una amplia sí
+      const windowSeconds = (job.endAt.getTime() - job.startAt.getTime()) / 1000;
+      const serviceMinutes = resolveInstallationDuration(job.request?.plan, [job.request?.city, job.request?.neighborhood]);
+      routable.push({
+        job,
+        route: {
+          position,
+          windowStart: job.startAt.getTime(),
+          windowEnd: job.endAt.getTime(),
+          serviceSeconds: Math.min(serviceMinutes * 60, Math.max(windowSeconds, 0)),
+        },
+      });
+    }
+
+    const empty: RouteTotals = { distanceKm: 0, travelMinutes: 0, waitMinutes: 0, lateMinutes: 0, finishTime: null };
+    const base = { technicianId: technician.id, technicianName: technicianFullName(technician), date: query.date, start, startTime };
+    if (routable.length === 0) {
+      return { ...base, router: this.router.name, stops: [], unrouted, totals: empty, baseline: empty, mapUrl: null };
+    }
+
+    const jobs = routable.map((r) => r.route);
+    const points = [...(start ? [start] : []), ...jobs.map((j) => j.position)];
+    const { matrix, router } = await this.travelMatrix(points);
+    const plan = optimizeRoute(jobs, matrix, startAt, !!start);
+    // `routable` viene ordenado por inicio de ventana: ese es el orden de referencia
+    const baseline = simulateRoute(jobs.map((_, i) => i), jobs, matrix, startAt, !!start);
+
+    const totals = (p: RoutePlan): RouteTotals => ({
+      distanceKm: km(p.distanceMeters),
+      travelMinutes: minutes(p.travelSeconds),
+      waitMinutes: minutes(p.waitSeconds),
+      lateMinutes: minutes(p.lateSeconds),
+      finishTime: toTimeCL(new Date(p.finish)),
+    });
+    const stops: RouteStopView[] = plan.stops.map((stop, i) => ({
+      order: i + 1,
+      ...describe(routable[stop.job].job),
+      position: jobs[stop.job].position,
+      travelMinutes: minutes(stop.travelSeconds),
+      distanceKm: km(stop.distanceMeters),
+      eta: new Date(stop.arrival),
+      etaTime: toTimeCL(new Date(stop.arrival)),
+      startTime: toTimeCL(new Date(stop.start)),
+      finishTime: toTimeCL(new Date(stop.finish)),
+      waitMinutes: minutes(stop.waitSeconds),
+      lateMinutes: minutes(stop.lateSeconds),
+      serviceMinutes: minutes(jobs[stop.job].serviceSeconds),
+    }));
+
+    logger.info(`Route: ruta del técnico ${technician.id} para ${query.date}`, { stops: stops.length, unrouted: unrouted.length, router });
+    return {
+      ...base,
+      router,
+      stops,
+      unrouted,
+      totals: totals(plan),
+      baseline: totals(baseline),
+      mapUrl: mapsDirectionsUrl([...(start ? [start] : []), ...stops.map((s) => s.position)]),
+    };
+  }
+}
@@ -187,6 +187,38 @@ export async function getOdbs(options?: { cacheTtlMs?: number }) {
   const ttl = options?.cacheTtlMs ?? 5 * 60_000;
   return fromCache('odbs', ttl, fetchOdbs);
 }
+
+// Normalize SmartOLT responses into a simple list of *available* port identifiers
+export function normalizePorts(raw: any): string[] {
+  const pickNumeric = (arr: any[]) =>
+    arr
+      .map((p) => {
+        if (p === null || p === undefined) return null;
+        if (typeof p === 'object') {
+          const val = p.port ?? p.id ?? p.value ?? p.label ?? p.name ?? p.number;
+          return val !== undefined && val !== null ? String(val) : null;
+        }
+        return String(p);
+      })
+      .filter((p): p is string => !!p && p.trim() !== '')
+      .map((p) => p.trim())
+      .filter((p, idx, arr) => arr.indexOf(p) === idx);
+
+  if (Array.isArray(raw?.ports)) return pickNumeric(raw.ports);
+  if (Array.isArray(raw?.response)) return pickNumeric(raw.response);
+  if (Array.isArray(raw?.available_ports)) return pickNumeric(raw.available_ports);
+  if (Array.isArray(raw)) return pickNumeric(raw);
+
+  if (raw && typeof raw === 'object') {
+    const values = pickNumeric(Object.values(raw));
+    if (values.length) return values;
+    const keys = pickNumeric(Object.keys(raw));
+    if (keys.length) return keys;
+  }
+
+  return [];
+}
+
 /**
  * Fetch available ports for an ODB by its externalId from SmartOLT API.
  * Returns the raw response (array, object, or wrapped in {response}).
@@ -252,4 +284,5 @@ export async function getAvailablePortsForOdb(externalId: string | number): Prom
 export default {
   getOdbs,
   getAvailablePortsForOdb,
+  normalizePorts,
 };
\ No newline at end of file
@@ -0,0 +1,237 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import { storageConfig } from '../config';
+import { SigV4Credentials, sha256Hex, signRequest } from '../utils/awsSigV4';
+import logger from '../utils/logger';
+
+// =========================================================================
+// ALMACENAMIENTO DE ARCHIVOS SUBIDOS (disco local o S3 compatible)
+// =========================================================================
+
+export type StoredObject = {
+  key: string;
+  size: number;
+  modifiedAt: Date;
+};
+
+export interface StorageDriver {
+  readonly name: string;
+  save(key: string, data: Buffer, opts?: { contentType?: string | null }): Promise<void>;
+  // Lanza un error con statusCode 404 si el archivo no existe
+  readStream(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  list(): Promise<StoredObject[]>;
+  // null si el archivo no existe
+  stat(key: string): Promise<StoredObject | null>;
+}
+
+function notFound(key: string): Error {
+  return Object.assign(new Error(`Archivo no encontrado: ${key}`), { statusCode: 404 });
+}
+
+// Los nombres los genera FileService (uuid + extensión); se rechaza cualquier ruta
+function assertSafeKey(key: string): void {
+  if (!key || key !== path.basename(key) || key.startsWith('.')) {
+    throw Object.assign(new Error(`Nombre de archivo inválido: ${key}`), { statusCode: 400 });
+  }
+}
+
+/**
+ * Carpeta en disco (por defecto uploads/ en la raíz del proyecto, el volumen uploads_data en Docker).
+ */
+export class LocalStorageDriver implements StorageDriver {
+  public readonly name = 'local';
+  private readonly dir: string;
+
+  constructor(dir = storageConfig.localDir || path.join(__dirname, '../../uploads')) {
+    this.dir = dir;
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true });
+      logger.info(`LocalStorage: created uploads dir at ${this.dir}`);
+    }
+  }
+
+  private resolve(key: string): string {
+    assertSafeKey(key);
+    return path.join(this.dir, key);
+  }
+
+  public async save(key: string, data: Buffer): Promise<void> {
+    await fs.promises.writeFile(this.resolve(key), data);
+  }
+
+  public async readStream(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+    if (!(await this.stat(key))) throw notFound(key);
+    return fs.createReadStream(filePath);
+  }
+
+  public async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  public async list(): Promise<StoredObject[]> {
+    const entries = await fs.promises.readdir(this.dir, { withFileTypes: true });
+    const files = entries.filter((entry) => entry.isFile());
+    const objects = await Promise.all(files.map((entry) => this.stat(entry.name)));
+    return objects.filter((obj): obj is StoredObject => !!obj);
+  }
+
+  public async stat(key: string): Promise<StoredObject | null> {
+    try {
+      const stats = await fs.promises.stat(this.resolve(key));
+      return stats.isFile() ? { key, size: stats.size, modifiedAt: stats.mtime } : null;
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return null;
+      throw err;
+    }
+  }
+}
+
+/**
+ * Bucket S3 o compatible (MinIO, R2...) con la API REST firmada con SigV4; los archivos
+ * quedan bajo `prefix` para poder compartir el bucket.
+ */
+export class S3StorageDriver implements StorageDriver {
+  public readonly name = 's3';
+  private readonly credentials: SigV4Credentials;
+
+  constructor(private readonly config = storageConfig.s3) {
+    if (!config.bucket || !config.accessKeyId || !config.secretAccessKey) {
+      throw new Error('S3StorageDriver: S3_BUCKET, S3_ACCESS_KEY_ID y S3_SECRET_ACCESS_KEY son requeridos');
+    }
+    this.credentials = {
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+      region: config.region,
+      service: 's3',
+    };
+  }
+
+  private bucketUrl(): URL {
+    const endpoint = (this.config.endpoint || `https://s3.${this.config.region}.amazonaws.com`).replace(/\/$/, '');
+    if (this.config.forcePathStyle) return new URL(`${endpoint}/${encodeURIComponent(this.config.bucket)}/`);
+    const base = new URL(endpoint);
+    base.host = `${this.config.bucket}.${base.host}`;
+    return new URL(`${base.origin}/`);
+  }
+
+  private objectUrl(key: string): URL {
+    assertSafeKey(key);
+    const url = this.bucketUrl();
+    url.pathname = `${url.pathname}${encodeURIComponent(`${this.config.prefix}${key}`).replace(/%2F/g, '/')}`;
+    return url;
+  }
+
+  private async request(method: string, url: URL, opts: { body?: Buffer; headers?: Record<string, string>; stream?: boolean } = {}) {
+    const headers = signRequest({
+      method,
+      url,
+      headers: opts.headers,
+      payloadHash: opts.body ? sha256Hex(opts.body) : undefined,
+      credentials: this.credentials,
+    });
+    return axios.request({
+      method,
+      url: url.toString(),
+      headers,
+      data: opts.body,
+      responseType: opts.stream ? 'stream' : 'text',
+      timeout: this.config.timeoutMs,
+      maxBodyLength: Infinity,
+      validateStatus: () => true,
+    });
+  }
+
+  private fail(action: string, key: string, status: number, body: unknown): Error {
+    const detail = typeof body === 'string' ? body.slice(0, 300) : '';
+    return new Error(`S3StorageDriver: ${action} ${key} respondió ${status} ${detail}`.trim());
+  }
+
+  public async save(key: string, data: Buffer, opts: { contentType?: string | null } = {}): Promise<void> {
+    const headers: Record<string, string> = { 'content-length': String(data.length) };
+    if (opts.contentType) headers['content-type'] = opts.contentType;
+    const response = await this.request('PUT', this.objectUrl(key), { body: data, headers });
+    if (response.status >= 300) throw this.fail('PUT', key, response.status, response.data);
+  }
+
+  public async readStream(key: string): Promise<Readable> {
+    const response = await this.request('GET', this.objectUrl(key), { stream: true });
+    if (response.status === 404) {
+      response.data.resume();
+      throw notFound(key);
+    }
+    if (response.status >= 300) {
+      response.data.resume();
+      throw this.fail('GET', key, response.status, null);
+    }
+    return response.data as Readable;
+  }
+
+  public async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', this.objectUrl(key));
+    if (response.status >= 300 && response.status !== 404) throw this.fail('DELETE', key, response.status, response.data);
+  }
+
+  public async list(): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | null = null;
+    do {
+      const url = this.bucketUrl();
+      url.searchParams.set('list-type', '2');
+      url.searchParams.set('prefix', this.config.prefix);
+      if (continuationToken) url.searchParams.set('continuation-token', continuationToken);
+
+      const response = await this.request('GET', url);
+      if (response.status >= 300) throw this.fail('LIST', this.config.prefix, response.status, response.data);
+
+      const $ = cheerio.load(String(response.data), { xml: true });
+      $('Contents').each((_, el) => {
+        const key = $(el).find('Key').first().text().slice(this.config.prefix.length);
+        if (!key || key.includes('/')) return;
+        objects.push({
+          key,
+          size: Number($(el).find('Size').first().text()) || 0,
+          modifiedAt: new Date($(el).find('LastModified').first().text()),
+        });
+      });
+      continuationToken = $('IsTruncated').first().text() === 'true' ? $('NextContinuationToken').first().text() || null : null;
+    } while (continuationToken);
+    return objects;
+  }
+
+  public async stat(key: string): Promise<StoredObject | null> {
+    const response = await this.request('HEAD', this.objectUrl(key));
+    if (response.status === 404) return null;
+    if (response.status >= 300) throw this.fail('HEAD', key, response.status, null);
+    return {
+      key,
+      size: Number(response.headers['content-length'] ?? 0),
+      modifiedAt: new Date(String(response.headers['last-modified'] ?? Date.now())),
+    };
+  }
+}
+
+export function createStorageDriver(): StorageDriver {
+  switch (storageConfig.driver) {
+    case 's3':
+      return new S3StorageDriver();
+    case 'local':
+    case '':
+      return new LocalStorageDriver();
+    default:
+      logger.warn(`Storage: driver desconocido "${storageConfig.driver}", se usa disco local`);
+      return new LocalStorageDriver();
+  }
+}
+
+// Un solo driver por proceso (todas las instancias de FileService comparten carpeta o bucket)
+let defaultDriver: StorageDriver | undefined;
+
+export function getStorageDriver(): StorageDriver {
+  if (!defaultDriver) defaultDriver = createStorageDriver();
+  return defaultDriver;
+}
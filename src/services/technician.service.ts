@@ -7,12 +7,17 @@ import { Cookie, CookieJar } from 'tough-cookie';
 import * as cheerio from 'cheerio';
 import * as fs from 'fs';
 import * as path from 'path';
+import { NotificationService } from './notification.service';
+import { FieldErrors, validationError } from './installationValidation';
+import { capacityConfig } from '../config';
+import { minutesToTime, parseTimeToMinutes } from '../utils/date';
 import logger from '../utils/logger';
 
 export class TechnicianService {
   private geonetClient: AxiosInstance | null = null;
   private geonetClientPromise: Promise<AxiosInstance> | null = null;
   private geonetClientCreatedAtMs = 0;
+  private notificationService = new NotificationService();
 
   private async ensureDataSource(): Promise<void> {
     if (!AppDataSource.isInitialized) {
@@ -115,6 +120,57 @@ export class TechnicianService {
     }
   }
 
+  /**
+   * Campos de capacidad para la agenda (`workDays`, `workStart`, `workEnd`, `maxDailyInstallations`, `zones`).
+   * null o '' vuelve al valor por defecto de CAPACITY_*; lanza 400 con `errors` por campo.
+   * `current` es el técnico guardado, para validar el horario cuando la actualización trae solo uno de sus extremos.
+   */
+  private parseCapacityFields(
+    data: Record<string, unknown>,
+    current: Pick<Technician, 'workStart' | 'workEnd'> | null = null,
+  ): Partial<Technician> {
+    const errors: FieldErrors = {};
+    const changes: Partial<Technician> = {};
+    const isEmpty = (v: unknown) => v === null || v === '' || (Array.isArray(v) && v.length === 0);
+    const toList = (v: unknown) => (Array.isArray(v) ? v : String(v).split(',')).map((x) => String(x).trim()).filter(Boolean);
+
+    if (data.workDays !== undefined) {
+      const days = isEmpty(data.workDays) ? [] : toList(data.workDays).map(Number);
+      if (days.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) errors.workDays = ['Días de 0 (domingo) a 6 (sábado)'];
+      else changes.workDays = days.length ? Array.from(new Set(days)).sort() : null;
+    }
+    for (const field of ['workStart', 'workEnd'] as const) {
+      if (data[field] === undefined) continue;
+      if (isEmpty(data[field])) {
+        changes[field] = null;
+        continue;
+      }
+      const minutes = parseTimeToMinutes(String(data[field]));
+      if (minutes === null) errors[field] = ['Hora inválida (HH:mm)'];
+      else changes[field] = minutesToTime(minutes);
+    }
+    if ((changes.workStart !== undefined || changes.workEnd !== undefined) && !errors.workStart && !errors.workEnd) {
+      const start = parseTimeToMinutes((changes.workStart !== undefined ? changes.workStart : current?.workStart) ?? capacityConfig.workStart);
+      const end = parseTimeToMinutes((changes.workEnd !== undefined ? changes.workEnd : current?.workEnd) ?? capacityConfig.workEnd);
+      if (start !== null && end !== null && start >= end) {
+        if (changes.workEnd !== undefined) errors.workEnd = ['Debe ser posterior a workStart'];
+        else errors.workStart = ['Debe ser anterior a workEnd'];
+      }
+    }
+    if (data.maxDailyInstallations !== undefined) {
+      const max = isEmpty(data.maxDailyInstallations) ? null : Number(data.maxDailyInstallations);
+      if (max !== null && (!Number.isInteger(max) || max < 0)) errors.maxDailyInstallations = ['Debe ser un entero mayor o igual a 0'];
+      else changes.maxDailyInstallations = max;
+    }
+    if (data.zones !== undefined) {
+      const zones = isEmpty(data.zones) ? [] : toList(data.zones);
+      changes.zones = zones.length ? zones : null;
+    }
+
+    if (Object.keys(errors).length > 0) throw validationError(errors);
+    return changes;
+  }
+
   public async getAll(): Promise<Technician[]> {
     await this.ensureDataSource();
     const repo = AppDataSource.getRepository(Technician);
@@ -122,6 +178,7 @@ export class TechnicianService {
   }
 
   public async create(data: DeepPartial<Technician>): Promise<Technician> {
+    const capacity = this.parseCapacityFields(data as Record<string, unknown>);
     await this.ensureDataSource();
     const repo = AppDataSource.getRepository(Technician);
 
@@ -132,6 +189,7 @@ export class TechnicianService {
       email: data.email ? String(data.email).trim() : null,
       telegramChatId: data.telegramChatId ? String(data.telegramChatId).trim() : null,
       isActive: typeof data.isActive === 'boolean' ? data.isActive : true,
+      ...capacity,
     });
 
     return repo.save(technician);
@@ -143,6 +201,7 @@ export class TechnicianService {
 
     const technician = await repo.findOne({ where: { id } });
     if (!technician) return null;
+    const capacity = this.parseCapacityFields(data as Record<string, unknown>, technician);
 
     if (data.firstName !== undefined) technician.firstName = String(data.firstName).trim();
     if (data.lastName !== undefined) technician.lastName = String(data.lastName).trim();
@@ -151,6 +210,7 @@ export class TechnicianService {
     if (data.telegramChatId !== undefined)
       technician.telegramChatId = data.telegramChatId ? String(data.telegramChatId).trim() : null;
     if (data.isActive !== undefined) technician.isActive = Boolean(data.isActive);
+    Object.assign(technician, capacity);
 
     return repo.save(technician);
   }
@@ -293,6 +353,12 @@ export class TechnicianService {
       }
     }
 
+    void this.notificationService.emit('technicians.sync_finished', {
+      added: addedCount,
+      scanned: rows.length,
+      technicians: createdTechs.map((t) => ({ id: t.id, firstName: t.firstName, lastName: t.lastName, email: t.email })),
+    });
+
     return {
       message: 'Sincronización finalizada',
       added: addedCount,
@@ -0,0 +1,188 @@
+import crypto from 'crypto';
+import AppDataSource, { initializeDataSource } from '../database/data-source';
+import { Agenda, AgendaStatus } from '../entities/Agenda';
+import { InstallationRequest } from '../entities/InstallationRequest';
+import { Technician } from '../entities/Technician';
+import { TechnicianTicketWindow } from '../entities/TechnicianTicketWindow';
+import { technicianFullName } from './agenda.service';
+import { calendarConfig } from '../config';
+import { CHILE_TIMEZONE, formatDateTimeCL, toTimeCL } from '../utils/date';
+import { ICalEvent, ICalEventStatus, buildICalendar } from '../utils/ical';
+import { LatLng, mapsUrl, resolvePosition } from '../utils/geo';
+import { normalizeText } from '../utils/text';
+import logger from '../utils/logger';
+
+// =========================================================================
+// FEED ICALENDAR (.ics) POR TÉCNICO: citas de /agenda y tickets de Geonet
+// =========================================================================
+
+// Mismo mensaje para token inexistente, revocado o de un técnico inactivo
+const NOT_FOUND_MESSAGE = 'Calendario no encontrado';
+
+const AGENDA_ICAL_STATUS: Record<AgendaStatus, ICalEventStatus> = {
+  scheduled: 'TENTATIVE',
+  confirmed: 'CONFIRMED',
+  in_progress: 'CONFIRMED',
+  completed: 'CONFIRMED',
+  cancelled: 'CANCELLED',
+};
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token.trim()).digest('hex');
+}
+
+const customerName = (r: InstallationRequest) => `${r.firstName ?? ''} ${r.lastName ?? ''}`.trim();
+
+/**
+ * Datos del cliente para el evento: dirección, posición (GEO + enlace al mapa) y la descripción
+ * con teléfono, plan y ventana acordada.
+ */
+function customerDetails(request: InstallationRequest | null | undefined, start: Date, end: Date, extra: string[]) {
+  const window = `${formatDateTimeCL(start)}–${toTimeCL(end)}`;
+  if (!request) {
+    return { location: null, geo: null, url: null, description: [`Ventana: ${window}`, ...extra].join('\n') };
+  }
+  const position: LatLng | null = resolvePosition(request);
+  const location = [request.address, request.neighborhood, request.city].filter(Boolean).join(', ') || null;
+  const phones = [request.phone, request.additionalPhone].filter(Boolean).join(' / ');
+  const description = [
+    `Cliente: ${customerName(request)}`,
+    phones ? `Teléfono: ${phones}` : null,
+    request.plan ? `Plan: ${request.plan}` : null,
+    `Ventana: ${window}`,
+    location ? `Dirección: ${location}` : null,
+    position ? `Ubicación: geo:${position.lat},${position.lng}` : null,
+    position ? `Mapa: ${mapsUrl(position)}` : null,
+    `Solicitud: ${request.id}`,
+    ...extra,
+  ].filter((line): line is string => !!line);
+  return { location, geo: position, url: position ? mapsUrl(position) : null, description: description.join('\n') };
+}
+
+/**
+ * Feed de solo lectura para suscribir en el calendario del teléfono, protegido por un token
+ * por técnico (se guarda solo su hash). Cada cita y cada ticket tiene un UID estable y un
+ * SEQUENCE que sube con los cambios, así los clientes actualizan o cancelan el evento existente.
+ */
+export class TechnicianCalendarService {
+  private async ensureDataSource(): Promise<void> {
+    if (!AppDataSource.isInitialized) {
+      await initializeDataSource();
+    }
+  }
+
+  /**
+   * Genera un token nuevo (invalida el enlace anterior) y devuelve el texto plano para armar el enlace.
+   */
+  public async issueToken(technicianId: number): Promise<string> {
+    await this.ensureDataSource();
+    const repo = AppDataSource.getRepository(Technician);
+    const exists = await repo.exists({ where: { id: technicianId } });
+    if (!exists) throw Object.assign(new Error('Técnico no encontrado'), { statusCode: 404 });
+
+    const token = crypto.randomBytes(24).toString('base64url');
+    await repo.update(technicianId, { calendarTokenHash: hashToken(token) });
+    logger.info(`TechnicianCalendar: enlace del calendario emitido para el técnico ${technicianId}`);
+    return token;
+  }
+
+  public async revokeToken(technicianId: number): Promise<void> {
+    await this.ensureDataSource();
+    const result = await AppDataSource.getRepository(Technician).update(technicianId, { calendarTokenHash: null });
+    if (!result.affected) throw Object.assign(new Error('Técnico no encontrado'), { statusCode: 404 });
+    logger.info(`TechnicianCalendar: enlace del calendario revocado para el técnico ${technicianId}`);
+  }
+
+  private async findByToken(token: string): Promise<Technician | null> {
+    if (!/^[A-Za-z0-9_-]{16,128}$/.test(token)) return null;
+    await this.ensureDataSource();
+    return AppDataSource.getRepository(Technician).findOne({
+      where: { calendarTokenHash: hashToken(token), isActive: true },
+    });
+  }
+
+  private agendaEvent(entry: Agenda): ICalEvent {
+    const request = entry.installationRequest;
+    const extra = [entry.notes ? `Notas: ${entry.notes}` : null, entry.cancelReason ? `Cancelada: ${entry.cancelReason}` : null];
+    const details = customerDetails(request, entry.startAt, entry.endAt, extra.filter((l): l is string => !!l));
+    return {
+      uid: `agenda-${entry.id}@${calendarConfig.uidDomain}`,
+      sequence: entry.sequence ?? 0,
+      status: AGENDA_ICAL_STATUS[entry.status] ?? 'TENTATIVE',
+      start: entry.startAt,
+      end: entry.endAt,
+      updatedAt: entry.updatedAt,
+      createdAt: entry.createdAt,
+      summary: `Instalación: ${request ? customerName(request) : `solicitud ${entry.installationRequestId}`}${request?.plan ? ` (${request.plan})` : ''}`,
+      ...details,
+    };
+  }
+
+  private ticketEvent(window: TechnicianTicketWindow): ICalEvent {
+    const request = window.installationRequest;
+    const extra = [window.ticketId ? `Ticket Geonet: ${window.ticketId}` : null, window.location ? `Geonet: ${window.location}` : null];
+    const details = customerDetails(request, window.startAt, window.endAt, extra.filter((l): l is string => !!l));
+    const title = window.subject || (window.ticketId ? `Ticket ${window.ticketId}` : 'Ticket');
+    return {
+      // Sin id de Geonet el UID sale de la fila, que tampoco cambia al editar
+      uid: `ticket-${window.ticketId ?? `w${window.id}`}@${calendarConfig.uidDomain}`,
+      sequence: window.sequence,
+      status: window.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+      start: window.startAt,
+      end: window.endAt,
+      updatedAt: window.updatedAt,
+      createdAt: window.createdAt,
+      summary: request ? `${title}: ${customerName(request)}` : title,
+      ...details,
+    };
+  }
+
+  /**
+   * Calendario del técnico dueño del token: citas y tickets desde CALENDAR_PAST_DAYS atrás hasta
+   * CALENDAR_FUTURE_DAYS adelante, incluidas las canceladas. Un ticket de una solicitud que ya tiene
+   * cita vigente no se repite.
+   */
+  public async buildFeed(token: string): Promise<{ technician: Technician; ics: string }> {
+    const technician = await this.findByToken(token);
+    if (!technician) throw Object.assign(new Error(NOT_FOUND_MESSAGE), { statusCode: 404 });
+
+    const from = new Date(Date.now() - calendarConfig.pastDays * 24 * 60 * 60_000);
+    const to = new Date(Date.now() + calendarConfig.futureDays * 24 * 60 * 60_000);
+
+    const entries = await AppDataSource.getRepository(Agenda)
+      .createQueryBuilder('a')
+      .innerJoinAndSelect('a.installationRequest', 'r')
+      .where('a.technicianId = :id', { id: technician.id })
+      .andWhere('a.startAt < :to AND a.endAt > :from', { from, to })
+      .orderBy('a.startAt', 'ASC')
+      .getMany();
+
+    // Tickets asignados solo por nombre (sin técnico local al crearlos) también le pertenecen
+    const windows = await AppDataSource.getRepository(TechnicianTicketWindow)
+      .createQueryBuilder('w')
+      .leftJoinAndSelect('w.installationRequest', 'r')
+      .where("w.status IN ('active', 'cancelled')")
+      .andWhere('(w.technicianId = :id OR (w.technicianId IS NULL AND w.technicianKey = :key))', {
+        id: technician.id,
+        key: normalizeText(technicianFullName(technician)),
+      })
+      .andWhere('w.startAt < :to AND w.endAt > :from', { from, to })
+      .orderBy('w.startAt', 'ASC')
+      .getMany();
+
+    const scheduled = new Set(entries.filter((e) => e.status !== 'cancelled').map((e) => e.installationRequestId));
+    const events = [
+      ...entries.map((e) => this.agendaEvent(e)),
+      ...windows.filter((w) => !w.installationRequestId || !scheduled.has(w.installationRequestId)).map((w) => this.ticketEvent(w)),
+    ];
+
+    const ics = buildICalendar({
+      prodId: '-//instalacion-backend//Agenda de instalaciones//ES',
+      name: `Instalaciones - ${technicianFullName(technician)}`,
+      timeZone: CHILE_TIMEZONE,
+      refreshMinutes: calendarConfig.refreshMinutes,
+      events,
+    });
+    return { technician, ics };
+  }
+}
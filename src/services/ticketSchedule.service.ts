@@ -0,0 +1,347 @@
+import { EntityManager, In, IsNull, Not } from 'typeorm';
+import AppDataSource, { initializeDataSource } from '../database/data-source';
+import { Agenda } from '../entities/Agenda';
+import { Technician } from '../entities/Technician';
+import { TechnicianTicketWindow } from '../entities/TechnicianTicketWindow';
+import { ACTIVE_AGENDA_STATUSES, technicianCapacity } from './capacity.service';
+import { technicianFullName } from './agenda.service';
+import { FieldErrors, validationError } from './installationValidation';
+import { capacityConfig, ticketScheduleConfig } from '../config';
+import {
+  formatDateTimeCL,
+  minutesToTime,
+  parseDateTimeCL,
+  parseTimeToMinutes,
+  toDateKeyCL,
+  toTimeCL,
+  weekdayOfDateKey,
+} from '../utils/date';
+import { normalizeText } from '../utils/text';
+import logger from '../utils/logger';
+
+// =========================================================================
+// VENTANAS DE LOS TICKETS DE GEONET POR TÉCNICO (cruces, traslados y horario)
+// =========================================================================
+
+export type TicketWindowInput = {
+  // Solo al editar; al crear el id se conoce después de guardar en Geonet
+  ticketId?: string | null;
+  fechaInicio?: string | null;
+  fechaFinal?: string | null;
+  tecnicoId?: string | null;
+  tecnicoName?: string | null;
+  installationRequestId?: number | null;
+  subject?: string | null;
+  actor?: string | null;
+};
+
+export type TicketConflictType = 'overlap' | 'travel_gap' | 'off_hours';
+
+export type TicketConflict = {
+  type: TicketConflictType;
+  message: string;
+  // El ticket o la cita de /agenda con que choca
+  ticketId?: string | null;
+  agendaId?: number;
+  startAt?: Date;
+  endAt?: Date;
+};
+
+// Ventana reservada como `pending` y conflictos encontrados; `window` es null si no hay técnico y fechas que revisar
+export type TicketReservation = { window: TechnicianTicketWindow | null; conflicts: TicketConflict[] };
+
+/**
+ * Id del ticket en la URL a la que redirige Geonet después de guardar (/tickets/ver/123/, /tickets/123/).
+ */
+export function extractTicketId(location: string | null | undefined): string | null {
+  const m = String(location ?? '').match(/\/tickets\/(?:[a-z_-]+\/)*(\d+)\/?(?:[?#].*)?$/i);
+  return m ? m[1] : null;
+}
+
+function conflictError(message: string, conflicts: TicketConflict[]): Error {
+  return Object.assign(new Error(message), { statusCode: 409, data: { message, conflicts } });
+}
+
+/**
+ * Registro local de las ventanas de los tickets de Geonet. Antes de crear o editar un ticket se reserva
+ * la ventana (`pending`) y se revisan cruces con otros tickets y con las citas de /agenda del técnico,
+ * el margen de traslado (CAPACITY_TRAVEL_BUFFER_MINUTES) y su horario; con modo estricto los conflictos
+ * rechazan el ticket (409). Si Geonet lo guarda, la reserva se confirma; si no, se libera.
+ */
+export class TicketScheduleService {
+  private async ensureDataSource(): Promise<void> {
+    if (!AppDataSource.isInitialized) {
+      await initializeDataSource();
+    }
+  }
+
+  private async findActive(ticketId: string): Promise<TechnicianTicketWindow | null> {
+    return AppDataSource.getRepository(TechnicianTicketWindow).findOne({ where: { ticketId, status: 'active' } });
+  }
+
+  /**
+   * Ventana a partir de `fechaInicio`/`fechaFinal`; al editar, lo que no venga se toma del ticket registrado.
+   */
+  private parseWindow(input: TicketWindowInput, existing: TechnicianTicketWindow | null): { startAt: Date; endAt: Date } | null {
+    const errors: FieldErrors = {};
+    const startAt = input.fechaInicio ? parseDateTimeCL(input.fechaInicio) : existing ? new Date(existing.startAt) : null;
+    const endAt = input.fechaFinal ? parseDateTimeCL(input.fechaFinal) : existing ? new Date(existing.endAt) : null;
+    if (input.fechaInicio && !startAt) errors.fechaInicio = ['Fecha y hora inválida (DD/MM/YYYY HH:mm o YYYY-MM-DDTHH:mm)'];
+    if (input.fechaFinal && !endAt) errors.fechaFinal = ['Fecha y hora inválida (DD/MM/YYYY HH:mm o YYYY-MM-DDTHH:mm)'];
+    if (startAt && endAt && endAt.getTime() <= startAt.getTime()) {
+      errors.fechaFinal = ['fechaFinal debe ser posterior a fechaInicio'];
+    }
+    if (Object.keys(errors).length > 0) throw validationError(errors);
+    return startAt && endAt ? { startAt, endAt } : null;
+  }
+
+  /**
+   * Técnico local por nombre o, con solo el id de Geonet, el de un ticket anterior con ese id.
+   * Se bloquea su fila para que dos tickets simultáneos del mismo técnico se revisen de a uno.
+   */
+  private async lockTechnician(m: EntityManager, geonetTechnicianId: string | null, technicianKey: string | null): Promise<Technician | null> {
+    let technicianId: number | null = null;
+    if (technicianKey) {
+      const technicians = await m.getRepository(Technician).find({ where: { isActive: true } });
+      technicianId = technicians.find((t) => normalizeText(technicianFullName(t)) === technicianKey)?.id ?? null;
+    }
+    if (!technicianId && geonetTechnicianId) {
+      const previous = await m.getRepository(TechnicianTicketWindow).findOne({
+        where: { geonetTechnicianId, technicianId: Not(IsNull()) },
+        order: { id: 'DESC' },
+      });
+      technicianId = previous?.technicianId ?? null;
+    }
+    if (!technicianId) return null;
+    return m
+      .getRepository(Technician)
+      .createQueryBuilder('t')
+      .setLock('pessimistic_write')
+      .where('t.id = :id', { id: technicianId })
+      .getOne();
+  }
+
+  private offHoursConflicts(technician: Technician | null, name: string, startAt: Date, endAt: Date): TicketConflict[] {
+    const capacity = technicianCapacity(technician);
+    const date = toDateKeyCL(startAt);
+    const conflicts: TicketConflict[] = [];
+    if (!capacity.workDays.includes(weekdayOfDateKey(date))) {
+      conflicts.push({ type: 'off_hours', message: `${name} no trabaja el ${date}` });
+    }
+    const start = parseTimeToMinutes(toTimeCL(startAt)) as number;
+    const end = toDateKeyCL(endAt) === date ? (parseTimeToMinutes(toTimeCL(endAt)) as number) : 24 * 60;
+    if (start < capacity.workStart || end > capacity.workEnd) {
+      conflicts.push({
+        type: 'off_hours',
+        message: `La ventana está fuera del horario de ${name} (${minutesToTime(capacity.workStart)}–${minutesToTime(capacity.workEnd)})`,
+      });
+    }
+    return conflicts;
+  }
+
+  /**
+   * Tickets y citas del técnico que se cruzan con la ventana o quedan a menos del margen de traslado.
+   * Lecturas con bloqueo para ver las reservas que otras transacciones acaban de confirmar.
+   */
+  private async scheduleConflicts(
+    m: EntityManager,
+    target: {
+      ticketId: string | null;
+      technicianId: number | null;
+      geonetTechnicianId: string | null;
+      technicianKey: string | null;
+      installationRequestId: number | null;
+      name: string;
+      startAt: Date;
+      endAt: Date;
+    },
+  ): Promise<TicketConflict[]> {
+    const buffer = capacityConfig.travelBufferMinutes * 60_000;
+    const from = new Date(target.startAt.getTime() - buffer);
+    const to = new Date(target.endAt.getTime() + buffer);
+    const classify = (startAt: Date, endAt: Date): TicketConflictType =>
+      new Date(startAt).getTime() < target.endAt.getTime() && new Date(endAt).getTime() > target.startAt.getTime()
+        ? 'overlap'
+        : 'travel_gap';
+    const describe = (type: TicketConflictType, what: string, startAt: Date, endAt: Date) =>
+      type === 'overlap'
+        ? `Se cruza con ${what} de ${target.name} (${formatDateTimeCL(startAt)}–${toTimeCL(new Date(endAt))})`
+        : `No deja ${capacityConfig.travelBufferMinutes} minutos de traslado con ${what} de ${target.name} (${formatDateTimeCL(startAt)}–${toTimeCL(new Date(endAt))})`;
+
+    const sameTechnician: string[] = [];
+    if (target.technicianId) sameTechnician.push('w.technicianId = :technicianId');
+    if (target.geonetTechnicianId) sameTechnician.push('w.geonetTechnicianId = :geonetTechnicianId');
+    if (target.technicianKey) sameTechnician.push('w.technicianKey = :technicianKey');
+
+    const windowsQuery = m
+      .getRepository(TechnicianTicketWindow)
+      .createQueryBuilder('w')
+      .setLock('pessimistic_read')
+      .where("(w.status = 'active' OR (w.status = 'pending' AND w.createdAt > :pendingSince))", {
+        pendingSince: new Date(Date.now() - ticketScheduleConfig.pendingTtlMinutes * 60_000),
+      })
+      .andWhere(`(${sameTechnician.join(' OR ')})`, {
+        technicianId: target.technicianId,
+        geonetTechnicianId: target.geonetTechnicianId,
+        technicianKey: target.technicianKey,
+      })
+      .andWhere('w.startAt < :to AND w.endAt > :from', { from, to })
+      .orderBy('w.startAt', 'ASC');
+    if (target.ticketId) windowsQuery.andWhere('(w.ticketId IS NULL OR w.ticketId <> :ticketId)', { ticketId: target.ticketId });
+    const windows = await windowsQuery.getMany();
+
+    // La cita de /agenda de la misma solicitud es la misma visita, no un cruce
+    const entries = target.technicianId
+      ? await m
+          .getRepository(Agenda)
+          .createQueryBuilder('a')
+          .setLock('pessimistic_read')
+          .where({ technicianId: target.technicianId, status: In(ACTIVE_AGENDA_STATUSES) })
+          .andWhere('a.startAt < :to AND a.endAt > :from', { from, to })
+          .orderBy('a.startAt', 'ASC')
+          .getMany()
+      : [];
+
+    return [
+      ...windows.map((w) => {
+        const type = classify(w.startAt, w.endAt);
+        const what = w.ticketId ? `el ticket ${w.ticketId}` : 'un ticket en curso';
+        return { type, message: describe(type, what, w.startAt, w.endAt), ticketId: w.ticketId, startAt: w.startAt, endAt: w.endAt };
+      }),
+      ...entries
+        .filter((e) => !target.installationRequestId || e.installationRequestId !== target.installationRequestId)
+        .map((e) => {
+          const type = classify(e.startAt, e.endAt);
+          return { type, message: describe(type, `la cita ${e.id}`, e.startAt, e.endAt), agendaId: e.id, startAt: e.startAt, endAt: e.endAt };
+        }),
+    ];
+  }
+
+  /**
+   * Revisa la ventana del ticket y la reserva como `pending` mientras se guarda en Geonet.
+   * `strict` (por defecto TICKET_CONFLICTS_STRICT) rechaza con 409 si hay conflictos; si no, vuelven como advertencias.
+   */
+  public async reserve(input: TicketWindowInput, opts: { strict?: boolean } = {}): Promise<TicketReservation> {
+    await this.ensureDataSource();
+    const ticketId = input.ticketId ? String(input.ticketId) : null;
+    const existing = ticketId ? await this.findActive(ticketId) : null;
+    const window = this.parseWindow(input, existing);
+
+    // Al editar sin técnico se conserva el del ticket registrado
+    const changesTechnician = !!(input.tecnicoId || input.tecnicoName);
+    const geonetTechnicianId = changesTechnician ? (input.tecnicoId ? String(input.tecnicoId) : null) : existing?.geonetTechnicianId ?? null;
+    const technicianName = changesTechnician ? String(input.tecnicoName ?? '').trim() || null : existing?.technicianName ?? null;
+    const technicianKey = technicianName ? normalizeText(technicianName) : null;
+    if (!window || (!geonetTechnicianId && !technicianKey)) return { window: null, conflicts: [] };
+
+    const strict = opts.strict ?? ticketScheduleConfig.strict;
+    const installationRequestId = input.installationRequestId ?? existing?.installationRequestId ?? null;
+
+    return AppDataSource.transaction(async (m) => {
+      const technician = await this.lockTechnician(m, geonetTechnicianId, technicianKey);
+      const name = technicianName || (technician ? technicianFullName(technician) : `el técnico ${geonetTechnicianId}`);
+      const conflicts = [
+        ...this.offHoursConflicts(technician, name, window.startAt, window.endAt),
+        ...(await this.scheduleConflicts(m, {
+          ticketId,
+          technicianId: technician?.id ?? null,
+          geonetTechnicianId,
+          technicianKey,
+          installationRequestId,
+          name,
+          startAt: window.startAt,
+          endAt: window.endAt,
+        })),
+      ];
+      if (strict && conflicts.length > 0) {
+        throw conflictError(`El ticket tiene ${conflicts.length} conflicto(s) de agenda para ${name}`, conflicts);
+      }
+
+      const repo = m.getRepository(TechnicianTicketWindow);
+      const pending = await repo.save(repo.create({
+        ticketId,
+        status: 'pending',
+        technicianId: technician?.id ?? null,
+        geonetTechnicianId,
+        technicianName: technicianName ?? (technician ? technicianFullName(technician) : null),
+        technicianKey: technicianKey ?? (technician ? normalizeText(technicianFullName(technician)) : null),
+        installationRequestId,
+        startAt: window.startAt,
+        endAt: window.endAt,
+        subject: String(input.subject ?? '').trim().slice(0, 255) || existing?.subject || null,
+        createdBy: input.actor ?? null,
+      }));
+      if (conflicts.length > 0) {
+        logger.warn('[TicketSchedule] Ticket con conflictos de agenda', { ticketId, technician: name, conflicts: conflicts.length });
+      }
+      return { window: pending, conflicts };
+    });
+  }
+
+  /**
+   * Geonet guardó el ticket: la reserva pasa a `active` o, si el ticket ya estaba registrado, actualiza
+   * esa fila (nueva ventana o técnico) y sube `sequence`. Sin id de ticket la reserva se libera: una
+   * ventana activa que no se puede encontrar para editarla o cancelarla bloquearía al técnico para siempre.
+   */
+  public async confirm(
+    reservation: TicketReservation,
+    result: { ticketId?: string | null; location?: string | null },
+  ): Promise<TechnicianTicketWindow | null> {
+    const pending = reservation.window;
+    if (!pending) return null;
+    await this.ensureDataSource();
+    // Al editar el id ya es conocido; al crear sale de la URL de Geonet
+    const ticketId = pending.ticketId ?? result.ticketId ?? null;
+    if (!ticketId) {
+      logger.warn('[TicketSchedule] Geonet no devolvió el id del ticket; la ventana no queda registrada', {
+        technician: pending.technicianName,
+        location: result.location ?? null,
+      });
+      await this.release(reservation);
+      return null;
+    }
+
+    return AppDataSource.transaction(async (m) => {
+      const repo = m.getRepository(TechnicianTicketWindow);
+      const current = await repo.findOne({ where: { ticketId, status: 'active' } });
+      if (!current) {
+        await repo.update(pending.id, { status: 'active', ticketId, location: result.location ?? null });
+        return repo.findOne({ where: { id: pending.id } });
+      }
+
+      Object.assign(current, {
+        technicianId: pending.technicianId,
+        geonetTechnicianId: pending.geonetTechnicianId,
+        technicianName: pending.technicianName,
+        technicianKey: pending.technicianKey,
+        installationRequestId: pending.installationRequestId,
+        startAt: pending.startAt,
+        endAt: pending.endAt,
+        subject: pending.subject ?? current.subject,
+        location: result.location ?? current.location,
+        sequence: current.sequence + 1,
+      });
+      await repo.delete(pending.id);
+      return repo.save(current);
+    });
+  }
+
+  // Geonet no guardó el ticket: la ventana queda libre
+  public async release(reservation: TicketReservation): Promise<void> {
+    if (!reservation.window) return;
+    await this.ensureDataSource();
+    await AppDataSource.getRepository(TechnicianTicketWindow).delete({ id: reservation.window.id, status: 'pending' });
+  }
+
+  // Ticket eliminado en Geonet: se conserva como `cancelled` (deja de ocupar la ventana)
+  public async cancel(ticketId: string): Promise<number> {
+    await this.ensureDataSource();
+    const result = await AppDataSource.getRepository(TechnicianTicketWindow)
+      .createQueryBuilder()
+      .update(TechnicianTicketWindow)
+      .set({ status: 'cancelled', cancelledAt: new Date(), sequence: () => '`sequence` + 1' })
+      .where('ticketId = :ticketId AND status = :status', { ticketId, status: 'active' })
+      .execute();
+    return result.affected ?? 0;
+  }
+}
@@ -0,0 +1,227 @@
+import net from 'net';
+import { Request } from 'express';
+import { FileFilterCallback } from 'multer';
+import sharp from 'sharp';
+import { DocumentField } from '../entities/InstallationRequest';
+import { uploadSecurityConfig } from '../config';
+import { DetectedFileType, FileKind, IMAGE_FILE_KINDS, detectFileType, extensionMatches } from '../utils/fileType';
+import { heicDimensions, openHeic } from '../utils/image';
+import logger from '../utils/logger';
+
+// =========================================================================
+// VALIDACIÓN DE ARCHIVOS SUBIDOS (tipo real, integridad, antivirus)
+// =========================================================================
+
+export type UploadCandidate = {
+  field: DocumentField;
+  buffer: Buffer;
+  originalName: string;
+};
+
+export type VirusScanResult = {
+  clean: boolean;
+  signature?: string | null;
+};
+
+export interface VirusScanner {
+  readonly name: string;
+  scan(buffer: Buffer): Promise<VirusScanResult>;
+}
+
+// El carnet debe ser foto; el comprobante de domicilio y el cupón pueden venir como PDF
+export const ALLOWED_FILE_KINDS: Record<DocumentField, readonly FileKind[]> = {
+  idFront: IMAGE_FILE_KINDS,
+  idBack: IMAGE_FILE_KINDS,
+  addressProof: [...IMAGE_FILE_KINDS, 'pdf'],
+  coupon: [...IMAGE_FILE_KINDS, 'pdf'],
+};
+
+// MIME declarado por el cliente: solo un primer filtro en multer, el tipo real se verifica por contenido
+const DECLARED_MIME_TYPES = new Set([
+  'image/jpeg', 'image/jpg', 'image/pjpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif',
+  'image/heic-sequence', 'image/heif-sequence', 'application/pdf', 'application/octet-stream', '',
+]);
+
+const KIND_LABELS: Record<FileKind, string> = { jpeg: 'JPEG', png: 'PNG', webp: 'WebP', heic: 'HEIC', pdf: 'PDF' };
+
+/**
+ * Sin antivirus configurado (VIRUS_SCANNER=none): todo archivo se considera limpio.
+ */
+export class NoopVirusScanner implements VirusScanner {
+  public readonly name = 'none';
+
+  public async scan(): Promise<VirusScanResult> {
+    return { clean: true };
+  }
+}
+
+/**
+ * Escaneo con el daemon de ClamAV (clamd) usando el comando INSTREAM sobre TCP.
+ */
+export class ClamAvVirusScanner implements VirusScanner {
+  public readonly name = 'clamav';
+  private static readonly CHUNK_SIZE = 64 * 1024;
+
+  constructor(
+    private readonly host = uploadSecurityConfig.clamavHost,
+    private readonly port = uploadSecurityConfig.clamavPort,
+    private readonly timeoutMs = uploadSecurityConfig.clamavTimeoutMs,
+  ) {}
+
+  public scan(buffer: Buffer): Promise<VirusScanResult> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      const chunks: Buffer[] = [];
+      socket.setTimeout(this.timeoutMs);
+
+      socket.on('connect', () => {
+        socket.write('zINSTREAM\0');
+        for (let offset = 0; offset < buffer.length; offset += ClamAvVirusScanner.CHUNK_SIZE) {
+          const chunk = buffer.subarray(offset, offset + ClamAvVirusScanner.CHUNK_SIZE);
+          const size = Buffer.alloc(4);
+          size.writeUInt32BE(chunk.length, 0);
+          socket.write(size);
+          socket.write(chunk);
+        }
+        socket.write(Buffer.alloc(4));
+      });
+      socket.on('data', (data: Buffer) => chunks.push(data));
+      socket.on('timeout', () => socket.destroy(new Error(`clamd no respondió en ${this.timeoutMs}ms`)));
+      socket.on('error', reject);
+      socket.on('close', (hadError) => {
+        if (hadError) return;
+        // Respuestas: "stream: OK" o "stream: <firma> FOUND"
+        const reply = Buffer.concat(chunks).toString('utf8').replace(/\0/g, '').trim();
+        const found = /^stream:\s*(.+)\s+FOUND$/i.exec(reply);
+        if (found) return resolve({ clean: false, signature: found[1] });
+        if (/^stream:\s*OK$/i.test(reply)) return resolve({ clean: true });
+        reject(new Error(`Respuesta inesperada de clamd: ${reply || '(vacía)'}`));
+      });
+    });
+  }
+}
+
+/**
+ * fileFilter de multer: descarta de entrada los archivos con un MIME declarado que nunca es válido (html, exe, zip...).
+ */
+export function uploadFileFilter(_req: Request, file: Express.Multer.File, cb: FileFilterCallback): void {
+  const mimeType = String(file.mimetype || '').toLowerCase();
+  if (DECLARED_MIME_TYPES.has(mimeType)) {
+    cb(null, true);
+    return;
+  }
+  cb(Object.assign(new Error(`Tipo de archivo no permitido: ${mimeType}`), {
+    statusCode: 400,
+    data: { [file.fieldname]: [`Tipo de archivo no permitido (${mimeType})`] },
+  }));
+}
+
+export function createVirusScanner(): VirusScanner {
+  switch (uploadSecurityConfig.virusScanner) {
+    case 'clamav':
+      return new ClamAvVirusScanner();
+    case 'none':
+    case '':
+      return new NoopVirusScanner();
+    default:
+      logger.warn(`UploadSafety: antivirus desconocido "${uploadSecurityConfig.virusScanner}", escaneo desactivado`);
+      return new NoopVirusScanner();
+  }
+}
+
+let defaultScanner: VirusScanner | undefined;
+
+export function getDefaultVirusScanner(): VirusScanner {
+  if (!defaultScanner) defaultScanner = createVirusScanner();
+  return defaultScanner;
+}
+
+/**
+ * Verifica cada archivo antes de guardarlo: tipo real por magic bytes permitido para el campo,
+ * extensión coherente, archivo completo, dimensiones razonables y antivirus.
+ * Los rechazos se lanzan juntos como 400 con `data` = { campo: [mensajes] }.
+ */
+export class UploadSafetyService {
+  constructor(private readonly scanner: VirusScanner = getDefaultVirusScanner()) {}
+
+  public async assertSafe(uploads: UploadCandidate[]): Promise<void> {
+    const errors: Record<string, string[]> = {};
+    for (const upload of uploads) {
+      const problem = await this.inspect(upload);
+      if (problem) errors[upload.field] = [problem];
+    }
+
+    const fields = Object.keys(errors);
+    if (fields.length) {
+      logger.warn(`UploadSafety: archivos rechazados (${fields.join(', ')})`, { errors });
+      throw Object.assign(new Error(`Archivo rechazado: ${fields.join(', ')}`), { statusCode: 400, data: errors });
+    }
+  }
+
+  // Devuelve el motivo del rechazo, o null si el archivo es aceptable
+  private async inspect(upload: UploadCandidate): Promise<string | null> {
+    const { field, buffer, originalName } = upload;
+    if (!buffer?.length) return 'El archivo está vacío';
+
+    const type = detectFileType(buffer);
+    const allowed = ALLOWED_FILE_KINDS[field];
+    const allowedLabel = allowed.map((kind) => KIND_LABELS[kind]).join(', ');
+    if (!type || !allowed.includes(type.kind)) {
+      return `Tipo de archivo no permitido; se acepta ${allowedLabel}`;
+    }
+    if (!extensionMatches(originalName, type)) {
+      return `La extensión de ${originalName} no corresponde al contenido (${KIND_LABELS[type.kind]})`;
+    }
+
+    const integrity = type.kind === 'pdf' ? this.checkPdf(buffer) : await this.checkImage(buffer, type);
+    if (integrity) return integrity;
+
+    return this.scan(field, buffer);
+  }
+
+  private checkPdf(buffer: Buffer): string | null {
+    const tail = buffer.toString('latin1', Math.max(0, buffer.length - 1024));
+    return tail.includes('%%EOF') ? null : 'El PDF está incompleto o dañado';
+  }
+
+  private async checkImage(buffer: Buffer, type: DetectedFileType): Promise<string | null> {
+    const { maxPixels } = uploadSecurityConfig;
+    let width: number | undefined;
+    let height: number | undefined;
+    try {
+      // libvips sin soporte HEVC no lee HEIC: sus dimensiones salen de libheif
+      ({ width, height } = type.kind === 'heic' ? await heicDimensions(buffer) : await sharp(buffer, { limitInputPixels: false }).metadata());
+    } catch {
+      return 'La imagen está dañada o no se puede leer';
+    }
+
+    if (!width || !height) return 'La imagen está dañada o no se puede leer';
+    if (width * height > maxPixels) {
+      return `La imagen es demasiado grande (${width}x${height}); máximo ${Math.floor(maxPixels / 1e6)} megapíxeles`;
+    }
+
+    // Decodificar completa (reducida) detecta archivos cortados a mitad de la carga
+    try {
+      const image = type.kind === 'heic' ? await openHeic(buffer) : sharp(buffer, { failOn: 'truncated', limitInputPixels: maxPixels });
+      await image.resize(64, 64, { fit: 'inside' }).toBuffer();
+    } catch {
+      return 'La imagen está incompleta o dañada';
+    }
+    return null;
+  }
+
+  private async scan(field: DocumentField, buffer: Buffer): Promise<string | null> {
+    let result: VirusScanResult;
+    try {
+      result = await this.scanner.scan(buffer);
+    } catch (err: any) {
+      logger.error(`UploadSafety: error del antivirus (${this.scanner.name}) escaneando ${field}: ${err?.message || err}`);
+      if (uploadSecurityConfig.failOpen) return null;
+      throw Object.assign(new Error('No se pudo verificar el archivo con el antivirus, intente nuevamente'), { statusCode: 503 });
+    }
+    if (result.clean) return null;
+
+    logger.warn(`UploadSafety: ${field} infectado (${result.signature ?? 'sin firma'})`);
+    return 'El archivo fue rechazado por el antivirus';
+  }
+}
@@ -0,0 +1,398 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { In, LessThanOrEqual } from 'typeorm';
+import AppDataSource, { initializeDataSource } from '../database/data-source';
+import { WEBHOOK_EVENTS, WebhookEvent, WebhookSubscription } from '../entities/WebhookSubscription';
+import { WEBHOOK_DELIVERY_STATUSES, WebhookDelivery, WebhookDeliveryStatus } from '../entities/WebhookDelivery';
+import { notificationConfig } from '../config';
+import logger from '../utils/logger';
+
+// =========================================================================
+// WEBHOOKS SALIENTES: SUSCRIPCIONES, FIRMA Y REGISTRO DE ENTREGAS
+// =========================================================================
+
+export type WebhookSubscriptionInput = {
+  url?: unknown;
+  events?: unknown;
+  secret?: unknown;
+  description?: unknown;
+  isActive?: unknown;
+};
+
+// La clave solo se devuelve completa al crear o rotar; en listados va enmascarada
+export type WebhookSubscriptionView = Omit<WebhookSubscription, 'secret'> & { secret?: string; secretPreview: string };
+
+const RESPONSE_BODY_LIMIT = 2000;
+
+// Datos que no quedan en `payload` (se listan en /webhooks/:id/deliveries): se guardan aparte y se agregan al enviar
+const SENSITIVE_FIELDS = ['statusToken'];
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === 'string' && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+export function isWebhookDeliveryStatus(value: unknown): value is WebhookDeliveryStatus {
+  return typeof value === 'string' && (WEBHOOK_DELIVERY_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Firma enviada en X-Webhook-Signature: `sha256=` + HMAC-SHA256 hex de `<timestamp>.<body>`
+ * con la clave de la suscripción (timestamp = X-Webhook-Timestamp, segundos Unix).
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+function backoffDelayMs(attempts: number): number {
+  const { baseDelayMs, maxDelayMs } = notificationConfig;
+  return Math.min(baseDelayMs * 2 ** Math.max(0, attempts - 1), maxDelayMs);
+}
+
+function subscribes(subscription: WebhookSubscription, event: WebhookEvent): boolean {
+  const events = subscription.events ?? [];
+  return events.includes('*') || events.includes(event);
+}
+
+function toView(subscription: WebhookSubscription, revealSecret = false): WebhookSubscriptionView {
+  const { secret, ...rest } = subscription;
+  return {
+    ...rest,
+    ...(revealSecret ? { secret } : {}),
+    secretPreview: `…${String(secret ?? '').slice(-4)}`,
+  };
+}
+
+function validationError(errors: Record<string, string[]>): Error {
+  return Object.assign(new Error('Suscripción inválida'), { statusCode: 400, data: { errors } });
+}
+
+/**
+ * Registro de suscripciones y entrega de eventos. `publish` crea una entrega por suscripción
+ * activa y la intenta en el acto; las que fallan quedan `pending` y las reintenta el worker
+ * con backoff exponencial hasta agotar WEBHOOK_MAX_ATTEMPTS (`failed`).
+ */
+export class WebhookService {
+  private async ensureDataSource(): Promise<void> {
+    if (!AppDataSource.isInitialized) {
+      await initializeDataSource();
+    }
+  }
+
+  private parseInput(input: WebhookSubscriptionInput, partial: boolean): Partial<WebhookSubscription> {
+    const errors: Record<string, string[]> = {};
+    const changes: Partial<WebhookSubscription> = {};
+
+    if (input.url !== undefined || !partial) {
+      const raw = String(input.url ?? '').trim();
+      let valid = false;
+      try {
+        const url = new URL(raw);
+        valid = url.protocol === 'https:' || url.protocol === 'http:';
+      } catch {
+        valid = false;
+      }
+      if (!valid || raw.length > 2048) errors.url = ['url debe ser una URL http(s) válida'];
+      else changes.url = raw;
+    }
+
+    if (input.events !== undefined || !partial) {
+      const list = Array.isArray(input.events)
+        ? input.events
+        : String(input.events ?? '').split(',');
+      const events = Array.from(new Set(list.map((e) => String(e).trim()).filter(Boolean)));
+      const unknown = events.filter((e) => e !== '*' && !isWebhookEvent(e));
+      if (!events.length) errors.events = ['events es requerido (lista de eventos o "*")'];
+      else if (unknown.length) errors.events = [`Eventos desconocidos: ${unknown.join(', ')}`];
+      else changes.events = events;
+    }
+
+    if (input.secret !== undefined && input.secret !== null && input.secret !== '') {
+      const secret = String(input.secret);
+      if (secret.length < 16 || secret.length > 255) errors.secret = ['secret debe tener entre 16 y 255 caracteres'];
+      else changes.secret = secret;
+    }
+
+    if (input.description !== undefined) {
+      changes.description = input.description === null ? null : String(input.description).slice(0, 255);
+    }
+
+    if (input.isActive !== undefined) {
+      if (typeof input.isActive === 'boolean') changes.isActive = input.isActive;
+      else if (['true', 'false'].includes(String(input.isActive))) changes.isActive = String(input.isActive) === 'true';
+      else errors.isActive = ['isActive debe ser true o false'];
+    }
+
+    if (Object.keys(errors).length) throw validationError(errors);
+    return changes;
+  }
+
+  private async getSubscription(id: number): Promise<WebhookSubscription> {
+    await this.ensureDataSource();
+    const subscription = await AppDataSource.getRepository(WebhookSubscription).findOne({ where: { id } });
+    if (!subscription) throw Object.assign(new Error('Suscripción no encontrada'), { statusCode: 404 });
+    return subscription;
+  }
+
+  public async listSubscriptions(): Promise<WebhookSubscriptionView[]> {
+    await this.ensureDataSource();
+    const subscriptions = await AppDataSource.getRepository(WebhookSubscription).find({ order: { id: 'ASC' } });
+    return subscriptions.map((s) => toView(s));
+  }
+
+  public async createSubscription(input: WebhookSubscriptionInput, actor: string): Promise<WebhookSubscriptionView> {
+    const changes = this.parseInput(input, false);
+    await this.ensureDataSource();
+    const repo = AppDataSource.getRepository(WebhookSubscription);
+    const saved = await repo.save(repo.create({
+      ...changes,
+      secret: changes.secret ?? generateSecret(),
+      isActive: changes.isActive ?? true,
+      createdBy: actor,
+    }));
+    logger.info(`Webhooks: suscripción ${saved.id} (${saved.url}) creada por ${actor}`, { events: saved.events });
+    return toView(saved, true);
+  }
+
+  /**
+   * Cambios parciales; `rotateSecret: true` genera una clave nueva y la devuelve.
+   */
+  public async updateSubscription(
+    id: number,
+    input: WebhookSubscriptionInput & { rotateSecret?: unknown },
+    actor: string,
+  ): Promise<WebhookSubscriptionView> {
+    const changes = this.parseInput(input, true);
+    const subscription = await this.getSubscription(id);
+    const rotate = input.rotateSecret === true || String(input.rotateSecret) === 'true';
+    if (rotate && !changes.secret) changes.secret = generateSecret();
+
+    Object.assign(subscription, changes);
+    const saved = await AppDataSource.getRepository(WebhookSubscription).save(subscription);
+    logger.info(`Webhooks: suscripción ${id} actualizada por ${actor}`, { fields: Object.keys(changes).filter((f) => f !== 'secret'), rotatedSecret: !!changes.secret });
+    return toView(saved, !!changes.secret);
+  }
+
+  // Las entregas se conservan como registro; las pendientes quedan `failed` al intentar enviarlas
+  public async deleteSubscription(id: number, actor: string): Promise<void> {
+    const subscription = await this.getSubscription(id);
+    await AppDataSource.getRepository(WebhookSubscription).delete(subscription.id);
+    logger.info(`Webhooks: suscripción ${id} (${subscription.url}) eliminada por ${actor}`);
+  }
+
+  public async listDeliveries(subscriptionId: number, opts: { status?: WebhookDeliveryStatus[]; limit?: number } = {}): Promise<WebhookDelivery[]> {
+    await this.getSubscription(subscriptionId);
+    return AppDataSource.getRepository(WebhookDelivery).find({
+      where: opts.status?.length ? { subscriptionId, status: In(opts.status) } : { subscriptionId },
+      order: { createdAt: 'DESC', id: 'DESC' },
+      take: Math.min(Math.max(opts.limit ?? 100, 1), 500),
+    });
+  }
+
+  /**
+   * Encola el evento para cada suscripción activa que lo escucha e intenta la entrega en segundo plano.
+   */
+  public async publish(event: WebhookEvent, data: Record<string, any>): Promise<WebhookDelivery[]> {
+    await this.ensureDataSource();
+    const subscriptions = (await AppDataSource.getRepository(WebhookSubscription).find({ where: { isActive: true } }))
+      .filter((s) => subscribes(s, event));
+    if (!subscriptions.length) {
+      logger.info(`Webhooks: sin suscripciones para ${event}`);
+      return [];
+    }
+
+    const eventId = crypto.randomUUID();
+    const visible: Record<string, any> = {};
+    const sensitive: Record<string, any> = {};
+    for (const [key, value] of Object.entries(data)) {
+      if (SENSITIVE_FIELDS.includes(key) && value != null) sensitive[key] = value;
+      else visible[key] = value;
+    }
+    const payload = JSON.stringify({ event, eventId, occurredAt: new Date().toISOString(), ...visible });
+    const sensitiveData = Object.keys(sensitive).length ? JSON.stringify(sensitive) : null;
+    const repo = AppDataSource.getRepository(WebhookDelivery);
+    const deliveries = await repo.save(subscriptions.map((s) => repo.create({
+      subscriptionId: s.id,
+      event,
+      eventId,
+      payload,
+      sensitiveData,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: new Date(),
+    })));
+
+    for (const delivery of deliveries) {
+      this.deliver(delivery.id).catch((err) => {
+        logger.error(`Webhooks: error entregando ${delivery.id}: ${err?.message || err}`);
+      });
+    }
+    return deliveries;
+  }
+
+  // Toma la entrega de forma atómica (el envío en línea y el worker pueden coincidir)
+  private async claim(deliveryId: number): Promise<boolean> {
+    const staleBefore = new Date(Date.now() - notificationConfig.lockTimeoutMs);
+    const result = await AppDataSource.getRepository(WebhookDelivery)
+      .createQueryBuilder()
+      .update()
+      .set({ status: 'delivering', lockedAt: new Date() })
+      .where('id = :id', { id: deliveryId })
+      .andWhere("(status = 'pending' OR (status = 'delivering' AND lockedAt < :staleBefore))", { staleBefore })
+      .execute();
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * Un intento de entrega. Devuelve null si otro proceso la tomó.
+   */
+  public async deliver(deliveryId: number): Promise<WebhookDelivery | null> {
+    await this.ensureDataSource();
+    if (!(await this.claim(deliveryId))) return null;
+
+    const repo = AppDataSource.getRepository(WebhookDelivery);
+    const delivery = await repo
+      .createQueryBuilder('d')
+      .addSelect('d.sensitiveData')
+      .where('d.id = :id', { id: deliveryId })
+      .getOneOrFail();
+    const subscription = await AppDataSource.getRepository(WebhookSubscription).findOne({ where: { id: delivery.subscriptionId } });
+    delivery.lockedAt = null;
+
+    if (!subscription || !subscription.isActive) {
+      Object.assign(delivery, { status: 'failed', lastError: subscription ? 'Suscripción desactivada' : 'Suscripción eliminada' });
+      return repo.save(delivery);
+    }
+
+    const body = delivery.sensitiveData
+      ? JSON.stringify({ ...JSON.parse(delivery.payload), ...JSON.parse(delivery.sensitiveData) })
+      : delivery.payload;
+    const timestamp = Math.floor(Date.now() / 1000);
+    const started = Date.now();
+    delivery.attempts += 1;
+    try {
+      const response = await axios.post(subscription.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'instalacion-backend-webhooks',
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Id': delivery.eventId,
+          'X-Webhook-Delivery': String(delivery.id),
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': signWebhookPayload(subscription.secret, timestamp, body),
+        },
+        timeout: notificationConfig.timeoutMs,
+        responseType: 'text',
+        transformResponse: (body) => body,
+        validateStatus: () => true,
+      });
+      delivery.responseStatus = response.status;
+      delivery.responseBody = response.data ? String(response.data).slice(0, RESPONSE_BODY_LIMIT) : null;
+      delivery.lastError = response.status >= 200 && response.status < 300 ? null : `El receptor respondió ${response.status}`;
+    } catch (err: any) {
+      delivery.responseStatus = null;
+      delivery.responseBody = null;
+      delivery.lastError = String(err?.message || err);
+    }
+    delivery.durationMs = Date.now() - started;
+
+    if (!delivery.lastError) {
+      delivery.status = 'delivered';
+      delivery.deliveredAt = new Date();
+      // Entregado: el token ya no se necesita (un reenvío manual sale sin él)
+      delivery.sensitiveData = null;
+      logger.info(`Webhooks: ${delivery.event} entregado a ${subscription.url} (${delivery.responseStatus})`, { deliveryId: delivery.id });
+    } else if (delivery.attempts >= notificationConfig.maxAttempts) {
+      delivery.status = 'failed';
+      logger.error(`Webhooks: ${delivery.event} a ${subscription.url} falló tras ${delivery.attempts} intentos: ${delivery.lastError}`, { deliveryId: delivery.id });
+    } else {
+      delivery.status = 'pending';
+      delivery.nextAttemptAt = new Date(Date.now() + backoffDelayMs(delivery.attempts));
+      logger.warn(`Webhooks: ${delivery.event} a ${subscription.url} intento ${delivery.attempts} falló (${delivery.lastError}), reintento ${delivery.nextAttemptAt.toISOString()}`);
+    }
+    return repo.save(delivery);
+  }
+
+  /**
+   * Procesa las entregas vencidas (pendientes o bloqueadas por un proceso caído). Devuelve cuántas procesó.
+   */
+  public async processDue(limit = notificationConfig.batchSize): Promise<number> {
+    await this.ensureDataSource();
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - notificationConfig.lockTimeoutMs);
+    const due = await AppDataSource.getRepository(WebhookDelivery).find({
+      select: ['id'],
+      where: [
+        { status: 'pending', nextAttemptAt: LessThanOrEqual(now) },
+        { status: 'delivering', lockedAt: LessThanOrEqual(staleBefore) },
+      ],
+      order: { nextAttemptAt: 'ASC' },
+      take: limit,
+    });
+
+    let processed = 0;
+    for (const { id } of due) {
+      try {
+        if (await this.deliver(id)) processed += 1;
+      } catch (err: any) {
+        logger.error(`Webhooks: error procesando la entrega ${id}: ${err?.message || err}`);
+      }
+    }
+    return processed;
+  }
+
+  /**
+   * Reenvío manual de una entrega (p. ej. `failed`): vuelve a `pending` con el mismo cuerpo y eventId y se intenta en el acto.
+   */
+  public async redeliver(deliveryId: number, actor: string): Promise<WebhookDelivery> {
+    await this.ensureDataSource();
+    const repo = AppDataSource.getRepository(WebhookDelivery);
+    const delivery = await repo.findOne({ where: { id: deliveryId } });
+    if (!delivery) throw Object.assign(new Error('Entrega no encontrada'), { statusCode: 404 });
+    if (delivery.status === 'delivering') {
+      throw Object.assign(new Error('La entrega está en curso'), { statusCode: 409 });
+    }
+
+    await repo.update(delivery.id, { status: 'pending', attempts: 0, nextAttemptAt: new Date(), lastError: null });
+    logger.info(`Webhooks: reenvío de la entrega ${deliveryId} solicitado por ${actor}`);
+    const result = await this.deliver(delivery.id);
+    return result ?? repo.findOneOrFail({ where: { id: delivery.id } });
+  }
+
+  /**
+   * Registra como suscripciones las URL de n8n configuradas por variables de entorno (si no existen ya).
+   */
+  public async ensureConfiguredSubscriptions(): Promise<void> {
+    const configured: Array<{ url: string; events: WebhookEvent[]; description: string }> = [
+      {
+        url: notificationConfig.installationCreatedWebhookUrl,
+        events: ['installation.created'],
+        description: 'n8n: solicitud creada (N8N_CREATED_WEBHOOK_URL)',
+      },
+      {
+        url: notificationConfig.technicianConfirmationWebhookUrl,
+        events: ['installation.confirmed', 'installation.proposed', 'installation.unconfirmed'],
+        description: 'n8n: confirmación del técnico (N8N_CONFIRMATION_WEBHOOK_URL)',
+      },
+    ];
+
+    await this.ensureDataSource();
+    const repo = AppDataSource.getRepository(WebhookSubscription);
+    for (const item of configured) {
+      if (!item.url) continue;
+      if (await repo.exists({ where: { url: item.url } })) continue;
+      const saved = await repo.save(repo.create({
+        url: item.url,
+        events: item.events,
+        secret: generateSecret(),
+        description: item.description,
+        isActive: true,
+        createdBy: 'env',
+      }));
+      logger.info(`Webhooks: suscripción ${saved.id} registrada desde la configuración (${item.url})`);
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { WebhookService } from './webhook.service';
+import { notificationConfig } from '../config';
+import logger from '../utils/logger';
+
+// Worker de webhooks: registra las URL de n8n configuradas y cada WEBHOOK_POLL_MS reintenta las entregas vencidas
+export function startWebhookDeliveryWorker() {
+  const service = new WebhookService();
+  let running = false;
+
+  service.ensureConfiguredSubscriptions().catch((err) => {
+    const errorMsg = err instanceof Error ? err.message : String(err);
+    logger.error(`WebhookDeliveryWorker: could not register configured subscriptions: ${errorMsg}`);
+  });
+
+  const timer = setInterval(async () => {
+    // Evita ejecuciones superpuestas si un lote tarda más que el intervalo
+    if (running) return;
+    running = true;
+    try {
+      const processed = await service.processDue();
+      if (processed) logger.info(`WebhookDeliveryWorker: processed ${processed} deliveries`);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      logger.error(`WebhookDeliveryWorker: run error: ${errorMsg}`);
+    } finally {
+      running = false;
+    }
+  }, notificationConfig.pollIntervalMs);
+  timer.unref();
+
+  logger.info(`WebhookDeliveryWorker: polling every ${notificationConfig.pollIntervalMs}ms`);
+  return timer;
+}
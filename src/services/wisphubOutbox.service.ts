@@ -0,0 +1,294 @@
+import axios from 'axios';
+import FormData from 'form-data';
+import jpeg from 'jpeg-js';
+import { EntityManager, In, IsNull, LessThanOrEqual } from 'typeorm';
+import AppDataSource, { initializeDataSource } from '../database/data-source';
+import { DOCUMENT_FIELDS, InstallationRequest } from '../entities/InstallationRequest';
+import { InstallationDocument } from '../entities/InstallationDocument';
+import { WISPHUB_OUTBOX_STATUSES, WisphubOutboxEntry, WisphubOutboxStatus } from '../entities/WisphubOutboxEntry';
+import { wisphubConfig, wisphubOutboxConfig } from '../config';
+import { FileService } from './file.service';
+import { WISPHUB_DOCUMENT_FIELDS, extractWisphubRequestId } from './installationDocument.service';
+import logger from '../utils/logger';
+
+// =========================================================================
+// OUTBOX DE ENVÍOS A WISPHUB (solicitar-instalacion)
+// =========================================================================
+
+export type WisphubSubmitResult = {
+  status: number | null;
+  data: any;
+  error?: string | null;
+};
+
+export type WisphubOutboxOutcome = {
+  entry: WisphubOutboxEntry;
+  request: InstallationRequest | null;
+  result: WisphubSubmitResult | null;
+};
+
+export function isWisphubOutboxStatus(value: unknown): value is WisphubOutboxStatus {
+  return typeof value === 'string' && (WISPHUB_OUTBOX_STATUSES as readonly string[]).includes(value);
+}
+
+export function isWisphubConfigured(): boolean {
+  return !!(wisphubConfig.apiUrl && wisphubConfig.apiKey);
+}
+
+// 4xx que no se corrigen reintentando (datos inválidos, dni duplicado); 408 y 429 sí se reintentan
+export function isPermanentWisphubError(status: number | null): boolean {
+  return status !== null && status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+function backoffDelayMs(attempts: number): number {
+  const { baseDelayMs, maxDelayMs } = wisphubOutboxConfig;
+  return Math.min(baseDelayMs * 2 ** Math.max(0, attempts - 1), maxDelayMs);
+}
+
+// Wisphub exige las cuatro imágenes: los documentos que faltan se envían como JPEG en blanco
+function generatePlaceholderImage(): Buffer {
+  const width = 500;
+  const height = 500;
+  const frameData = Buffer.alloc(width * height * 4, 0xff); // RGBA blanco
+  return jpeg.encode({ data: frameData, width, height }, 80).data;
+}
+
+function describeError(result: WisphubSubmitResult): string {
+  if (result.error) return result.error;
+  const body = result.data === undefined || result.data === null ? '' : JSON.stringify(result.data);
+  return `Wisphub respondió ${result.status ?? 'sin estado'}${body ? `: ${body.slice(0, 1000)}` : ''}`;
+}
+
+/**
+ * La solicitud se guarda antes de llamar a Wisphub y el envío queda en `wisphub_outbox`.
+ * createRequest procesa la entrada en línea (para devolver al cliente los 4xx de validación);
+ * si Wisphub no responde o da 5xx, el worker la reintenta con backoff exponencial.
+ */
+export class WisphubOutboxService {
+  private fileService = new FileService();
+
+  private async ensureDataSource(): Promise<void> {
+    if (!AppDataSource.isInitialized) {
+      await initializeDataSource();
+    }
+  }
+
+  /**
+   * Con `inline` el primer intento lo hace quien encola: el worker no la toma hasta pasado WISPHUB_OUTBOX_LOCK_TIMEOUT_MS,
+   * así no le gana el claim al envío en línea (y un 4xx llega al cliente); si ese proceso cae, el worker la retoma.
+   */
+  public async enqueue(
+    requestId: number,
+    opts: { manager?: EntityManager; replayedBy?: string | null; inline?: boolean } = {},
+  ): Promise<WisphubOutboxEntry> {
+    const manager = opts.manager ?? AppDataSource.manager;
+    const repo = manager.getRepository(WisphubOutboxEntry);
+    return repo.save(repo.create({
+      installationRequestId: requestId,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: new Date(Date.now() + (opts.inline ? wisphubOutboxConfig.lockTimeoutMs : 0)),
+      replayedBy: opts.replayedBy ?? null,
+    }));
+  }
+
+  private async appendFile(form: InstanceType<typeof FormData>, field: string, fileName: string | null): Promise<boolean> {
+    if (!fileName) return false;
+    const stored = await this.fileService.stat(fileName);
+    if (!stored) return false;
+    // knownLength: con S3 el stream no es un archivo y form-data no puede calcular el largo
+    form.append(field, (await this.fileService.openReadStream(fileName)) as any, { filename: fileName, knownLength: stored.size });
+    return true;
+  }
+
+  private async submit(request: InstallationRequest): Promise<WisphubSubmitResult> {
+    const { apiUrl, apiKey } = wisphubConfig;
+    if (!apiUrl || !apiKey) return { status: null, data: null, error: 'Wisphub no configurado' };
+
+    const form = new FormData();
+    form.append('firstname', request.firstName || '');
+    form.append('lastname', request.lastName || '');
+    form.append('dni', request.ci || '');
+    form.append('address', request.address || '');
+    form.append('phone_number', request.phone || '');
+    form.append('email', request.email || '');
+    form.append('location', request.neighborhood || '');
+    form.append('city', request.city || '');
+    form.append('postal_code', request.postalCode || '');
+    form.append('aditional_phone_number', request.additionalPhone || '');
+    form.append('commentaries', request.comments || '');
+    form.append('coordenadas', request.coordinates || '');
+
+    for (const field of DOCUMENT_FIELDS) {
+      const appended = await this.appendFile(form, WISPHUB_DOCUMENT_FIELDS[field], request[field] as string | null);
+      if (!appended) {
+        form.append(WISPHUB_DOCUMENT_FIELDS[field], generatePlaceholderImage(), { filename: `fake_${field}.jpg`, contentType: 'image/jpeg' });
+      }
+    }
+
+    try {
+      const response = await axios.post(apiUrl, form, {
+        headers: { ...form.getHeaders(), Authorization: `Api-Key ${apiKey}` },
+        timeout: wisphubOutboxConfig.requestTimeoutMs,
+      });
+      return { status: response.status, data: response.data };
+    } catch (err: any) {
+      return {
+        status: err?.response?.status ?? null,
+        data: err?.response?.data ?? null,
+        error: err?.response ? null : String(err?.message || err),
+      };
+    }
+  }
+
+  // Toma la entrada de forma atómica (varias réplicas pueden correr el worker)
+  private async claim(entryId: number): Promise<boolean> {
+    const staleBefore = new Date(Date.now() - wisphubOutboxConfig.lockTimeoutMs);
+    const result = await AppDataSource.getRepository(WisphubOutboxEntry)
+      .createQueryBuilder()
+      .update()
+      .set({ status: 'processing', lockedAt: new Date() })
+      .where('id = :id', { id: entryId })
+      .andWhere("(status = 'pending' OR (status = 'processing' AND lockedAt < :staleBefore))", { staleBefore })
+      .execute();
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * Un intento de envío. Con `rejectOnClientError` (envío en línea al crear) un 4xx deja la
+   * entrada como `rejected`; en reintentos de fondo queda `failed` para revisión manual.
+   */
+  public async processEntry(entryId: number, opts: { rejectOnClientError?: boolean } = {}): Promise<WisphubOutboxOutcome | null> {
+    await this.ensureDataSource();
+    if (!(await this.claim(entryId))) return null;
+
+    const outboxRepo = AppDataSource.getRepository(WisphubOutboxEntry);
+    const requestRepo = AppDataSource.getRepository(InstallationRequest);
+    const entry = await outboxRepo.findOneOrFail({ where: { id: entryId } });
+    const request = await requestRepo.findOne({ where: { id: entry.installationRequestId } });
+
+    if (!request) {
+      Object.assign(entry, { status: 'failed', lockedAt: null, lastError: 'La solicitud fue eliminada', completedAt: new Date() });
+      await outboxRepo.save(entry);
+      return { entry, request: null, result: null };
+    }
+
+    const result = await this.submit(request);
+    const now = new Date();
+    entry.attempts += 1;
+    entry.lastStatus = result.status;
+    entry.responseData = result.data ?? null;
+    entry.lockedAt = null;
+
+    let status: WisphubOutboxStatus;
+    if (result.status !== null && result.status < 400) {
+      status = 'done';
+      entry.lastError = null;
+      entry.completedAt = now;
+      Object.assign(request, {
+        wisphubSyncStatus: 'synced',
+        wisphubRequestId: extractWisphubRequestId(result.data) ?? request.wisphubRequestId,
+        wisphubSyncedAt: now,
+        wisphubSyncError: null,
+      });
+      // Los documentos iniciales recién ahora están en Wisphub
+      await AppDataSource.getRepository(InstallationDocument).update(
+        { installationRequestId: request.id, version: 1, wisphubSyncedAt: IsNull() },
+        { wisphubSyncedAt: now },
+      );
+    } else {
+      entry.lastError = describeError(result);
+      if (isPermanentWisphubError(result.status)) {
+        status = opts.rejectOnClientError ? 'rejected' : 'failed';
+      } else if (entry.attempts >= wisphubOutboxConfig.maxAttempts) {
+        status = 'failed';
+      } else {
+        status = 'pending';
+        entry.nextAttemptAt = new Date(now.getTime() + backoffDelayMs(entry.attempts));
+      }
+      if (status !== 'pending') entry.completedAt = now;
+      Object.assign(request, {
+        wisphubSyncStatus: status === 'pending' ? 'pending' : status,
+        wisphubSyncError: entry.lastError,
+      });
+    }
+    entry.status = status;
+
+    await outboxRepo.save(entry);
+    await requestRepo.update(request.id, {
+      wisphubSyncStatus: request.wisphubSyncStatus,
+      wisphubRequestId: request.wisphubRequestId,
+      wisphubSyncedAt: request.wisphubSyncedAt,
+      wisphubSyncError: request.wisphubSyncError,
+    });
+
+    const log = status === 'done' ? logger.info.bind(logger) : logger.warn.bind(logger);
+    log(`WisphubOutbox: solicitud ${request.id} intento ${entry.attempts} → ${status} (${result.status ?? 'sin respuesta'})`);
+    return { entry, request, result };
+  }
+
+  /**
+   * Procesa las entradas vencidas (pendientes o bloqueadas por un proceso caído). Devuelve cuántas procesó.
+   */
+  public async processDue(limit = wisphubOutboxConfig.batchSize): Promise<number> {
+    await this.ensureDataSource();
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - wisphubOutboxConfig.lockTimeoutMs);
+    const due = await AppDataSource.getRepository(WisphubOutboxEntry).find({
+      select: ['id'],
+      where: [
+        { status: 'pending', nextAttemptAt: LessThanOrEqual(now) },
+        { status: 'processing', lockedAt: LessThanOrEqual(staleBefore) },
+      ],
+      order: { nextAttemptAt: 'ASC' },
+      take: limit,
+    });
+
+    let processed = 0;
+    for (const { id } of due) {
+      try {
+        if (await this.processEntry(id)) processed += 1;
+      } catch (err: any) {
+        logger.error(`WisphubOutbox: error procesando la entrada ${id}: ${err?.message || err}`);
+      }
+    }
+    return processed;
+  }
+
+  public async list(statuses: WisphubOutboxStatus[] = ['failed']): Promise<WisphubOutboxEntry[]> {
+    await this.ensureDataSource();
+    return AppDataSource.getRepository(WisphubOutboxEntry).find({
+      where: { status: In(statuses) },
+      order: { updatedAt: 'DESC', id: 'DESC' },
+      take: 500,
+    });
+  }
+
+  /**
+   * Reenvío manual: crea una entrada nueva para la solicitud y la procesa en el acto.
+   * 409 si ya está sincronizada o tiene un envío en curso.
+   */
+  public async replay(requestId: number, actor: string): Promise<WisphubOutboxOutcome> {
+    await this.ensureDataSource();
+    const request = await AppDataSource.getRepository(InstallationRequest).findOne({ where: { id: requestId } });
+    if (!request) throw Object.assign(new Error('InstallationRequest no encontrada'), { statusCode: 404 });
+    if (!isWisphubConfigured()) {
+      throw Object.assign(new Error('Wisphub no configurado'), { statusCode: 503 });
+    }
+    if (request.wisphubRequestId || request.wisphubSyncStatus === 'synced') {
+      throw Object.assign(new Error('La solicitud ya está registrada en Wisphub'), { statusCode: 409 });
+    }
+    const inFlight = await AppDataSource.getRepository(WisphubOutboxEntry).exists({
+      where: { installationRequestId: requestId, status: In(['pending', 'processing']) },
+    });
+    if (inFlight) {
+      throw Object.assign(new Error('La solicitud ya tiene un envío a Wisphub en curso'), { statusCode: 409 });
+    }
+
+    const entry = await this.enqueue(requestId, { replayedBy: actor, inline: true });
+    logger.info(`WisphubOutbox: reenvío de la solicitud ${requestId} solicitado por ${actor}`);
+    const outcome = await this.processEntry(entry.id);
+    if (!outcome) throw Object.assign(new Error('El envío fue tomado por otro proceso'), { statusCode: 409 });
+    return outcome;
+  }
+}
@@ -0,0 +1,33 @@
+import { WisphubOutboxService, isWisphubConfigured } from './wisphubOutbox.service';
+import { wisphubOutboxConfig } from '../config';
+import logger from '../utils/logger';
+
+// Worker del outbox de Wisphub: cada WISPHUB_OUTBOX_POLL_MS reintenta los envíos vencidos
+export function startWisphubOutboxWorker() {
+  if (!isWisphubConfigured()) {
+    logger.warn('WisphubOutboxWorker: WISPHUB_API_KEY not set — worker disabled');
+    return;
+  }
+
+  const service = new WisphubOutboxService();
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Evita ejecuciones superpuestas si un lote tarda más que el intervalo
+    if (running) return;
+    running = true;
+    try {
+      const processed = await service.processDue();
+      if (processed) logger.info(`WisphubOutboxWorker: processed ${processed} submissions`);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      logger.error(`WisphubOutboxWorker: run error: ${errorMsg}`);
+    } finally {
+      running = false;
+    }
+  }, wisphubOutboxConfig.pollIntervalMs);
+  timer.unref();
+
+  logger.info(`WisphubOutboxWorker: polling every ${wisphubOutboxConfig.pollIntervalMs}ms`);
+  return timer;
+}
@@ -0,0 +1,12 @@
+// heic-decode no publica tipos: decodifica HEIC/HEIF con libheif (WebAssembly) a píxeles RGBA
+declare module 'heic-decode' {
+  type HeicInput = { buffer: Buffer | Uint8Array | ArrayBuffer };
+  type HeicPixels = { width: number; height: number; data: Uint8ClampedArray };
+  type HeicImage = { width: number; height: number; decode(): Promise<HeicPixels> };
+
+  function decode(input: HeicInput): Promise<HeicPixels>;
+  namespace decode {
+    function all(input: HeicInput): Promise<HeicImage[] & { dispose(): void }>;
+  }
+  export = decode;
+}
@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+
+// =========================================================================
+// FIRMA AWS SIGNATURE V4 (S3 y compatibles: MinIO, R2, Spaces...)
+// =========================================================================
+
+export type SigV4Credentials = {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+  service: string;
+};
+
+export const EMPTY_PAYLOAD_SHA256 = crypto.createHash('sha256').update('').digest('hex');
+
+export function sha256Hex(data: Buffer | string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data, 'utf8').digest();
+}
+
+// RFC 3986: encodeURIComponent deja sin codificar !'()* y S3 los exige codificados
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function canonicalQuery(url: URL): string {
+  return Array.from(url.searchParams.entries())
+    .map(([k, v]) => [encodeRfc3986(k), encodeRfc3986(v)])
+    .sort(([ak, av], [bk, bv]) => (ak === bk ? (av < bv ? -1 : 1) : ak < bk ? -1 : 1))
+    .map(([k, v]) => `${k}=${v}`)
+    .join('&');
+}
+
+/**
+ * Devuelve los headers a enviar (los recibidos más host, x-amz-date, x-amz-content-sha256 y Authorization).
+ * Se firman todos los headers recibidos; `url.pathname` debe venir ya codificado.
+ */
+export function signRequest(params: {
+  method: string;
+  url: URL;
+  headers?: Record<string, string>;
+  payloadHash?: string;
+  credentials: SigV4Credentials;
+  date?: Date;
+}): Record<string, string> {
+  const { method, url, credentials } = params;
+  const payloadHash = params.payloadHash ?? EMPTY_PAYLOAD_SHA256;
+  const amzDate = (params.date ?? new Date()).toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const day = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {
+    ...(params.headers ?? {}),
+    host: url.host,
+    'x-amz-date': amzDate,
+    'x-amz-content-sha256': payloadHash,
+  };
+  const normalized = Object.entries(headers)
+    .map(([k, v]) => [k.toLowerCase(), String(v).trim().replace(/\s+/g, ' ')])
+    .sort(([a], [b]) => (a < b ? -1 : 1));
+  const signedHeaders = normalized.map(([k]) => k).join(';');
+
+  const canonicalRequest = [
+    method.toUpperCase(),
+    url.pathname || '/',
+    canonicalQuery(url),
+    `${normalized.map(([k, v]) => `${k}:${v}`).join('\n')}\n`,
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+
+  const scope = `${day}/${credentials.region}/${credentials.service}/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, day), credentials.region), credentials.service), 'aws4_request');
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+
+  return {
+    ...headers,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
@@ -0,0 +1,133 @@
+export const CHILE_TIMEZONE = 'America/Santiago';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Interpreta una fecha escrita por el cliente o por n8n ("2025-03-10", "10/03/2025",
+ * "10-03-2025", "Lunes 10/03/2025") y devuelve la clave YYYY-MM-DD, o null si no se reconoce.
+ */
+export function parseDateKey(value: string | Date | null | undefined): string | null {
+  if (!value) return null;
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : toDateKeyCL(value);
+
+  const s = String(value).trim();
+  const iso = s.match(/(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return `${iso[1]}-${pad(Number(iso[2]))}-${pad(Number(iso[3]))}`;
+
+  const cl = s.match(/(\d{1,2})[/-](\d{1,2})[/-](\d{4})/);
+  if (cl) return `${cl[3]}-${pad(Number(cl[2]))}-${pad(Number(cl[1]))}`;
+
+  return null;
+}
+
+/**
+ * Convierte "HH:mm" (o "HH:mm:ss") a minutos desde medianoche, o null si no es válido.
+ */
+export function parseTimeToMinutes(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const m = String(value).trim().match(/^([01]?\d|2[0-3]):([0-5]\d)(?::[0-5]\d)?$/);
+  if (!m) return null;
+  return Number(m[1]) * 60 + Number(m[2]);
+}
+
+export function minutesToTime(minutes: number): string {
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+/**
+ * Suma días a una clave YYYY-MM-DD (negativo para restar).
+ */
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  const date = new Date(Date.UTC(y, m - 1, d + days));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+/**
+ * Día de la semana de una clave YYYY-MM-DD (0 = domingo … 6 = sábado).
+ */
+export function weekdayOfDateKey(dateKey: string): number {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
+
+function getZoneParts(date: Date, timeZone: string): Record<string, number> {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hour12: false,
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  // Intl con hour12:false puede devolver '24' para medianoche
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour') % 24, minute: get('minute'), second: get('second') };
+}
+
+/**
+ * Clave YYYY-MM-DD del instante en hora de Chile.
+ */
+export function toDateKeyCL(date: Date): string {
+  const p = getZoneParts(date, CHILE_TIMEZONE);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+/**
+ * Hora de pared "HH:mm" del instante en hora de Chile.
+ */
+export function toTimeCL(date: Date): string {
+  const p = getZoneParts(date, CHILE_TIMEZONE);
+  return `${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+/**
+ * "dd/mm/aaaa HH:mm" en hora de Chile (formato de Geonet y de las exportaciones); '' si no hay fecha válida.
+ */
+export function formatDateTimeCL(value: Date | string | null | undefined): string {
+  if (!value) return '';
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return '';
+  const p = getZoneParts(date, CHILE_TIMEZONE);
+  return `${pad(p.day)}/${pad(p.month)}/${p.year} ${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+/**
+ * Interpreta una fecha y hora de Geonet o de n8n ("10/03/2025 10:00:00", "2025-03-10 10:00",
+ * "2025-03-10T10:00") como hora de pared en Chile; un ISO con Z u offset se respeta. null si no se reconoce.
+ */
+export function parseDateTimeCL(value: string | Date | null | undefined): Date | null {
+  if (!value) return null;
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value;
+
+  const s = String(value).trim();
+  if (/^\d{4}-\d{2}-\d{2}T.*(?:Z|[+-]\d{2}:?\d{2})$/i.test(s)) {
+    const date = new Date(s);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  const m = s.match(/^(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[/-]\d{1,2}[/-]\d{4})[T ]+(\d{1,2}:\d{2})(?::\d{2}(?:\.\d+)?)?$/);
+  if (!m) return null;
+  const dateKey = parseDateKey(m[1]);
+  const minutes = parseTimeToMinutes(m[2]);
+  return dateKey && minutes !== null ? zonedDateTimeToUtc(dateKey, minutesToTime(minutes)) : null;
+}
+
+/**
+ * Instante UTC correspondiente a una fecha + hora de pared en Chile (maneja horario de verano).
+ */
+export function zonedDateTimeToUtc(dateKey: string, time: string, timeZone = CHILE_TIMEZONE): Date {
+  const [y, mo, d] = dateKey.split('-').map(Number);
+  const minutes = parseTimeToMinutes(time) ?? 0;
+  const asUtc = Date.UTC(y, mo - 1, d, Math.floor(minutes / 60), minutes % 60, 0);
+
+  // Offset de la zona en ese instante; se recalcula una vez por si cruza un cambio de horario
+  const offsetAt = (instant: number) => {
+    const p = getZoneParts(new Date(instant), timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - instant;
+  };
+  let result = asUtc - offsetAt(asUtc);
+  result = asUtc - offsetAt(result);
+  return new Date(result);
+}
@@ -0,0 +1,62 @@
+import path from 'path';
+
+// =========================================================================
+// DETECCIÓN DEL TIPO DE ARCHIVO POR SU CONTENIDO (magic bytes)
+// =========================================================================
+
+export type FileKind = 'jpeg' | 'png' | 'webp' | 'heic' | 'pdf';
+
+export type DetectedFileType = {
+  kind: FileKind;
+  mimeType: string;
+  // La primera es la que se usa al guardar
+  extensions: string[];
+};
+
+export const IMAGE_FILE_KINDS: readonly FileKind[] = ['jpeg', 'png', 'webp', 'heic'];
+
+const FILE_TYPES: Record<FileKind, Omit<DetectedFileType, 'kind'>> = {
+  jpeg: { mimeType: 'image/jpeg', extensions: ['.jpg', '.jpeg', '.jfif'] },
+  png: { mimeType: 'image/png', extensions: ['.png'] },
+  webp: { mimeType: 'image/webp', extensions: ['.webp'] },
+  heic: { mimeType: 'image/heic', extensions: ['.heic', '.heif'] },
+  pdf: { mimeType: 'application/pdf', extensions: ['.pdf'] },
+};
+
+// Marcas ISO-BMFF (caja ftyp) de las fotos HEIC/HEIF de iPhone y Android
+const HEIF_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1']);
+
+function startsWith(buffer: Buffer, bytes: number[], offset = 0): boolean {
+  return buffer.length >= offset + bytes.length && bytes.every((b, i) => buffer[offset + i] === b);
+}
+
+function detectKind(buffer: Buffer): FileKind | null {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') return 'webp';
+  if (buffer.toString('latin1', 4, 8) === 'ftyp' && HEIF_BRANDS.has(buffer.toString('latin1', 8, 12))) return 'heic';
+  if (buffer.toString('latin1', 0, 5) === '%PDF-') return 'pdf';
+  return null;
+}
+
+export function detectFileType(buffer: Buffer): DetectedFileType | null {
+  const kind = detectKind(buffer);
+  return kind ? { kind, ...FILE_TYPES[kind] } : null;
+}
+
+/**
+ * MIME según la extensión de un archivo ya guardado (los nombres en uploads/ usan la extensión detectada).
+ */
+export function mimeTypeForFileName(fileName: string): string {
+  const ext = path.extname(fileName || '').toLowerCase();
+  const match = Object.values(FILE_TYPES).find((type) => type.extensions.includes(ext));
+  return match?.mimeType ?? 'application/octet-stream';
+}
+
+/**
+ * true si el nombre no tiene extensión o si su extensión corresponde al tipo detectado.
+ */
+export function extensionMatches(fileName: string, type: DetectedFileType): boolean {
+  const ext = path.extname(fileName || '').toLowerCase();
+  return !ext || type.extensions.includes(ext);
+}
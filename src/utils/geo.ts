@@ -0,0 +1,119 @@
+export type LatLng = { lat: number; lng: number };
+
+const EARTH_RADIUS_METERS = 6_371_000;
+
+/**
+ * Interpreta coordenadas en el formato que usan los formularios y Geonet ("-33.45,-70.66",
+ * también con espacios o punto y coma). Devuelve null si no son un par lat/lng válido.
+ */
+export function parseCoordinates(raw: string | null | undefined): LatLng | null {
+  if (!raw) return null;
+  const parts = String(raw).trim().split(/\s*[,;]\s*|\s+/).filter(Boolean);
+  if (parts.length !== 2) return null;
+  const lat = Number(parts[0]);
+  const lng = Number(parts[1]);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+}
+
+/**
+ * Distancia en metros sobre la esfera terrestre (fórmula de haversine).
+ */
+export function haversineMeters(a: LatLng, b: LatLng): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+export type BoundingBox = { minLat: number; minLng: number; maxLat: number; maxLng: number };
+
+// Chile continental, insular (Juan Fernández, Rapa Nui) y antártico cercano
+export const CHILE_BOUNDS: BoundingBox = { minLat: -56.6, minLng: -109.7, maxLat: -17.4, maxLng: -66.0 };
+
+export function isWithinBounds(point: LatLng, box: BoundingBox): boolean {
+  return point.lat >= box.minLat && point.lat <= box.maxLat && point.lng >= box.minLng && point.lng <= box.maxLng;
+}
+
+export function isWithinChile(point: LatLng): boolean {
+  return isWithinBounds(point, CHILE_BOUNDS);
+}
+
+export type ChileanCoordinatesResult =
+  | { ok: true; point: LatLng }
+  | { ok: false; reason: 'format' | 'outside_chile' };
+
+/**
+ * Igual que `parseCoordinates`, pero exige que el punto esté en Chile. Si viene
+ * invertido ("lng,lat", error frecuente al copiar desde mapas) se corrige.
+ */
+export function parseChileanCoordinates(raw: string | null | undefined): ChileanCoordinatesResult {
+  const point = parseCoordinates(raw);
+  if (!point) return { ok: false, reason: 'format' };
+  if (isWithinChile(point)) return { ok: true, point };
+  const swapped = { lat: point.lng, lng: point.lat };
+  if (isWithinChile(swapped)) return { ok: true, point: swapped };
+  return { ok: false, reason: 'outside_chile' };
+}
+
+/**
+ * Formato canónico "lat,lng" con 7 decimales (~1 cm) que se guarda en los campos de texto.
+ */
+export function formatCoordinates(point: LatLng): string {
+  const round = (n: number) => Number(n.toFixed(7));
+  return `${round(point.lat)},${round(point.lng)}`;
+}
+
+/**
+ * Caja que contiene el círculo de `radiusMeters` alrededor de `center`; sirve para
+ * prefiltrar por índice antes de calcular la distancia exacta.
+ */
+export function boundingBoxAround(center: LatLng, radiusMeters: number): BoundingBox {
+  const latDelta = (radiusMeters / EARTH_RADIUS_METERS) * (180 / Math.PI);
+  const lngDelta = latDelta / Math.max(Math.cos((center.lat * Math.PI) / 180), 0.01);
+  return {
+    minLat: center.lat - latDelta,
+    maxLat: center.lat + latDelta,
+    minLng: center.lng - lngDelta,
+    maxLng: center.lng + lngDelta,
+  };
+}
+
+export function parseBoundingBox(raw: string | null | undefined): BoundingBox | null {
+  if (!raw) return null;
+  const parts = String(raw).split(',').map((p) => Number(p.trim()));
+  if (parts.length !== 4 || parts.some((n) => !Number.isFinite(n))) return null;
+  const [minLat, minLng, maxLat, maxLng] = parts;
+  if (minLat > maxLat || minLng > maxLng) return null;
+  return { minLat, minLng, maxLat, maxLng };
+}
+
+/**
+ * Posición de una solicitud: `latitude`/`longitude` si están, si no el texto `coordinates`.
+ */
+export function resolvePosition(source: {
+  latitude?: number | null;
+  longitude?: number | null;
+  coordinates?: string | null;
+}): LatLng | null {
+  if (source.latitude !== null && source.latitude !== undefined && source.longitude !== null && source.longitude !== undefined) {
+    return { lat: Number(source.latitude), lng: Number(source.longitude) };
+  }
+  return parseCoordinates(source.coordinates);
+}
+
+/**
+ * Enlace de Google Maps al punto (abre la app de mapas en el teléfono).
+ */
+export function mapsUrl(point: LatLng): string {
+  return `https://www.google.com/maps/search/?api=1&query=${point.lat},${point.lng}`;
+}
+
+/**
+ * Enlace de Google Maps con el recorrido por los puntos en orden (el primero es el origen).
+ */
+export function mapsDirectionsUrl(points: LatLng[]): string {
+  return `https://www.google.com/maps/dir/${points.map((p) => `${p.lat},${p.lng}`).join('/')}`;
+}
@@ -0,0 +1,104 @@
+// =========================================================================
+// iCalendar (RFC 5545): lo justo para publicar un feed de solo lectura
+// =========================================================================
+
+export type ICalEventStatus = 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+
+export type ICalEvent = {
+  // Estable para el mismo evento: los clientes actualizan en vez de duplicar
+  uid: string;
+  // Sube con cada cambio del evento
+  sequence: number;
+  status: ICalEventStatus;
+  start: Date;
+  end: Date;
+  // Última modificación (DTSTAMP y LAST-MODIFIED)
+  updatedAt: Date;
+  createdAt?: Date | null;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  geo?: { lat: number; lng: number } | null;
+  url?: string | null;
+};
+
+export type ICalCalendar = {
+  prodId: string;
+  name: string;
+  timeZone?: string;
+  refreshMinutes?: number;
+  events: ICalEvent[];
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Instante en UTC con el formato de iCalendar (20250310T130000Z).
+ */
+export function formatICalDate(date: Date): string {
+  const d = new Date(date);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+}
+
+// Valores TEXT: se escapan \ ; , y los saltos de línea
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Líneas de máximo 75 octetos; la continuación empieza con un espacio y no se cortan caracteres UTF-8
+function foldLine(line: string): string {
+  const lines: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const ch of line) {
+    const size = Buffer.byteLength(ch);
+    if (bytes + size > (lines.length ? 74 : 75)) {
+      lines.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += ch;
+    bytes += size;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+}
+
+function eventLines(event: ICalEvent): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatICalDate(event.updatedAt)}`,
+    `LAST-MODIFIED:${formatICalDate(event.updatedAt)}`,
+  ];
+  if (event.createdAt) lines.push(`CREATED:${formatICalDate(event.createdAt)}`);
+  lines.push(
+    `DTSTART:${formatICalDate(event.start)}`,
+    `DTEND:${formatICalDate(event.end)}`,
+    `STATUS:${event.status}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  );
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.geo) lines.push(`GEO:${event.geo.lat};${event.geo.lng}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  // Los cancelados no deben ocupar tiempo en el calendario del técnico
+  lines.push(`TRANSP:${event.status === 'CANCELLED' ? 'TRANSPARENT' : 'OPAQUE'}`, 'END:VEVENT');
+  return lines;
+}
+
+/**
+ * Calendario completo (METHOD:PUBLISH) con fin de línea CRLF.
+ */
+export function buildICalendar(calendar: ICalCalendar): string {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${calendar.prodId}`, 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+  lines.push(`X-WR-CALNAME:${escapeText(calendar.name)}`);
+  if (calendar.timeZone) lines.push(`X-WR-TIMEZONE:${calendar.timeZone}`);
+  if (calendar.refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshMinutes}M`, `X-PUBLISHED-TTL:PT${calendar.refreshMinutes}M`);
+  }
+  for (const event of calendar.events) lines.push(...eventLines(event));
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
@@ -0,0 +1,85 @@
+import sharp from 'sharp';
+import decodeHeic from 'heic-decode';
+import { detectFileType } from './fileType';
+
+// =========================================================================
+// NORMALIZACIÓN DE FOTOS DE DOCUMENTOS (carnet, comprobante de domicilio)
+// =========================================================================
+
+export type ImageNormalizeOptions = {
+  // Lado mayor máximo en píxeles; las imágenes más chicas no se agrandan
+  maxDimension: number;
+  quality: number;
+  thumbnailSize: number;
+  thumbnailQuality: number;
+};
+
+export type NormalizedImage = {
+  normalized: Buffer;
+  thumbnail: Buffer;
+  width: number;
+  height: number;
+  // Formato detectado del archivo original (jpeg, png, webp, heif...)
+  sourceFormat: string;
+};
+
+/**
+ * Ancho y alto de la imagen principal de un HEIC/HEIF sin decodificar los píxeles.
+ */
+export async function heicDimensions(buffer: Buffer): Promise<{ width: number; height: number }> {
+  const images = await decodeHeic.all({ buffer });
+  try {
+    const [main] = images;
+    return { width: main.width, height: main.height };
+  } finally {
+    images.dispose();
+  }
+}
+
+/**
+ * Imagen principal de un HEIC/HEIF (fotos de iPhone) como entrada de sharp. Los binarios de sharp no traen el
+ * decodificador HEVC, así que se decodifica con libheif (WebAssembly); libheif ya aplica la rotación del
+ * archivo (irot/imir) y los píxeles RGBA no llevan EXIF ni GPS.
+ */
+export async function openHeic(buffer: Buffer): Promise<sharp.Sharp> {
+  const { width, height, data } = await decodeHeic({ buffer });
+  return sharp(Buffer.from(data.buffer, data.byteOffset, data.byteLength), { raw: { width, height, channels: 4 } });
+}
+
+/**
+ * Rota según EXIF, descarta metadatos (incluido GPS), limita la resolución y recomprime a JPEG.
+ * Los HEIC se decodifican con openHeic. Devuelve null si no se reconoce el archivo como imagen (PDF, etc.).
+ */
+export async function normalizeImage(buffer: Buffer, opts: ImageNormalizeOptions): Promise<NormalizedImage | null> {
+  let sourceFormat: string | undefined;
+  let input: sharp.Sharp;
+  if (detectFileType(buffer)?.kind === 'heic') {
+    sourceFormat = 'heic';
+    input = await openHeic(buffer);
+  } else {
+    try {
+      ({ format: sourceFormat } = await sharp(buffer).metadata());
+    } catch {
+      return null;
+    }
+    if (!sourceFormat || sourceFormat === 'pdf' || sourceFormat === 'svg') return null;
+    // rotate() sin argumentos aplica la orientación EXIF; sin withMetadata() la salida no lleva EXIF
+    input = sharp(buffer, { failOn: 'none' }).rotate();
+  }
+
+  const base = input.flatten({ background: '#ffffff' });
+
+  const { data: normalized, info } = await base
+    .clone()
+    .resize({ width: opts.maxDimension, height: opts.maxDimension, fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: opts.quality, mozjpeg: true })
+    .toBuffer({ resolveWithObject: true });
+
+  const thumbnail = await base
+    .clone()
+    .resize({ width: opts.thumbnailSize, height: opts.thumbnailSize, fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: opts.thumbnailQuality })
+    .toBuffer();
+
+  return { normalized, thumbnail, width: info.width, height: info.height, sourceFormat };
+}
@@ -0,0 +1,49 @@
+// =========================================================================
+// RUT CHILENO: VALIDACIÓN MÓDULO 11 Y FORMATOS
+// =========================================================================
+
+/**
+ * Cuerpo + dígito verificador sin puntos ni guión, con la K en mayúscula (ej: "12345678K").
+ * Devuelve null si no tiene forma de RUT (1-8 dígitos + DV); el dígito verificador lo revisa isValidRut.
+ */
+export function normalizeRut(raw: string | null | undefined): string | null {
+  const cleaned = String(raw ?? '').replace(/[^0-9kK]/g, '').toUpperCase();
+  const m = cleaned.match(/^(\d+)([0-9K])$/);
+  if (!m) return null;
+  // Ceros a la izquierda del cuerpo no cambian el RUT ("01.234.567-4" = "1.234.567-4")
+  const body = m[1].replace(/^0+(?=\d)/, '');
+  if (body.length > 8 || body === '0') return null;
+  return `${body}${m[2]}`;
+}
+
+export function computeRutDv(body: string): string {
+  let sum = 0;
+  let multiplier = 2;
+  for (let i = body.length - 1; i >= 0; i--) {
+    sum += Number(body[i]) * multiplier;
+    multiplier = multiplier === 7 ? 2 : multiplier + 1;
+  }
+  const rest = 11 - (sum % 11);
+  if (rest === 11) return '0';
+  if (rest === 10) return 'K';
+  return String(rest);
+}
+
+export function isValidRut(raw: string | null | undefined): boolean {
+  const normalized = normalizeRut(raw);
+  if (!normalized) return false;
+  return computeRutDv(normalized.slice(0, -1)) === normalized.slice(-1);
+}
+
+/**
+ * Formato canónico con el que se guarda `InstallationRequest.ci` (ej: "12.345.678-K").
+ * Con `dots: false` devuelve "12345678-K", el formato que espera Geonet en `perfil-cedula`.
+ */
+export function formatRut(raw: string | null | undefined, opts: { dots?: boolean } = {}): string | null {
+  const normalized = normalizeRut(raw);
+  if (!normalized) return null;
+  const body = normalized.slice(0, -1);
+  const dv = normalized.slice(-1);
+  const formattedBody = opts.dots === false ? body : body.replace(/\B(?=(\d{3})+(?!\d))/g, '.');
+  return `${formattedBody}-${dv}`;
+}
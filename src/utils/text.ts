@@ -0,0 +1,26 @@
+/**
+ * Minúsculas, sin tildes y con espacios colapsados. Base de todas las comparaciones
+ * aproximadas de nombres (clientes, staff, opciones de formularios de Geonet).
+ */
+export function normalizeText(value: string): string {
+  return value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Similitud entre textos ya normalizados: 1 si `candidate` contiene a `target`,
+ * si no, la proporción de tokens compartidos (Jaccard).
+ */
+export function calculateSimilarityScore(target: string, candidate: string): number {
+  if (!target || !candidate) return 0;
+  if (candidate.includes(target)) return 1;
+
+  const targetTokens = new Set(target.split(' ').filter(Boolean));
+  const candidateTokens = new Set(candidate.split(' ').filter(Boolean));
+  if (targetTokens.size === 0 || candidateTokens.size === 0) return 0;
+
+  let overlap = 0;
+  for (const token of targetTokens) {
+    if (candidateTokens.has(token)) overlap += 1;
+  }
+  return overlap / new Set([...targetTokens, ...candidateTokens]).size;
+}
@@ -0,0 +1,95 @@
+import { Writable } from 'stream';
+import { ZipWriter } from './zip';
+
+// =========================================================================
+// XLSX MÍNIMO EN STREAMING: una hoja, encabezado en negrita, celdas de texto o número
+// =========================================================================
+
+export type XlsxCell = string | number | null | undefined;
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+
+// Estilo 0: normal; estilo 1: negrita (encabezado)
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`;
+
+function escapeXml(value: string): string {
+  return value
+    // Caracteres de control no permitidos en XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function renderRow(rowNumber: number, cells: XlsxCell[], style = 0): string {
+  const s = style ? ` s="${style}"` : '';
+  const xml = cells.map((value, i) => {
+    const ref = `${columnName(i)}${rowNumber}`;
+    if (value === null || value === undefined || value === '') return '';
+    if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"${s}><v>${value}</v></c>`;
+    return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+  });
+  return `<row r="${rowNumber}">${xml.join('')}</row>`;
+}
+
+async function* renderSheet(headers: string[], rows: AsyncIterable<XlsxCell[]>): AsyncGenerator<string> {
+  yield '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">';
+  // Encabezado fijo al desplazarse
+  yield '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>';
+  yield renderRow(1, headers, 1);
+
+  let rowNumber = 1;
+  let buffer: string[] = [];
+  for await (const cells of rows) {
+    rowNumber += 1;
+    buffer.push(renderRow(rowNumber, cells));
+    if (buffer.length >= 200) {
+      yield buffer.join('');
+      buffer = [];
+    }
+  }
+  if (buffer.length) yield buffer.join('');
+
+  const lastColumn = columnName(Math.max(headers.length - 1, 0));
+  yield `</sheetData><autoFilter ref="A1:${lastColumn}${rowNumber}"/></worksheet>`;
+}
+
+/**
+ * Escribe en `out` un libro con una hoja (`sheetName`) a medida que `rows` entrega las filas.
+ * No cierra `out`.
+ */
+export async function writeXlsx(
+  out: Writable,
+  sheet: { sheetName: string; headers: string[]; rows: AsyncIterable<XlsxCell[]> },
+): Promise<void> {
+  // Excel limita el nombre de la hoja a 31 caracteres y prohíbe []:*?/\
+  const sheetName = escapeXml(sheet.sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Hoja1');
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${sheetName}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+  const zip = new ZipWriter(out);
+  await zip.addEntry('[Content_Types].xml', CONTENT_TYPES);
+  await zip.addEntry('_rels/.rels', ROOT_RELS);
+  await zip.addEntry('xl/workbook.xml', workbook);
+  await zip.addEntry('xl/_rels/workbook.xml.rels', WORKBOOK_RELS);
+  await zip.addEntry('xl/styles.xml', STYLES);
+  await zip.addEntry('xl/worksheets/sheet1.xml', renderSheet(sheet.headers, sheet.rows));
+  await zip.finish();
+}
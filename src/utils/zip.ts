@@ -0,0 +1,113 @@
+import zlib from 'zlib';
+import { Writable } from 'stream';
+import { once } from 'events';
+
+// =========================================================================
+// ZIP EN STREAMING (deflate + data descriptor), suficiente para generar XLSX
+// =========================================================================
+
+type CentralEntry = {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+};
+
+// 2020-01-01 00:00 en formato DOS; la fecha de los archivos internos no se usa
+const DOS_TIME = 0;
+const DOS_DATE = ((2020 - 1980) << 9) | (1 << 5) | 1;
+// bit 3: tamaños y CRC van en el data descriptor; bit 11: nombres UTF-8
+const FLAGS = 0x0008 | 0x0800;
+
+/**
+ * Escribe un ZIP en `out` sin cargarlo en memoria: cada entrada se comprime a medida que
+ * llegan sus chunks. Sin ZIP64, así que cada entrada y el total deben quedar bajo 4 GB.
+ */
+export class ZipWriter {
+  private offset = 0;
+  private entries: CentralEntry[] = [];
+
+  constructor(private readonly out: Writable) {}
+
+  private async write(chunk: Buffer): Promise<void> {
+    this.offset += chunk.length;
+    if (!this.out.write(chunk)) await once(this.out, 'drain');
+  }
+
+  public async addEntry(name: string, content: Buffer | string | AsyncIterable<Buffer | string>): Promise<void> {
+    const nameBuffer = Buffer.from(name, 'utf8');
+    const offset = this.offset;
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(FLAGS, 6);
+    header.writeUInt16LE(8, 8); // deflate
+    header.writeUInt16LE(DOS_TIME, 10);
+    header.writeUInt16LE(DOS_DATE, 12);
+    // CRC y tamaños en 0: van en el data descriptor
+    header.writeUInt16LE(nameBuffer.length, 26);
+    await this.write(Buffer.concat([header, nameBuffer]));
+
+    let crc = 0;
+    let size = 0;
+    let compressedSize = 0;
+    const deflate = zlib.createDeflateRaw();
+    const pump = (async () => {
+      for await (const chunk of deflate) {
+        compressedSize += (chunk as Buffer).length;
+        await this.write(chunk as Buffer);
+      }
+    })();
+
+    const source = typeof content === 'string' || Buffer.isBuffer(content) ? [content] : content;
+    for await (const part of source) {
+      const chunk = typeof part === 'string' ? Buffer.from(part, 'utf8') : part;
+      if (!chunk.length) continue;
+      crc = zlib.crc32(chunk, crc);
+      size += chunk.length;
+      if (!deflate.write(chunk)) await once(deflate, 'drain');
+    }
+    deflate.end();
+    await pump;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(crc >>> 0, 4);
+    descriptor.writeUInt32LE(compressedSize, 8);
+    descriptor.writeUInt32LE(size, 12);
+    await this.write(descriptor);
+
+    this.entries.push({ name: nameBuffer, crc: crc >>> 0, compressedSize, size, offset });
+  }
+
+  // Directorio central y fin de archivo; no cierra `out`
+  public async finish(): Promise<void> {
+    const start = this.offset;
+    for (const entry of this.entries) {
+      const record = Buffer.alloc(46);
+      record.writeUInt32LE(0x02014b50, 0);
+      record.writeUInt16LE(20, 4);
+      record.writeUInt16LE(20, 6);
+      record.writeUInt16LE(FLAGS, 8);
+      record.writeUInt16LE(8, 10);
+      record.writeUInt16LE(DOS_TIME, 12);
+      record.writeUInt16LE(DOS_DATE, 14);
+      record.writeUInt32LE(entry.crc, 16);
+      record.writeUInt32LE(entry.compressedSize, 20);
+      record.writeUInt32LE(entry.size, 24);
+      record.writeUInt16LE(entry.name.length, 28);
+      record.writeUInt32LE(entry.offset, 42);
+      await this.write(Buffer.concat([record, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - start, 12);
+    end.writeUInt32LE(start, 16);
+    await this.write(end);
+  }
+}